@@ -16,6 +16,7 @@ const node: LndConfig = {
 const client = createL402Client({
   node,
   maxAutoPaySats: 1000, // Won't auto-pay more than 1000 sats
+  network: 'regtest', // Polar / local dev network
 });
 
 const API = process.env.API_URL || 'http://localhost:3000';
@@ -17,6 +17,9 @@ const node: LndConfig = {
   skipTlsVerify: true, // Only for development with self-signed certs
 };
 
+// Signs macaroons. Use a long random secret and keep it stable across restarts.
+const rootKey = process.env.L402_ROOT_KEY || 'dev-only-root-key-change-me';
+
 // Free: service discovery
 app.get('/', (_req, res) => {
   res.json({
@@ -33,7 +36,7 @@ app.get('/', (_req, res) => {
 // 10 sats: random joke
 app.get(
   '/api/joke',
-  l402({ node, price: 10, description: 'Random joke' }),
+  l402({ node, rootKey, price: 10, description: 'Random joke' }),
   (_req, res) => {
     const jokes = [
       'Why do programmers prefer dark mode? Because light attracts bugs.',
@@ -49,7 +52,7 @@ app.get(
 // 50 sats: wisdom
 app.get(
   '/api/wisdom',
-  l402({ node, price: 50, description: 'A piece of wisdom' }),
+  l402({ node, rootKey, price: 50, description: 'A piece of wisdom' }),
   (_req, res) => {
     const wisdom = [
       'The best time to plant a tree was 20 years ago. The second best time is now.',
@@ -65,7 +68,7 @@ app.get(
 // 5 sats: echo (demonstrates POST with L402)
 app.post(
   '/api/echo',
-  l402({ node, price: 5, description: 'Echo service' }),
+  l402({ node, rootKey, price: 5, description: 'Echo service' }),
   (req, res) => {
     res.json({ echo: req.body.message || 'nothing to echo', paid: true });
   }
@@ -0,0 +1,65 @@
+// src/adapters/fastify.ts
+// L402 for Fastify, as a preHandler hook
+//
+// Usage:
+//   import { l402Fastify } from 'l402-js';
+//
+//   fastify.get('/api/data', { preHandler: l402Fastify({ node, rootKey, price: 100 }) },
+//     async (request) => ({ data: 'premium content', paid: request.l402 }));
+
+import { L402Config, L402Proof } from '../types';
+import { createL402Core } from '../core';
+import { finishOnResponse, NodeResponseLike } from './node';
+
+/** The parts of a Fastify request the adapter uses. */
+export interface FastifyRequestLike {
+  method: string;
+  /** Request URL, query string included */
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  ip: string;
+  /** Proof of payment, set once the request is authorized */
+  l402?: L402Proof;
+}
+
+/** The parts of a Fastify reply the adapter uses. */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string | string[]): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+  raw: NodeResponseLike;
+}
+
+/**
+ * L402 preHandler hook for Fastify. Takes the same options as `l402()`;
+ * `priceFn`, `caveats` and `issuance.clientKey` get the Fastify
+ * request. Authorized requests carry their proof on `request.l402` —
+ * call `fastify.decorateRequest('l402', null)` to declare it up front.
+ */
+export function l402Fastify<TRequest extends FastifyRequestLike = FastifyRequestLike>(
+  config: L402Config<TRequest>
+) {
+  const core = createL402Core(config);
+
+  return async (request: TRequest, reply: FastifyReplyLike) => {
+    const outcome = await core.handle(
+      {
+        method: request.method,
+        path: request.url.split('?')[0],
+        headers: request.headers,
+        ip: request.ip,
+      },
+      request
+    );
+
+    if (outcome.type === 'challenge') {
+      reply.code(outcome.status);
+      for (const [name, value] of Object.entries(outcome.headers)) reply.header(name, value);
+      // Returning the reply tells Fastify the hook has answered
+      return reply.send(outcome.body);
+    }
+
+    if (outcome.escrow) finishOnResponse(reply.raw, outcome.escrow);
+    request.l402 = outcome.proof;
+  };
+}
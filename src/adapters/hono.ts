@@ -0,0 +1,60 @@
+// src/adapters/hono.ts
+// L402 for Hono, as middleware
+//
+// Usage:
+//   import { l402Hono } from 'l402-js';
+//
+//   app.get('/api/data', l402Hono({ node, rootKey, price: 100 }), (c) =>
+//     c.json({ data: 'premium content', paid: c.get('l402') }));
+
+import { L402Config, L402Proof } from '../types';
+import { createL402Core } from '../core';
+import { challengeResponse, describeRequest } from './web';
+
+/** The parts of a Hono context the adapter uses. */
+export interface HonoContextLike {
+  req: {
+    /** Request path, without the query string */
+    path: string;
+    raw: Request;
+  };
+  res: Response;
+  set(key: 'l402', value: L402Proof): void;
+  header(name: string, value: string): void;
+}
+
+/**
+ * L402 middleware for Hono. Takes the same options as `l402()`;
+ * `priceFn`, `caveats` and `issuance.clientKey` get the Hono context.
+ * Authorized requests carry their proof in `c.get('l402')`.
+ *
+ * Hono doesn't know the client's IP on every runtime, so `ip=`
+ * caveats don't hold. Without `issuance.clientKey`, challenges
+ * aren't reused or limited per client; `maxOutstanding` still applies.
+ */
+export function l402Hono<TContext extends HonoContextLike = HonoContextLike>(
+  config: L402Config<TContext>
+) {
+  const core = createL402Core(config);
+
+  return async (c: TContext, next: () => Promise<void>): Promise<Response | void> => {
+    const outcome = await core.handle(describeRequest(c.req.raw, c.req.path), c);
+    if (outcome.type === 'challenge') return challengeResponse(outcome);
+
+    c.set('l402', outcome.proof);
+    const { escrow } = outcome;
+    if (!escrow) return next();
+
+    // Escrow: the response the handler sends decides the payment
+    try {
+      await next();
+    } catch (err) {
+      await escrow.finish(500);
+      throw err;
+    }
+    if (c.res.ok) {
+      for (const [name, value] of Object.entries(escrow.headers)) c.header(name, value);
+    }
+    await escrow.finish(c.res.status);
+  };
+}
@@ -0,0 +1,64 @@
+// src/adapters/koa.ts
+// L402 for Koa, as middleware
+//
+// Usage:
+//   import { l402Koa } from 'l402-js';
+//
+//   router.get('/api/data', l402Koa({ node, rootKey, price: 100 }), (ctx) => {
+//     ctx.body = { data: 'premium content', paid: ctx.state.l402 };
+//   });
+
+import { L402Config } from '../types';
+import { createL402Core } from '../core';
+
+/** The parts of a Koa context the adapter uses. */
+export interface KoaContextLike {
+  method: string;
+  /** Request path, without the query string */
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  ip: string;
+  status: number;
+  body: unknown;
+  set(fields: Record<string, string | string[]>): void;
+  state: Record<string, any>;
+}
+
+/**
+ * L402 middleware for Koa. Takes the same options as `l402()`;
+ * `priceFn`, `caveats` and `issuance.clientKey` get the Koa context.
+ * Authorized requests carry their proof on `ctx.state.l402`.
+ */
+export function l402Koa<TContext extends KoaContextLike = KoaContextLike>(
+  config: L402Config<TContext>
+) {
+  const core = createL402Core(config);
+
+  return async (ctx: TContext, next: () => Promise<unknown>) => {
+    const outcome = await core.handle(
+      { method: ctx.method, path: ctx.path, headers: ctx.headers, ip: ctx.ip },
+      ctx
+    );
+
+    if (outcome.type === 'challenge') {
+      ctx.status = outcome.status;
+      ctx.set(outcome.headers);
+      ctx.body = outcome.body;
+      return;
+    }
+
+    ctx.state.l402 = outcome.proof;
+    const { escrow } = outcome;
+    if (!escrow) return next();
+
+    // Escrow: the status downstream settles on decides the payment
+    try {
+      await next();
+    } catch (err) {
+      await escrow.finish(500);
+      throw err;
+    }
+    if (ctx.status >= 200 && ctx.status < 300) ctx.set(escrow.headers);
+    await escrow.finish(ctx.status);
+  };
+}
@@ -0,0 +1,45 @@
+// src/adapters/next.ts
+// L402 for Next.js route handlers
+//
+// Usage (app/api/data/route.ts):
+//   import { l402Next } from 'l402-js';
+//
+//   export const GET = l402Next({ node, rootKey, price: 100 }, async (request, { l402 }) =>
+//     Response.json({ data: 'premium content', paid: l402.paymentHash }));
+
+import { L402Config, L402Proof } from '../types';
+import { createL402Core } from '../core';
+import { authorizedResponse, challengeResponse, describeRequest } from './web';
+
+/**
+ * A Next.js route handler behind L402. Its second argument is the one
+ * Next.js passes (with `params`), plus the proof of payment.
+ */
+export type L402RouteHandler<TContext = {}> = (
+  request: Request,
+  context: TContext & { l402: L402Proof }
+) => Response | Promise<Response>;
+
+/**
+ * Put a Next.js route handler behind L402. Takes the same options as
+ * `l402()`; `priceFn`, `caveats` and `issuance.clientKey` get the
+ * incoming Request.
+ *
+ * Route handlers don't see the client's IP, so `ip=` caveats don't
+ * hold. Without `issuance.clientKey`, challenges aren't reused or
+ * limited per client; `maxOutstanding` still applies.
+ */
+export function l402Next<TContext = {}>(
+  config: L402Config<Request>,
+  handler: L402RouteHandler<TContext>
+) {
+  const core = createL402Core(config);
+
+  return async (request: Request, context: TContext): Promise<Response> => {
+    const outcome = await core.handle(describeRequest(request), request);
+    if (outcome.type === 'challenge') return challengeResponse(outcome);
+    return authorizedResponse(outcome, () =>
+      handler(request, { ...context, l402: outcome.proof })
+    );
+  };
+}
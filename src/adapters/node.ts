@@ -0,0 +1,34 @@
+// src/adapters/node.ts
+// Escrow on Node's http.ServerResponse
+//
+// Express and Fastify write through a plain Node response. Node sends
+// every response's headers through writeHead, so that is where a held
+// escrow payment learns whether the handler succeeded.
+
+import { L402EscrowHold } from '../types';
+
+/** The parts of Node's `http.ServerResponse` escrow needs. */
+export interface NodeResponseLike {
+  writeHead(statusCode: number, ...rest: any[]): unknown;
+  setHeader(name: string, value: string): unknown;
+  on(event: 'close', listener: () => void): unknown;
+}
+
+/**
+ * Settle a held escrow payment when `res` starts a 2xx response,
+ * adding the preimage header to it, and cancel it for any other
+ * status — or if the connection closes before a response starts.
+ */
+export function finishOnResponse(res: NodeResponseLike, hold: L402EscrowHold): void {
+  const writeHead = res.writeHead;
+  res.writeHead = function (this: NodeResponseLike, statusCode: number, ...rest: any[]) {
+    if (statusCode >= 200 && statusCode < 300) {
+      for (const [name, value] of Object.entries(hold.headers)) this.setHeader(name, value);
+    }
+    void hold.finish(statusCode);
+    return writeHead.call(this, statusCode, ...rest);
+  };
+
+  // The handler never answered, or the client went away first
+  res.on('close', () => void hold.finish(500));
+}
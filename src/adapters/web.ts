@@ -0,0 +1,95 @@
+// src/adapters/web.ts
+// L402 for web-standard Request/Response handlers
+//
+// Cloudflare Workers, Deno, Bun and anything else that serves a
+// `(Request) => Promise<Response>` function. The core only uses
+// WebCrypto, so verification runs the same here as on Node. The
+// Request/Response helpers are shared with the Hono and Next.js
+// adapters.
+//
+// Usage (Cloudflare Workers):
+//   import { l402Handler } from 'l402-js';
+//
+//   export default {
+//     fetch: l402Handler({ node, rootKey, price: 100 }, async (request, l402) =>
+//       Response.json({ data: 'premium content', paid: l402.paymentHash })),
+//   };
+
+import { L402Config, L402HttpRequest, L402Outcome, L402Proof } from '../types';
+import { createL402Core } from '../core';
+
+/** A web-standard handler behind L402, given the proof of payment. */
+export type L402FetchHandler = (
+  request: Request,
+  l402: L402Proof
+) => Response | Promise<Response>;
+
+/** Describe a fetch-API Request for the core. */
+export function describeRequest(
+  request: Request,
+  path = new URL(request.url).pathname
+): L402HttpRequest {
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  return { method: request.method, path, headers };
+}
+
+/** The core's challenge or error as a fetch-API Response. */
+export function challengeResponse(
+  outcome: Extract<L402Outcome, { type: 'challenge' }>
+): Response {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  for (const [name, value] of Object.entries(outcome.headers)) {
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v);
+  }
+  return new Response(JSON.stringify(outcome.body), { status: outcome.status, headers });
+}
+
+/**
+ * Run the handler for an authorized request. With escrow, the
+ * handler's response decides whether the held payment is taken.
+ */
+export async function authorizedResponse(
+  outcome: Extract<L402Outcome, { type: 'authorized' }>,
+  run: () => Response | Promise<Response>
+): Promise<Response> {
+  const { escrow } = outcome;
+  if (!escrow) return run();
+
+  let response: Response;
+  try {
+    response = await run();
+  } catch (err) {
+    await escrow.finish(500);
+    throw err;
+  }
+  await escrow.finish(response.status);
+  if (!response.ok) return response;
+
+  // Responses can have read-only headers, so copy before adding the preimage
+  const settled = new Response(response.body, response);
+  for (const [name, value] of Object.entries(escrow.headers)) settled.headers.set(name, value);
+  return settled;
+}
+
+/**
+ * Put a web-standard `(Request) => Promise<Response>` handler behind
+ * L402. Takes the same options as `l402()`; `priceFn`, `caveats` and
+ * `issuance.clientKey` get the incoming Request.
+ *
+ * A Request doesn't carry the client's IP, so `ip=` caveats don't
+ * hold. Without `issuance.clientKey` (on Workers, the
+ * `cf-connecting-ip` header), challenges aren't reused or limited
+ * per client; `maxOutstanding` still applies.
+ */
+export function l402Handler(config: L402Config<Request>, handler: L402FetchHandler) {
+  const core = createL402Core(config);
+
+  return async (request: Request): Promise<Response> => {
+    const outcome = await core.handle(describeRequest(request), request);
+    if (outcome.type === 'challenge') return challengeResponse(outcome);
+    return authorizedResponse(outcome, () => handler(request, outcome.proof));
+  };
+}
@@ -0,0 +1,164 @@
+// src/backends/cln.ts
+// Core Lightning (clnrest) implementation of LightningBackend
+//
+// clnrest exposes every CLN RPC method as POST /v1/<method>,
+// authenticated with a rune in the `Rune` header. Amounts are
+// in millisatoshis; older CLN versions render them as "1000msat".
+
+import {
+  ClnConfig,
+  ClnDecodeResponse,
+  ClnInvoiceResponse,
+  ClnListedInvoice,
+  ClnListedPay,
+  ClnPayResponse,
+  InvoiceState,
+  LightningBackend,
+} from '../types';
+import { createLndFetch } from '../lnd-fetch';
+import { bytesToHex, randomBytes } from '../crypto';
+import { feeLimitMsat } from './fees';
+
+/**
+ * Parse a CLN msat amount (number, or string like "1000msat").
+ */
+function parseMsat(value: number | string | undefined): number {
+  if (value === undefined) return 0;
+  return typeof value === 'number' ? value : Number(value.replace(/msat$/, ''));
+}
+
+function msatToSats(value: number | string | undefined): number {
+  return Math.floor(parseMsat(value) / 1000);
+}
+
+const INVOICE_STATES: Record<ClnListedInvoice['status'], InvoiceState> = {
+  unpaid: 'OPEN',
+  paid: 'SETTLED',
+  expired: 'CANCELED',
+};
+
+/**
+ * Create a LightningBackend backed by Core Lightning's REST API.
+ *
+ * @example
+ * ```typescript
+ * const backend = createClnBackend({
+ *   restHost: 'https://127.0.0.1:3010',
+ *   rune: process.env.CLN_RUNE!,
+ * });
+ * ```
+ */
+export function createClnBackend(config: ClnConfig): LightningBackend {
+  const { restHost, rune } = config;
+  const lndFetch = createLndFetch(config);
+
+  async function call<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    const res = await lndFetch(`${restHost}/v1/${method}`, {
+      method: 'POST',
+      headers: {
+        Rune: rune,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    });
+
+    if (!res.ok) {
+      // clnrest reports RPC errors as { code, message }
+      let detail = res.statusText;
+      try {
+        const body = (await res.json()) as { message?: string };
+        if (body.message) detail = body.message;
+      } catch {
+        // Not JSON — keep the status text
+      }
+      throw new Error(`CLN ${method} failed: ${res.status} ${detail}`);
+    }
+
+    return res.json() as Promise<T>;
+  }
+
+  return {
+    async createInvoice({ amountSats, memo }) {
+      const invoice = await call<ClnInvoiceResponse>('invoice', {
+        amount_msat: amountSats * 1000,
+        // Labels must be unique per node
+        label: `l402-${Date.now()}-${bytesToHex(randomBytes(8))}`,
+        description: memo,
+      });
+      return {
+        paymentRequest: invoice.bolt11,
+        paymentHash: invoice.payment_hash,
+      };
+    },
+
+    async lookupInvoice(paymentHash) {
+      const { invoices } = await call<{ invoices: ClnListedInvoice[] }>('listinvoices', {
+        payment_hash: paymentHash,
+      });
+      const invoice = invoices[0];
+      if (!invoice) return undefined;
+      return {
+        paymentHash,
+        state: INVOICE_STATES[invoice.status],
+        valueSats: msatToSats(invoice.amount_msat),
+        amountPaidSats: msatToSats(invoice.amount_received_msat),
+        settledAt: invoice.paid_at ? invoice.paid_at * 1000 : undefined,
+      };
+    },
+
+    async payInvoice(paymentRequest, options = {}) {
+      // CLN has no equivalent of maxParts or outgoingChanIds
+      const maxfee = feeLimitMsat(paymentRequest, options);
+      const payment = await call<ClnPayResponse>('pay', {
+        bolt11: paymentRequest,
+        ...(maxfee !== undefined && { maxfee }),
+        ...(options.timeoutSeconds !== undefined && { retry_for: options.timeoutSeconds }),
+      });
+      if (payment.status !== 'complete') {
+        throw new Error(`Lightning payment failed: ${payment.status}`);
+      }
+      return {
+        preimage: payment.payment_preimage,
+        // Round fees up so sub-sat fees still show up in accounting
+        feeSats: Math.ceil(
+          (parseMsat(payment.amount_sent_msat) - parseMsat(payment.amount_msat)) / 1000
+        ),
+      };
+    },
+
+    async lookupPayment(paymentHash) {
+      const { pays } = await call<{ pays: ClnListedPay[] }>('listpays', {
+        payment_hash: paymentHash,
+      });
+      const pay = pays[0];
+      if (!pay) return undefined;
+      if (pay.status === 'complete') {
+        return {
+          paymentHash,
+          state: 'SUCCEEDED',
+          preimage: pay.preimage,
+          feeSats: Math.ceil(
+            (parseMsat(pay.amount_sent_msat) - parseMsat(pay.amount_msat)) / 1000
+          ),
+        };
+      }
+      return { paymentHash, state: pay.status === 'failed' ? 'FAILED' : 'PENDING' };
+    },
+
+    async decodeInvoice(paymentRequest) {
+      const decoded = await call<ClnDecodeResponse>('decode', { string: paymentRequest });
+      if (!decoded.valid || !decoded.type.startsWith('bolt11')) {
+        throw new Error('CLN decode failed: not a valid BOLT11 invoice');
+      }
+      const amount = msatToSats(decoded.amount_msat);
+      return {
+        paymentHash: decoded.payment_hash,
+        amountSats: decoded.amount_msat === undefined ? undefined : amount,
+        description: decoded.description,
+        timestamp: decoded.created_at,
+        expiry: decoded.expiry,
+        payee: decoded.payee,
+      };
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// src/backends/fees.ts
+// Routing fee limits for the node backends
+//
+// PaymentOptions takes a fee limit in sats, as a percentage, or
+// both. Nodes want a single figure, so both are turned into one
+// limit in millisatoshis, the lower of the two.
+
+import { PaymentOptions } from '../types';
+import { decodeBolt11 } from '../bolt11';
+
+/**
+ * The fee limit for paying `paymentRequest`, in msat, or undefined
+ * if `options` sets none. A percentage needs the invoice amount, so
+ * amountless invoices only take `feeLimitSats`.
+ */
+export function feeLimitMsat(
+  paymentRequest: string,
+  options: PaymentOptions = {}
+): number | undefined {
+  const { feeLimitSats, feeLimitPercent } = options;
+  for (const [name, value] of Object.entries({ feeLimitSats, feeLimitPercent })) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`Invalid ${name}: ${value}. Must be a non-negative number.`);
+    }
+  }
+
+  const limits: number[] = [];
+  if (feeLimitSats !== undefined) limits.push(Math.floor(feeLimitSats * 1000));
+  if (feeLimitPercent !== undefined) {
+    const { amountMsat } = decodeBolt11(paymentRequest);
+    if (amountMsat !== undefined) {
+      limits.push(Math.floor((amountMsat * feeLimitPercent) / 100));
+    } else if (feeLimitSats === undefined) {
+      throw new Error('feeLimitPercent needs an invoice with an amount. Set feeLimitSats too.');
+    }
+  }
+  return limits.length ? Math.min(...limits) : undefined;
+}
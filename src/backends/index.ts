@@ -0,0 +1,21 @@
+// src/backends/index.ts
+// Resolve node configuration into a LightningBackend
+
+import { ClnConfig, LightningBackend, LndConfig, NwcConfig } from '../types';
+import { createLndBackend } from './lnd';
+import { createClnBackend } from './cln';
+import { createNwcBackend, parseNwcUri } from './nwc';
+import { isLightningBackend, resolveRestBackend } from './resolve';
+
+/**
+ * Turn whatever was passed as `node` into a LightningBackend.
+ * Connection settings get the matching built-in backend.
+ */
+export function resolveBackend(
+  node: LndConfig | ClnConfig | NwcConfig | LightningBackend
+): LightningBackend {
+  if (!isLightningBackend(node) && 'connectionUri' in node) return createNwcBackend(node);
+  return resolveRestBackend(node);
+}
+
+export { createLndBackend, createClnBackend, createNwcBackend, parseNwcUri, isLightningBackend };
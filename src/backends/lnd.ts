@@ -0,0 +1,309 @@
+// src/backends/lnd.ts
+// LND REST implementation of LightningBackend
+//
+// Talks to LND's REST proxy with the macaroon in the
+// Grpc-Metadata-macaroon header. This is the default backend
+// whenever an LndConfig is passed to l402() or createL402Client().
+
+import {
+  LightningBackend,
+  LndConfig,
+  LndHoldInvoiceResponse,
+  LndInvoiceLookupResponse,
+  LndInvoiceResponse,
+  LndPayment,
+  LndPaymentUpdate,
+  LndPayReqResponse,
+  PaymentStatus,
+} from '../types';
+import { createLndFetch } from '../lnd-fetch';
+import { base64ToBytes, bytesToBase64, bytesToBase64Url, bytesToHex, hexToBytes } from '../crypto';
+import { decodeBolt11 } from '../bolt11';
+import { InsufficientBalanceError, PaymentError } from '../errors';
+import { feeLimitMsat } from './fees';
+
+// LND only tries zero-fee routes without a fee limit, so payments
+// get one by default: 1% of the amount, but at least 10 sats
+const DEFAULT_FEE_LIMIT_PERCENT = 1;
+const MIN_DEFAULT_FEE_LIMIT_SATS = 10;
+const DEFAULT_PAYMENT_TIMEOUT_SECONDS = 60;
+// LND should settle a payment's fate within timeout_seconds; if the
+// stream still hasn't said after this much longer, stop waiting
+const PAYMENT_DEADLINE_GRACE_SECONDS = 15;
+
+/**
+ * Read a newline-delimited JSON stream, as LND's REST proxy sends
+ * for streaming RPCs, one parsed object at a time.
+ */
+async function* readJsonLines<T>(res: Response): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const lines = function* (final: boolean) {
+    const parts = buffered.split('\n');
+    buffered = final ? '' : parts.pop()!;
+    for (const line of parts) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  };
+
+  if (!res.body) {
+    buffered = await res.text();
+    yield* lines(true);
+    return;
+  }
+  const reader = res.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      yield* lines(false);
+    }
+    buffered += decoder.decode();
+    yield* lines(true);
+  } finally {
+    // Callers may stop at the first update they need
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/** Convert LND's payment status to ours. */
+function paymentStatus(paymentHash: string, payment: LndPayment): PaymentStatus {
+  if (payment.status === 'SUCCEEDED') {
+    return {
+      paymentHash,
+      state: 'SUCCEEDED',
+      preimage: payment.payment_preimage,
+      feeSats: Math.ceil(Number(payment.fee_msat ?? 0) / 1000),
+    };
+  }
+  return { paymentHash, state: payment.status === 'FAILED' ? 'FAILED' : 'PENDING' };
+}
+
+/** Turn LND's `FAILURE_REASON_*` into a typed error. */
+function paymentFailure(reason: string): PaymentError {
+  const code = reason.replace(/^FAILURE_REASON_/, '');
+  const message = `Lightning payment failed: ${code}`;
+  return code === 'INSUFFICIENT_BALANCE'
+    ? new InsufficientBalanceError(message)
+    : new PaymentError(message, code);
+}
+
+/**
+ * Create a LightningBackend backed by LND's REST API.
+ *
+ * @example
+ * ```typescript
+ * const backend = createLndBackend({
+ *   restHost: 'https://127.0.0.1:8082',
+ *   macaroon: process.env.LND_MACAROON!,
+ * });
+ * const invoice = await backend.createInvoice({ amountSats: 100, memo: 'test' });
+ * ```
+ */
+export function createLndBackend(config: LndConfig): LightningBackend {
+  const { restHost, macaroon } = config;
+  const lndFetch = createLndFetch(config);
+
+  function request(path: string, init: RequestInit = {}): Promise<Response> {
+    return lndFetch(`${restHost}${path}`, {
+      ...init,
+      headers: {
+        'Grpc-Metadata-macaroon': macaroon,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  return {
+    async createInvoice({ amountSats, memo }) {
+      const res = await request('/v1/invoices', {
+        method: 'POST',
+        body: JSON.stringify({
+          value: amountSats.toString(),
+          memo,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`LND invoice creation failed: ${res.status} ${res.statusText}`);
+      }
+
+      const invoice = (await res.json()) as LndInvoiceResponse;
+      return {
+        paymentRequest: invoice.payment_request,
+        paymentHash: bytesToHex(base64ToBytes(invoice.r_hash)),
+      };
+    },
+
+    async createHoldInvoice({ amountSats, memo, paymentHash }) {
+      const res = await request('/v2/invoices/hodl', {
+        method: 'POST',
+        body: JSON.stringify({
+          hash: bytesToBase64(hexToBytes(paymentHash)),
+          value: amountSats.toString(),
+          memo,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`LND hold invoice creation failed: ${res.status} ${res.statusText}`);
+      }
+
+      const invoice = (await res.json()) as LndHoldInvoiceResponse;
+      return { paymentRequest: invoice.payment_request, paymentHash };
+    },
+
+    async settleInvoice(preimage) {
+      const res = await request('/v2/invoices/settle', {
+        method: 'POST',
+        body: JSON.stringify({ preimage: bytesToBase64(hexToBytes(preimage)) }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`LND invoice settle failed: ${res.status} ${res.statusText}`);
+      }
+    },
+
+    async cancelInvoice(paymentHash) {
+      const res = await request('/v2/invoices/cancel', {
+        method: 'POST',
+        body: JSON.stringify({ payment_hash: bytesToBase64(hexToBytes(paymentHash)) }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`LND invoice cancel failed: ${res.status} ${res.statusText}`);
+      }
+    },
+
+    async lookupInvoice(paymentHash) {
+      const res = await request(`/v1/invoice/${paymentHash}`);
+
+      // LND answers 404 for an invoice it never issued
+      if (res.status === 404) return undefined;
+      if (!res.ok) {
+        throw new Error(`LND invoice lookup failed: ${res.status} ${res.statusText}`);
+      }
+
+      const invoice = (await res.json()) as LndInvoiceLookupResponse;
+      const settleDate = Number(invoice.settle_date);
+      return {
+        paymentHash,
+        state: invoice.state,
+        valueSats: Number(invoice.value ?? 0),
+        amountPaidSats: Number(invoice.amt_paid_sat ?? 0),
+        settledAt: settleDate > 0 ? settleDate * 1000 : undefined,
+      };
+    },
+
+    async payInvoice(paymentRequest, options = {}) {
+      const { timeoutSeconds = DEFAULT_PAYMENT_TIMEOUT_SECONDS, maxParts, outgoingChanIds } = options;
+      if (!Number.isInteger(timeoutSeconds) || timeoutSeconds <= 0) {
+        throw new Error(`Invalid timeoutSeconds: ${timeoutSeconds}. Must be a positive integer.`);
+      }
+      if (maxParts !== undefined && (!Number.isInteger(maxParts) || maxParts <= 0)) {
+        throw new Error(`Invalid maxParts: ${maxParts}. Must be a positive integer.`);
+      }
+
+      let feeLimit = feeLimitMsat(paymentRequest, options);
+      if (feeLimit === undefined) {
+        const amountMsat = decodeBolt11(paymentRequest).amountMsat ?? 0;
+        feeLimit = Math.max(
+          MIN_DEFAULT_FEE_LIMIT_SATS * 1000,
+          Math.floor((amountMsat * DEFAULT_FEE_LIMIT_PERCENT) / 100)
+        );
+      }
+
+      const deadlineSeconds = timeoutSeconds + PAYMENT_DEADLINE_GRACE_SECONDS;
+      const deadline = new AbortController();
+      const timer = setTimeout(() => deadline.abort(), deadlineSeconds * 1000);
+      try {
+        const res = await request('/v2/router/send', {
+          method: 'POST',
+          body: JSON.stringify({
+            payment_request: paymentRequest,
+            fee_limit_msat: feeLimit.toString(),
+            timeout_seconds: timeoutSeconds,
+            ...(maxParts !== undefined && { max_parts: maxParts }),
+            ...(outgoingChanIds?.length && { outgoing_chan_ids: outgoingChanIds }),
+            // Only the final state
+            no_inflight_updates: true,
+          }),
+          signal: deadline.signal,
+        });
+
+        if (!res.ok) {
+          throw new Error(`LND payment failed: ${res.status} ${res.statusText}`);
+        }
+
+        for await (const update of readJsonLines<LndPaymentUpdate>(res)) {
+          if (update.error) {
+            throw new PaymentError(`Lightning payment failed: ${update.error.message}`);
+          }
+          const payment = update.result;
+          if (payment?.status === 'FAILED') {
+            throw paymentFailure(payment.failure_reason);
+          }
+          if (payment?.status === 'SUCCEEDED') {
+            return {
+              preimage: payment.payment_preimage,
+              // Round fees up so sub-sat fees still show up in accounting
+              feeSats: Math.ceil(Number(payment.fee_msat ?? 0) / 1000),
+            };
+          }
+        }
+        throw new PaymentError('LND payment stream ended before the payment finished', 'IN_FLIGHT');
+      } catch (err) {
+        // The payment may still be in flight; lookupPayment can tell
+        if (deadline.signal.aborted) {
+          throw new PaymentError(`LND payment had no final state after ${deadlineSeconds}s`, 'IN_FLIGHT');
+        }
+        throw err;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+
+    async lookupPayment(paymentHash) {
+      // TrackPaymentV2 streams the current state first, then any changes
+      const hash = bytesToBase64Url(hexToBytes(paymentHash));
+      const res = await request(`/v2/router/track/${hash}`);
+
+      if (res.status === 404) return undefined;
+      if (!res.ok) {
+        throw new Error(`LND payment lookup failed: ${res.status} ${res.statusText}`);
+      }
+
+      for await (const update of readJsonLines<LndPaymentUpdate>(res)) {
+        if (update.error) {
+          // gRPC NOT_FOUND: "payment isn't initiated"
+          if (update.error.code === 5 || /not initiated|isn't initiated|not found/i.test(update.error.message)) {
+            return undefined;
+          }
+          throw new Error(`LND payment lookup failed: ${update.error.message}`);
+        }
+        if (update.result) return paymentStatus(paymentHash, update.result);
+      }
+      throw new Error('LND payment lookup failed: empty response');
+    },
+
+    async decodeInvoice(paymentRequest) {
+      const res = await request(`/v1/payreq/${encodeURIComponent(paymentRequest)}`);
+
+      if (!res.ok) {
+        throw new Error(`LND invoice decode failed: ${res.status} ${res.statusText}`);
+      }
+
+      const decoded = (await res.json()) as LndPayReqResponse;
+      const amount = Number(decoded.num_satoshis ?? 0);
+      return {
+        paymentHash: decoded.payment_hash,
+        amountSats: amount > 0 ? amount : undefined,
+        description: decoded.description || undefined,
+        timestamp: Number(decoded.timestamp),
+        expiry: Number(decoded.expiry),
+        payee: decoded.destination,
+      };
+    },
+  };
+}
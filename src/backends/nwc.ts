@@ -0,0 +1,271 @@
+// src/backends/nwc.ts
+// Nostr Wallet Connect (NIP-47) implementation of LightningBackend
+//
+// Lets an agent pay from a wallet through a scoped, budget-limited
+// connection string instead of holding node admin credentials.
+// Each call is a kind 23194 request event, NIP-44 encrypted to the
+// wallet and published to its relay; the wallet answers with a
+// kind 23195 event that references the request.
+//
+// https://github.com/nostr-protocol/nips/blob/master/47.md
+
+import crypto from 'crypto';
+import { LightningBackend, NwcConfig, WebSocketLike } from '../types';
+import { InsufficientBalanceError, PaymentError, QuotaExceededError } from '../errors';
+import { decrypt, encrypt, getConversationKey } from '../nip44';
+import { NostrEvent, signEvent, verifyEvent } from '../nostr';
+import { decodeBolt11 } from '../bolt11';
+
+const REQUEST_KIND = 23194;
+const RESPONSE_KIND = 23195;
+
+interface NwcConnection {
+  walletPubkey: string;
+  relays: string[];
+  secret: string;
+}
+
+interface NwcResponse<T> {
+  result_type: string;
+  error?: { code: string; message: string };
+  result?: T;
+}
+
+/**
+ * Parse a `nostr+walletconnect://` connection string.
+ */
+export function parseNwcUri(uri: string): NwcConnection {
+  const match = /^nostr\+walletconnect:(?:\/\/)?([0-9a-f]{64})\?(.*)$/i.exec(uri.trim());
+  if (!match) {
+    throw new Error('Invalid NWC connection string');
+  }
+
+  const params = new URLSearchParams(match[2]);
+  const relays = params.getAll('relay');
+  const secret = params.get('secret') ?? '';
+  if (relays.length === 0 || !/^[0-9a-f]{64}$/i.test(secret)) {
+    throw new Error('NWC connection string needs a relay and a 32-byte hex secret');
+  }
+
+  return { walletPubkey: match[1].toLowerCase(), relays, secret: secret.toLowerCase() };
+}
+
+/**
+ * Turn a NIP-47 error into a typed error.
+ */
+function nwcError(method: string, error: { code: string; message: string }): Error {
+  const message = `NWC ${method} failed: ${error.code} ${error.message}`.trim();
+  switch (error.code) {
+    case 'INSUFFICIENT_BALANCE':
+      return new InsufficientBalanceError(message);
+    case 'QUOTA_EXCEEDED':
+      return new QuotaExceededError(message);
+    default:
+      return new PaymentError(message, error.code || 'OTHER');
+  }
+}
+
+/**
+ * Create a LightningBackend that pays through an NWC wallet.
+ *
+ * Uses the first relay in the connection string and opens a fresh
+ * connection for each call.
+ *
+ * @example
+ * ```typescript
+ * const client = createL402Client({
+ *   node: { connectionUri: process.env.NWC_URI! },
+ * });
+ * ```
+ */
+export function createNwcBackend(config: NwcConfig): LightningBackend {
+  const { walletPubkey, relays, secret } = parseNwcUri(config.connectionUri);
+  const { timeoutMs = 60_000 } = config;
+  const conversationKey = getConversationKey(secret, walletPubkey);
+
+  function webSocket(): new (url: string) => WebSocketLike {
+    const impl = config.WebSocket ?? (globalThis as any).WebSocket;
+    if (!impl) {
+      throw new Error(
+        'No WebSocket implementation available. Pass one as `WebSocket` (e.g. from the ws package).'
+      );
+    }
+    return impl;
+  }
+
+  // Publish a request and wait for the wallet's response event
+  function exchange(request: NostrEvent): Promise<NostrEvent> {
+    const WebSocketImpl = webSocket();
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocketImpl(relays[0]);
+      const subId = crypto.randomBytes(8).toString('hex');
+      let settled = false;
+
+      const finish = (err: Error | null, event?: NostrEvent) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        try {
+          ws.close();
+        } catch {
+          // Already closed
+        }
+        if (err) reject(err);
+        else resolve(event!);
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error(`NWC wallet did not answer within ${timeoutMs}ms`)),
+        timeoutMs
+      );
+
+      ws.onopen = () => {
+        ws.send(
+          JSON.stringify([
+            'REQ',
+            subId,
+            { kinds: [RESPONSE_KIND], authors: [walletPubkey], '#e': [request.id] },
+          ])
+        );
+        ws.send(JSON.stringify(['EVENT', request]));
+      };
+
+      ws.onmessage = (message) => {
+        let data: any;
+        try {
+          data = JSON.parse(String(message.data));
+        } catch {
+          return;
+        }
+        if (!Array.isArray(data)) return;
+
+        if (data[0] === 'EVENT' && data[1] === subId) {
+          const event = data[2] as NostrEvent;
+          // Only trust responses signed by the wallet, for this request
+          if (
+            event?.kind === RESPONSE_KIND &&
+            event.pubkey === walletPubkey &&
+            event.tags?.some((t) => t[0] === 'e' && t[1] === request.id) &&
+            verifyEvent(event)
+          ) {
+            finish(null, event);
+          }
+        } else if (data[0] === 'OK' && data[1] === request.id && data[2] === false) {
+          finish(new Error(`NWC relay rejected the request: ${data[3] ?? ''}`.trim()));
+        }
+      };
+
+      ws.onerror = () => finish(new Error(`NWC relay connection failed: ${relays[0]}`));
+      ws.onclose = () => finish(new Error('NWC relay closed before the wallet answered'));
+    });
+  }
+
+  async function call<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    const request = signEvent(
+      {
+        kind: REQUEST_KIND,
+        tags: [
+          ['p', walletPubkey],
+          ['encryption', 'nip44_v2'],
+        ],
+        content: encrypt(JSON.stringify({ method, params }), conversationKey),
+      },
+      secret
+    );
+
+    const event = await exchange(request);
+
+    let response: NwcResponse<T>;
+    try {
+      response = JSON.parse(decrypt(event.content, conversationKey));
+    } catch {
+      throw new Error(`NWC ${method} failed: could not decrypt the wallet response`);
+    }
+
+    if (response.error) {
+      throw nwcError(method, response.error);
+    }
+    if (!response.result) {
+      throw new Error(`NWC ${method} failed: empty result`);
+    }
+    return response.result;
+  }
+
+  return {
+    async createInvoice({ amountSats, memo }) {
+      const result = await call<{ invoice: string; payment_hash: string }>('make_invoice', {
+        amount: amountSats * 1000,
+        description: memo,
+      });
+      return { paymentRequest: result.invoice, paymentHash: result.payment_hash };
+    },
+
+    async lookupInvoice(paymentHash) {
+      let result: {
+        state?: 'pending' | 'settled' | 'expired' | 'failed';
+        amount: number;
+        settled_at?: number;
+      };
+      try {
+        result = await call('lookup_invoice', { payment_hash: paymentHash });
+      } catch (err) {
+        if (err instanceof PaymentError && err.code === 'NOT_FOUND') return undefined;
+        throw err;
+      }
+
+      // Older wallets omit `state`; a settle time means it was paid
+      const state = result.state ?? (result.settled_at ? 'settled' : 'pending');
+      const settled = state === 'settled';
+      return {
+        paymentHash,
+        state: settled ? 'SETTLED' : state === 'pending' ? 'OPEN' : 'CANCELED',
+        valueSats: Math.floor(result.amount / 1000),
+        amountPaidSats: settled ? Math.floor(result.amount / 1000) : 0,
+        settledAt: result.settled_at ? result.settled_at * 1000 : undefined,
+      };
+    },
+
+    async payInvoice(paymentRequest) {
+      const result = await call<{ preimage: string; fees_paid?: number }>('pay_invoice', {
+        invoice: paymentRequest,
+      });
+      return {
+        preimage: result.preimage,
+        feeSats: Math.ceil((result.fees_paid ?? 0) / 1000),
+      };
+    },
+
+    async lookupPayment(paymentHash) {
+      let result: {
+        type?: 'incoming' | 'outgoing';
+        state?: 'pending' | 'settled' | 'expired' | 'failed';
+        preimage?: string;
+        fees_paid?: number;
+        settled_at?: number;
+      };
+      try {
+        result = await call('lookup_invoice', { payment_hash: paymentHash });
+      } catch (err) {
+        if (err instanceof PaymentError && err.code === 'NOT_FOUND') return undefined;
+        throw err;
+      }
+
+      const state = result.state ?? (result.settled_at ? 'settled' : 'pending');
+      if (state === 'settled') {
+        return {
+          paymentHash,
+          state: 'SUCCEEDED',
+          preimage: result.preimage,
+          feeSats: Math.ceil((result.fees_paid ?? 0) / 1000),
+        };
+      }
+      return { paymentHash, state: state === 'pending' ? 'PENDING' : 'FAILED' };
+    },
+
+    // NIP-47 has no decode method, so decode locally
+    async decodeInvoice(paymentRequest) {
+      return decodeBolt11(paymentRequest);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+// src/backends/resolve.ts
+// Resolve REST node configuration into a LightningBackend
+//
+// Kept apart from NWC, whose NIP-44 encryption needs Node's crypto
+// module, so the server core can load on any runtime.
+
+import { ClnConfig, LightningBackend, LndConfig, NwcConfig } from '../types';
+import { createLndBackend } from './lnd';
+import { createClnBackend } from './cln';
+
+/**
+ * True if `node` is already a LightningBackend rather than
+ * connection settings for one.
+ */
+export function isLightningBackend(
+  node: LndConfig | ClnConfig | NwcConfig | LightningBackend
+): node is LightningBackend {
+  return typeof (node as LightningBackend).payInvoice === 'function';
+}
+
+/**
+ * Turn LND or CLN settings, or a custom backend, into a
+ * LightningBackend.
+ */
+export function resolveRestBackend(node: LndConfig | ClnConfig | LightningBackend): LightningBackend {
+  if (isLightningBackend(node)) return node;
+  if ('rune' in node) return createClnBackend(node);
+  return createLndBackend(node);
+}
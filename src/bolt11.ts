@@ -0,0 +1,243 @@
+// src/bolt11.ts
+// BOLT11 invoice decoding
+//
+// An invoice is bech32: a human-readable part carrying the network
+// and amount (`lnbc2500u`), then a 35-bit timestamp, tagged fields
+// and a 65-byte recoverable signature over everything before it.
+// Decoding locally lets the client check what it is about to pay
+// without trusting the server or asking the node.
+//
+// https://github.com/lightning/bolts/blob/master/11-payment-encoding.md
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { BitcoinNetwork, DecodedInvoice } from './types';
+import { bytesToHex, bytesToUtf8, concatBytes, hexToBytes, utf8ToBytes } from './crypto';
+
+/** A decoded BOLT11 invoice. */
+export interface Bolt11Invoice extends DecodedInvoice {
+  network: BitcoinNetwork;
+  /** Exact amount in millisatoshis, undefined for amountless invoices */
+  amountMsat?: number;
+  /** SHA-256 of a long description (hex), when used instead of `description` */
+  descriptionHash?: string;
+  /** Payment secret (hex) */
+  paymentSecret?: string;
+  /** Minimum CLTV delta for the final hop */
+  minFinalCltvExpiry: number;
+}
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+// Longest prefixes first so `lnbcrt` isn't read as `lnbc`
+const NETWORK_PREFIXES: Array<[string, BitcoinNetwork]> = [
+  ['lnbcrt', 'regtest'],
+  ['lntbs', 'signet'],
+  ['lntb', 'testnet'],
+  ['lnbc', 'bitcoin'],
+];
+
+// Millisatoshis per unit of each amount multiplier
+const MULTIPLIERS: Record<string, bigint> = {
+  m: 100_000_000n,
+  u: 100_000n,
+  n: 100n,
+};
+
+const DEFAULT_EXPIRY = 3600;
+const DEFAULT_MIN_FINAL_CLTV = 18;
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= GENERATORS[i];
+    }
+  }
+  return chk;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const high = [...hrp].map((c) => c.charCodeAt(0) >> 5);
+  const low = [...hrp].map((c) => c.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+/**
+ * Split a bech32 string into its human-readable part and 5-bit words,
+ * checking the checksum. BOLT11 has no 90-character limit.
+ */
+function bech32Decode(str: string): { hrp: string; words: number[] } {
+  if (str !== str.toLowerCase() && str !== str.toUpperCase()) {
+    throw new Error('Invalid invoice: mixed case');
+  }
+  const lower = str.toLowerCase();
+  const sep = lower.lastIndexOf('1');
+  if (sep < 1 || sep + 7 > lower.length) {
+    throw new Error('Invalid invoice: missing bech32 separator');
+  }
+
+  const hrp = lower.slice(0, sep);
+  const words: number[] = [];
+  for (const c of lower.slice(sep + 1)) {
+    const word = CHARSET.indexOf(c);
+    if (word === -1) throw new Error(`Invalid invoice: bad character '${c}'`);
+    words.push(word);
+  }
+
+  if (polymod([...hrpExpand(hrp), ...words]) !== 1) {
+    throw new Error('Invalid invoice: bad checksum');
+  }
+  return { hrp, words: words.slice(0, -6) };
+}
+
+/** Regroup 5-bit words into bytes, dropping incomplete trailing bits. */
+function wordsToBytes(words: number[], pad: boolean): Uint8Array {
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const word of words) {
+    acc = (acc << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  if (pad && bits > 0) {
+    bytes.push((acc << (8 - bits)) & 0xff);
+  }
+  return new Uint8Array(bytes);
+}
+
+function wordsToInt(words: number[]): number {
+  return words.reduce((n, word) => n * 32 + word, 0);
+}
+
+function parseAmount(amount: string): number | undefined {
+  if (!amount) return undefined;
+  const match = /^([1-9]\d*|0)([munp]?)$/.exec(amount);
+  if (!match) throw new Error(`Invalid invoice amount: ${amount}`);
+
+  const value = BigInt(match[1]);
+  let msat: bigint;
+  if (match[2] === 'p') {
+    // Pico-bitcoin is a tenth of a millisatoshi
+    if (value % 10n !== 0n) throw new Error('Invalid invoice amount: sub-millisatoshi precision');
+    msat = value / 10n;
+  } else if (match[2]) {
+    msat = value * MULTIPLIERS[match[2]];
+  } else {
+    msat = value * 100_000_000_000n;
+  }
+  return Number(msat);
+}
+
+/**
+ * Public key (compressed hex) that made a 65-byte recoverable
+ * signature, or undefined if it doesn't verify. When the invoice
+ * names its payee, the signature must verify against that key.
+ */
+function signerOf(signature: Uint8Array, message: Uint8Array, payee?: string): string | undefined {
+  const compact = signature.subarray(0, 64);
+  try {
+    if (payee) {
+      const valid = secp256k1.verify(compact, message, hexToBytes(payee), { lowS: false });
+      return valid ? payee : undefined;
+    }
+    return secp256k1.Signature.fromCompact(compact)
+      .addRecoveryBit(signature[64])
+      .recoverPublicKey(message)
+      .toHex(true);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode a BOLT11 payment request and verify its signature.
+ *
+ * Throws if the invoice is malformed, the checksum or signature
+ * doesn't verify, or it has no payment hash. The payee is the `n`
+ * field when present, otherwise the key recovered from the signature.
+ *
+ * @example
+ * ```typescript
+ * const invoice = decodeBolt11('lnbc2500u1pvjluez...');
+ * invoice.amountSats;  // 250000
+ * invoice.network;     // 'bitcoin'
+ * ```
+ */
+export function decodeBolt11(paymentRequest: string): Bolt11Invoice {
+  const { hrp, words } = bech32Decode(paymentRequest.trim().replace(/^lightning:/i, ''));
+
+  const prefix = NETWORK_PREFIXES.find(([p]) => hrp.startsWith(p));
+  if (!prefix) throw new Error(`Unknown invoice network prefix: ${hrp}`);
+  const [network, amountPart] = [prefix[1], hrp.slice(prefix[0].length)];
+  const amountMsat = parseAmount(amountPart);
+
+  // Timestamp + fields + 104-word signature
+  if (words.length < 7 + 104) throw new Error('Invalid invoice: too short');
+  const signatureWords = words.slice(-104);
+  const dataWords = words.slice(0, -104);
+
+  const invoice: Partial<Bolt11Invoice> = {
+    network,
+    amountMsat,
+    amountSats: amountMsat === undefined ? undefined : Math.ceil(amountMsat / 1000),
+    timestamp: wordsToInt(dataWords.slice(0, 7)),
+    expiry: DEFAULT_EXPIRY,
+    minFinalCltvExpiry: DEFAULT_MIN_FINAL_CLTV,
+  };
+  let explicitPayee: string | undefined;
+
+  let i = 7;
+  while (i < dataWords.length) {
+    if (i + 3 > dataWords.length) throw new Error('Invalid invoice: truncated field');
+    const type = CHARSET[dataWords[i]];
+    const length = dataWords[i + 1] * 32 + dataWords[i + 2];
+    const field = dataWords.slice(i + 3, i + 3 + length);
+    if (field.length !== length) throw new Error('Invalid invoice: truncated field');
+    i += 3 + length;
+
+    // Fixed-size fields with the wrong length must be skipped, not rejected
+    switch (type) {
+      case 'p':
+        if (length === 52) invoice.paymentHash = bytesToHex(wordsToBytes(field, false));
+        break;
+      case 's':
+        if (length === 52) invoice.paymentSecret = bytesToHex(wordsToBytes(field, false));
+        break;
+      case 'h':
+        if (length === 52) invoice.descriptionHash = bytesToHex(wordsToBytes(field, false));
+        break;
+      case 'n':
+        if (length === 53) explicitPayee = bytesToHex(wordsToBytes(field, false));
+        break;
+      case 'd':
+        invoice.description = bytesToUtf8(wordsToBytes(field, false));
+        break;
+      case 'x':
+        invoice.expiry = wordsToInt(field);
+        break;
+      case 'c':
+        invoice.minFinalCltvExpiry = wordsToInt(field);
+        break;
+    }
+  }
+
+  if (!invoice.paymentHash) throw new Error('Invalid invoice: missing payment hash');
+
+  // The signature covers the hrp bytes followed by the data words as bytes
+  const signature = wordsToBytes(signatureWords, false);
+  const message = sha256(concatBytes(utf8ToBytes(hrp), wordsToBytes(dataWords, true)));
+  const payee = signerOf(signature, message, explicitPayee);
+  if (!payee) throw new Error('Invalid invoice: bad signature');
+  invoice.payee = payee;
+
+  return invoice as Bolt11Invoice;
+}
@@ -0,0 +1,152 @@
+// src/budget.ts
+// Spending budget for the L402 client
+//
+// `maxAutoPaySats` only caps a single invoice. The budget caps what
+// the client pays in total, per host and over rolling hour and day
+// windows, and applies the allow/deny host lists. Payments reserve
+// their amount before paying so concurrent requests can't both slip
+// under a cap.
+
+import { BudgetConfig, BudgetSpent } from './types';
+import { BudgetExceededError, BudgetLimit, PaymentDeniedError } from './errors';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface LedgerEntry {
+  host: string;
+  sats: number;
+  at: number;
+}
+
+/** A payment's hold on the budget while it is in flight. */
+export interface BudgetReservation {
+  /** The payment went through; add its routing fee */
+  commit(feeSats: number): void;
+  /** The payment failed; give the amount back */
+  release(): void;
+}
+
+/** Budget state for one client. */
+export interface Budget {
+  /** Throw if the host is not allowed or `amountSats` would go over a cap */
+  check(host: string, amountSats: number): void;
+  /** Check again and hold `amountSats` against every cap */
+  reserve(host: string, amountSats: number): BudgetReservation;
+  /** Most the client may still pay, to `host` if given */
+  remaining(host?: string): number;
+  spent(): BudgetSpent;
+}
+
+/**
+ * Whether `host` matches a list entry. `*.example.com` matches
+ * any subdomain of example.com, but not example.com itself.
+ */
+export function hostMatches(host: string, pattern: string): boolean {
+  const h = host.toLowerCase();
+  const p = pattern.toLowerCase();
+  if (p.startsWith('*.')) return h.endsWith(p.slice(1));
+  return h === p;
+}
+
+/**
+ * Create the budget ledger for a client. With no caps configured
+ * it only tracks spending.
+ */
+export function createBudget(config: BudgetConfig = {}): Budget {
+  for (const [name, cap] of Object.entries({
+    total: config.total,
+    perHour: config.perHour,
+    perDay: config.perDay,
+    ...(typeof config.perHost === 'number' ? { perHost: config.perHost } : config.perHost),
+  })) {
+    if (cap !== undefined && (!Number.isFinite(cap) || cap < 0)) {
+      throw new Error(`Invalid budget cap for ${name}: ${cap}. Must be a non-negative number.`);
+    }
+  }
+
+  // Lifetime totals, plus recent entries for the rolling windows
+  let totalSats = 0;
+  const byHost = new Map<string, number>();
+  let recent: LedgerEntry[] = [];
+
+  function windowSats(ms: number, now: number): number {
+    recent = recent.filter((e) => e.at > now - DAY_MS);
+    return recent.filter((e) => e.at > now - ms).reduce((sum, e) => sum + e.sats, 0);
+  }
+
+  function hostCap(host: string): number | undefined {
+    return typeof config.perHost === 'number' ? config.perHost : config.perHost?.[host];
+  }
+
+  // Remaining allowance under each configured cap
+  function allowances(host: string | undefined, now: number): Array<[BudgetLimit, number]> {
+    const limits: Array<[BudgetLimit, number]> = [];
+    if (config.total !== undefined) limits.push(['total', config.total - totalSats]);
+    if (config.perDay !== undefined) limits.push(['perDay', config.perDay - windowSats(DAY_MS, now)]);
+    if (config.perHour !== undefined) limits.push(['perHour', config.perHour - windowSats(HOUR_MS, now)]);
+    const cap = host === undefined ? undefined : hostCap(host);
+    if (cap !== undefined) limits.push(['perHost', cap - (byHost.get(host!) ?? 0)]);
+    return limits.map(([limit, left]) => [limit, Math.max(0, left)]);
+  }
+
+  function check(host: string, amountSats: number): void {
+    if (config.denyHosts?.some((p) => hostMatches(host, p))) {
+      throw new PaymentDeniedError(`L402 payments to ${host} are denied`, host);
+    }
+    if (config.allowHosts && !config.allowHosts.some((p) => hostMatches(host, p))) {
+      throw new PaymentDeniedError(`L402 payments to ${host} are not allowed`, host);
+    }
+    for (const [limit, left] of allowances(host, Date.now())) {
+      if (amountSats > left) throw new BudgetExceededError(limit, amountSats, left);
+    }
+  }
+
+  function add(entry: LedgerEntry, sats: number): void {
+    entry.sats += sats;
+    totalSats += sats;
+    byHost.set(entry.host, (byHost.get(entry.host) ?? 0) + sats);
+  }
+
+  return {
+    check,
+
+    reserve(host, amountSats) {
+      // Synchronous check-and-add, so nothing can interleave
+      check(host, amountSats);
+      const entry: LedgerEntry = { host, sats: 0, at: Date.now() };
+      recent.push(entry);
+      add(entry, amountSats);
+
+      let settled = false;
+      return {
+        commit(feeSats) {
+          if (settled) return;
+          settled = true;
+          add(entry, feeSats);
+        },
+        release() {
+          if (settled) return;
+          settled = true;
+          add(entry, -entry.sats);
+          recent = recent.filter((e) => e !== entry);
+        },
+      };
+    },
+
+    remaining(host) {
+      const left = allowances(host, Date.now()).map(([, l]) => l);
+      return left.length ? Math.min(...left) : Infinity;
+    },
+
+    spent() {
+      const now = Date.now();
+      return {
+        totalSats,
+        lastHourSats: windowSats(HOUR_MS, now),
+        lastDaySats: windowSats(DAY_MS, now),
+        byHost: Object.fromEntries(byHost),
+      };
+    },
+  };
+}
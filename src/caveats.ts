@@ -0,0 +1,248 @@
+// src/caveats.ts
+// Caveat verification for L402 macaroons
+//
+// Caveats are `condition=value` strings chained into a macaroon's
+// signature. Every caveat must hold for a request to be authorized.
+// The built-in L402 caveats are:
+//
+//   key_id=<root key id>
+//   services=<name>:<tier>[,<name>:<tier>...]
+//   <service>_capabilities=<cap>[,<cap>...]
+//   <service>_valid_until=<unix seconds>
+//   <service>_constraints=<name>:<value>[,<name>:<value>...]
+//
+// Service names are percent-encoded where they appear in a caveat
+// (see encodeServiceName), so a request path can't add fields.
+//
+// Apps can register satisfiers for their own conditions (ip=,
+// method=, user_tier=, ...). A caveat with no satisfier fails,
+// except service-scoped caveats that belong to another service.
+
+import { Caveat, CaveatContext, CaveatSatisfier } from './types';
+
+/** Result of checking a macaroon's caveats against a request. */
+export type CaveatResult =
+  | { ok: true }
+  | { ok: false; caveat: string; reason: string };
+
+const SERVICE_SCOPED = /^(.+)_(capabilities|valid_until|constraints)$/;
+
+/**
+ * Split a `condition=value` caveat string.
+ * Throws if there is no `=` or the condition is empty.
+ */
+export function parseCaveat(raw: string): Caveat {
+  const eq = raw.indexOf('=');
+  if (eq <= 0) {
+    throw new Error(`Malformed caveat: ${raw}`);
+  }
+  return {
+    condition: raw.slice(0, eq).trim(),
+    value: raw.slice(eq + 1).trim(),
+    raw,
+  };
+}
+
+/**
+ * A service name as written into caveats. `,`, `:` and `=` separate
+ * caveat fields and whitespace is trimmed, so they are percent-encoded,
+ * as is `%` itself. Names without them are written as they are.
+ */
+export function encodeServiceName(name: string): string {
+  return name.replace(/[%,:=\s]/g, (c) => encodeURIComponent(c));
+}
+
+/** A service name read back from a caveat. */
+export function decodeServiceName(encoded: string): string {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    // Not written by encodeServiceName
+    return encoded;
+  }
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function parseServices(value: string): Map<string, number> {
+  const services = new Map<string, number>();
+  for (const entry of splitList(value)) {
+    const colon = entry.lastIndexOf(':');
+    const name = colon > 0 ? entry.slice(0, colon) : entry;
+    const tier = colon > 0 ? Number(entry.slice(colon + 1)) : 0;
+    if (!name || !Number.isInteger(tier) || tier < 0) {
+      throw new Error(`Malformed services entry: ${entry}`);
+    }
+    services.set(decodeServiceName(name), tier);
+  }
+  return services;
+}
+
+function parseConstraints(value: string): Array<[string, string]> {
+  return splitList(value).map((entry) => {
+    const colon = entry.indexOf(':');
+    if (colon <= 0) throw new Error(`Malformed constraint: ${entry}`);
+    return [entry.slice(0, colon), entry.slice(colon + 1)];
+  });
+}
+
+/**
+ * `key_id=<id>` — names the root key the macaroon was signed with.
+ * The signature check already tied it to that key, so it holds by
+ * itself; later caveats may only repeat it.
+ */
+export function keyIdSatisfier(): CaveatSatisfier {
+  return {
+    condition: 'key_id',
+    satisfyPrevious: (previous, current) => current.value === previous.value,
+    satisfyFinal: () => true,
+  };
+}
+
+/**
+ * `services=name:tier,...` — the route's service must be listed,
+ * at a tier at least as high as the route requires. Later caveats
+ * may only drop services or lower tiers.
+ */
+export function servicesSatisfier(): CaveatSatisfier {
+  return {
+    condition: 'services',
+    satisfyPrevious: (previous, current) => {
+      const prev = parseServices(previous.value);
+      for (const [name, tier] of parseServices(current.value)) {
+        const prevTier = prev.get(name);
+        if (prevTier === undefined || tier > prevTier) return false;
+      }
+      return true;
+    },
+    satisfyFinal: (caveat, context) => {
+      const tier = parseServices(caveat.value).get(context.service);
+      return tier !== undefined && tier >= context.tier;
+    },
+  };
+}
+
+/**
+ * `<service>_capabilities=a,b` — every capability the route requires
+ * must be granted. Later caveats may only remove capabilities.
+ */
+export function capabilitiesSatisfier(service: string): CaveatSatisfier {
+  return {
+    condition: `${encodeServiceName(service)}_capabilities`,
+    satisfyPrevious: (previous, current) => {
+      const prev = new Set(splitList(previous.value));
+      return splitList(current.value).every((cap) => prev.has(cap));
+    },
+    satisfyFinal: (caveat, context) => {
+      const granted = new Set(splitList(caveat.value));
+      return context.capabilities.every((cap) => granted.has(cap));
+    },
+  };
+}
+
+/**
+ * `<service>_valid_until=<unix seconds>` — the token expires at that
+ * time. Later caveats may only bring the expiry forward.
+ */
+export function validUntilSatisfier(service: string): CaveatSatisfier {
+  const parse = (value: string) => {
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds)) throw new Error(`Malformed expiry: ${value}`);
+    return seconds;
+  };
+  return {
+    condition: `${encodeServiceName(service)}_valid_until`,
+    satisfyPrevious: (previous, current) =>
+      parse(current.value) <= parse(previous.value),
+    satisfyFinal: (caveat, context) => context.now < parse(caveat.value) * 1000,
+  };
+}
+
+/**
+ * `<service>_constraints=name:value,...` — each named constraint is
+ * checked by the matching function in `constraints`. Constraints
+ * nobody registered a check for fail closed.
+ */
+export function constraintsSatisfier(
+  service: string,
+  constraints: Record<string, (value: string, context: CaveatContext) => boolean>
+): CaveatSatisfier {
+  return {
+    condition: `${encodeServiceName(service)}_constraints`,
+    satisfyFinal: (caveat, context) =>
+      parseConstraints(caveat.value).every(([name, value]) => {
+        const check = constraints[name];
+        return !!check && check(value, context);
+      }),
+  };
+}
+
+/**
+ * The built-in L402 satisfiers for a service, followed by any
+ * custom ones. A custom satisfier replaces a built-in one with
+ * the same condition.
+ */
+export function defaultSatisfiers(
+  service: string,
+  constraints: Record<string, (value: string, context: CaveatContext) => boolean> = {},
+  custom: CaveatSatisfier[] = []
+): CaveatSatisfier[] {
+  const overridden = new Set(custom.map((s) => s.condition));
+  const builtins = [
+    keyIdSatisfier(),
+    servicesSatisfier(),
+    capabilitiesSatisfier(service),
+    validUntilSatisfier(service),
+    constraintsSatisfier(service, constraints),
+  ].filter((s) => !overridden.has(s.condition));
+  return [...builtins, ...custom];
+}
+
+/**
+ * Check every caveat against the request context.
+ *
+ * Each caveat is run through the satisfier registered for its
+ * condition. When a condition appears more than once, each later
+ * caveat must also pass `satisfyPrevious` against the one before
+ * it, so attenuation can only narrow access.
+ */
+export function verifyCaveats(
+  rawCaveats: string[],
+  satisfiers: CaveatSatisfier[],
+  context: CaveatContext
+): CaveatResult {
+  const byCondition = new Map(satisfiers.map((s) => [s.condition, s]));
+  const previous = new Map<string, Caveat>();
+
+  for (const raw of rawCaveats) {
+    try {
+      const caveat = parseCaveat(raw);
+      const satisfier = byCondition.get(caveat.condition);
+
+      if (!satisfier) {
+        // Scoped to some other service behind the same root key
+        const scoped = SERVICE_SCOPED.exec(caveat.condition);
+        if (scoped && scoped[1] !== context.service) continue;
+        return { ok: false, caveat: raw, reason: 'No satisfier for caveat' };
+      }
+
+      const prev = previous.get(caveat.condition);
+      if (prev && satisfier.satisfyPrevious && !satisfier.satisfyPrevious(prev, caveat, context)) {
+        return { ok: false, caveat: raw, reason: 'Caveat widens an earlier caveat' };
+      }
+      if (!satisfier.satisfyFinal(caveat, context)) {
+        return { ok: false, caveat: raw, reason: 'Caveat not satisfied' };
+      }
+      previous.set(caveat.condition, caveat);
+    } catch {
+      return { ok: false, caveat: raw, reason: 'Malformed caveat' };
+    }
+  }
+
+  return { ok: true };
+}
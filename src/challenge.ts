@@ -0,0 +1,151 @@
+// src/challenge.ts
+// WWW-Authenticate parsing for L402 and LSAT challenges
+//
+// A 402 response carries its challenge in a header like:
+//
+//   WWW-Authenticate: L402 macaroon="AgEEbHNhdAJC...", invoice="lnbc100n1..."
+//
+// The header can hold several challenges separated by commas
+// (`Bearer realm="x", LSAT macaroon="...", invoice="..."`), and
+// parameter values may be tokens or quoted strings with `\` escapes
+// (RFC 7235 §4.1). Older servers use the LSAT scheme name.
+
+import { ChallengeParseError } from './errors';
+
+/** One challenge from a WWW-Authenticate header. */
+export interface AuthChallenge {
+  /** Scheme as sent, e.g. `L402`, `LSAT`, `Bearer` */
+  scheme: string;
+  /** Parameters, with lowercased names */
+  params: Record<string, string>;
+  /** Bare token68 credential, for schemes that use one instead of params */
+  token68?: string;
+}
+
+/** The macaroon and invoice from an L402 or LSAT challenge. */
+export interface L402HeaderChallenge {
+  scheme: 'L402' | 'LSAT';
+  macaroon: string;
+  invoice: string;
+  params: Record<string, string>;
+}
+
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+/;
+const TOKEN68 = /^[A-Za-z0-9\-._~+/]+=*/;
+// Unquoted values should be tokens, but servers send bare base64 too
+const BARE_VALUE = /^[!#$%&'*+\-.^_`|~0-9A-Za-z/=]+/;
+
+/**
+ * Split a WWW-Authenticate header into its challenges.
+ * Throws ChallengeParseError on malformed input.
+ */
+export function parseAuthenticateHeader(header: string): AuthChallenge[] {
+  const challenges: AuthChallenge[] = [];
+  let rest = header;
+  let current: AuthChallenge | undefined;
+  // Set right after a scheme, when its first param follows without a comma
+  let schemeOnly = false;
+
+  const skipSpace = () => {
+    rest = rest.replace(/^[ \t]+/, '');
+  };
+  const fail = (reason: string): never => {
+    throw new ChallengeParseError(`Malformed WWW-Authenticate header: ${reason}`, header);
+  };
+
+  // Read a quoted-string, unescaping `\x` pairs
+  const readQuoted = (): string => {
+    let value = '';
+    for (let i = 1; i < rest.length; i++) {
+      const c = rest[i];
+      if (c === '\\') {
+        if (i + 1 >= rest.length) break;
+        value += rest[++i];
+      } else if (c === '"') {
+        rest = rest.slice(i + 1);
+        return value;
+      } else {
+        value += c;
+      }
+    }
+    return fail('unterminated quoted string');
+  };
+
+  while (true) {
+    // Empty list elements are allowed: `a, , b`
+    rest = rest.replace(/^[ \t,]+/, '');
+    if (!rest) break;
+
+    const token = TOKEN.exec(rest)?.[0];
+    if (!token) fail(`unexpected character '${rest[0]}'`);
+    const afterToken = rest.slice(token!.length).replace(/^[ \t]+/, '');
+
+    const isParam = afterToken.startsWith('=') && !/^=+[ \t]*(,|$)/.test(afterToken);
+    if (schemeOnly && !isParam) fail(`expected a parameter before '${rest.slice(0, 10)}'`);
+    schemeOnly = false;
+
+    if (current && isParam) {
+      // name=value parameter of the current challenge
+      rest = afterToken.slice(1);
+      skipSpace();
+      let value: string;
+      if (rest.startsWith('"')) {
+        value = readQuoted();
+      } else {
+        value = BARE_VALUE.exec(rest)?.[0] ?? fail(`missing value for ${token}`);
+        rest = rest.slice(value.length);
+      }
+      current.params[token!.toLowerCase()] = value;
+    } else {
+      // A new challenge: scheme, then a token68 or params
+      current = { scheme: token!, params: {} };
+      challenges.push(current);
+      rest = afterToken;
+
+      // `name=value` never looks like a lone token68 followed by ',' or the end
+      const token68 = TOKEN68.exec(rest)?.[0];
+      if (token68 && /^[ \t]*(,|$)/.test(rest.slice(token68.length))) {
+        current.token68 = token68;
+        rest = rest.slice(token68.length);
+      } else if (rest && !rest.startsWith(',')) {
+        schemeOnly = true;
+        continue;
+      }
+    }
+
+    skipSpace();
+    if (rest && !rest.startsWith(',')) fail(`expected ',' before '${rest.slice(0, 10)}'`);
+  }
+
+  return challenges;
+}
+
+/**
+ * Find the L402 challenge in a WWW-Authenticate header, falling back
+ * to a legacy LSAT one. Throws ChallengeParseError if the header is
+ * malformed or has no usable challenge.
+ */
+export function parseL402Challenge(header: string): L402HeaderChallenge {
+  const challenges = parseAuthenticateHeader(header);
+  const found =
+    challenges.find((c) => c.scheme.toUpperCase() === 'L402') ??
+    challenges.find((c) => c.scheme.toUpperCase() === 'LSAT');
+  if (!found) {
+    throw new ChallengeParseError('No L402 or LSAT challenge in WWW-Authenticate header', header);
+  }
+
+  const { macaroon, invoice } = found.params;
+  if (!macaroon || !invoice) {
+    throw new ChallengeParseError(
+      `${found.scheme} challenge is missing ${!macaroon ? 'macaroon' : 'invoice'}`,
+      header
+    );
+  }
+
+  return {
+    scheme: found.scheme.toUpperCase() as 'L402' | 'LSAT',
+    macaroon,
+    invoice,
+    params: found.params,
+  };
+}
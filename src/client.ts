@@ -8,44 +8,141 @@
 //   const data = await client.fetch('https://api.example.com/data');
 //   // That's it. If the server returns 402, the client pays and retries.
 
-import { L402ClientConfig, L402Challenge, LndPaymentResponse } from './types';
-import { lndFetch } from './lnd-fetch';
+import crypto from 'crypto';
+import { L402ClientConfig, L402Challenge, PaymentResult, StoredToken } from './types';
+import { resolveBackend } from './backends';
+import { decodeIdentifier, deserializeMacaroon, getCaveats, Macaroon } from './macaroon';
+import { Bolt11Invoice, decodeBolt11 } from './bolt11';
+import { BudgetReservation, createBudget } from './budget';
+import { createMemoryTokenStore } from './stores';
+import { parseL402Challenge } from './challenge';
+import {
+  caveatServices,
+  scopeCandidates,
+  scopeFromCaveats,
+  scopeFromHint,
+  serviceScope,
+} from './scope';
+import {
+  ChallengeParseError,
+  PaymentDeniedError,
+  PaymentError,
+  PaymentInFlightError,
+} from './errors';
 
 interface L402FetchResult<T = any> {
   data: T;
   paid: boolean;
   price?: number;
   preimage?: string;
+  /** Routing fees paid, in sats */
+  feeSats?: number;
+}
+
+interface L402RawFetchResult {
+  /** The final response, body unread */
+  response: Response;
+  /** Whether this call paid an invoice */
+  paid: boolean;
+  /** Sats paid for the token, without fees */
+  price?: number;
+  preimage?: string;
+  paymentHash?: string;
+  /** Routing fees paid, in sats */
+  feeSats?: number;
+}
+
+/** A payment that failed midway, kept until we learn how it ended. */
+interface PendingPayment {
+  paymentHash: string;
+  /** The token to store if the payment went through */
+  token: Omit<StoredToken, 'preimage'>;
+  /** The amount held against the budget meanwhile */
+  reservation: BudgetReservation;
+}
+
+/** Response header an escrow route sends the preimage in. */
+const ESCROW_PREIMAGE_HEADER = 'l402-preimage';
+
+/** SHA-256 of a hex preimage, as hex. Must equal the payment hash. */
+function hashPreimage(preimageHex: string): string {
+  return crypto.createHash('sha256').update(Buffer.from(preimageHex, 'hex')).digest('hex');
 }
 
 /**
- * Pay a Lightning invoice via the LND REST API.
- * Returns the preimage as proof of payment.
+ * Earliest `*_valid_until` caveat on a macaroon, in ms since epoch.
+ * Returns undefined if the macaroon never expires.
  */
-async function payInvoice(
-  restHost: string,
-  macaroon: string,
-  paymentRequest: string,
-  skipTlsVerify?: boolean
-): Promise<LndPaymentResponse> {
-  const res = await lndFetch(
-    `${restHost}/v1/channels/transactions`,
-    {
-      method: 'POST',
-      headers: {
-        'Grpc-Metadata-macaroon': macaroon,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ payment_request: paymentRequest }),
-    },
-    skipTlsVerify
-  );
+function macaroonExpiry(macaroon: Macaroon): number | undefined {
+  let expiresAt: number | undefined;
+  for (const caveat of getCaveats(macaroon)) {
+    const match = /^[^=]+_valid_until=(\d+)$/.exec(caveat);
+    if (match) {
+      const ms = Number(match[1]) * 1000;
+      expiresAt = expiresAt === undefined ? ms : Math.min(expiresAt, ms);
+    }
+  }
+  return expiresAt;
+}
+
+/**
+ * Let go of a response we won't read, so its connection can be reused.
+ */
+async function discardBody(res: Response): Promise<void> {
+  await res.body?.cancel();
+}
+
+/**
+ * Read the challenge from a 402 response. The WWW-Authenticate header
+ * is preferred, since many servers send HTML or nothing in the body;
+ * a JSON body fills in the rest or stands in for a missing header.
+ * Also returns the scheme to answer with, `L402` or legacy `LSAT`,
+ * and the server's scope hint, if it sent one.
+ */
+async function readChallenge(
+  res: Response
+): Promise<{ challenge: L402Challenge; scheme: 'L402' | 'LSAT'; scope?: string }> {
+  const header = res.headers?.get('www-authenticate') ?? undefined;
+
+  let body: Partial<L402Challenge> | undefined;
+  try {
+    body = (await res.json()) as Partial<L402Challenge>;
+  } catch {
+    // Not JSON
+  }
 
-  if (!res.ok) {
-    throw new Error(`LND payment failed: ${res.status} ${res.statusText}`);
+  const bodyScope = typeof body?.scope === 'string' ? body.scope : undefined;
+  const bodyEscrow = body?.escrow === true;
+
+  let headerError: ChallengeParseError | undefined;
+  if (header) {
+    try {
+      const { scheme, macaroon, invoice, params } = parseL402Challenge(header);
+      return {
+        scheme,
+        scope: params.scope ?? bodyScope,
+        challenge: {
+          code: 402,
+          message: body?.message ?? 'Payment Required',
+          price: body?.price ?? 0,
+          description: body?.description ?? '',
+          macaroon,
+          invoice,
+          ...((params.escrow === 'true' || bodyEscrow) && { escrow: true }),
+        },
+      };
+    } catch (err) {
+      headerError = err as ChallengeParseError;
+    }
   }
 
-  return res.json() as Promise<LndPaymentResponse>;
+  if (typeof body?.macaroon === 'string' && typeof body.invoice === 'string') {
+    return { scheme: 'L402', challenge: body as L402Challenge, scope: bodyScope };
+  }
+  throw (
+    headerError ??
+    new ChallengeParseError('402 response has no L402 challenge in its header or body', header)
+  );
 }
 
 /**
@@ -54,10 +151,14 @@ async function payInvoice(
  * Returns an object with a `fetch` method that works like regular fetch,
  * but automatically handles L402 payment challenges:
  *
- *   1. Makes the request
- *   2. If server returns 402, extracts the invoice and macaroon
- *   3. Pays the Lightning invoice through your LND node
- *   4. Retries the request with the L402 authorization header
+ *   1. Makes the request, with the best matching stored token
+ *   2. If server returns 402, extracts the invoice and macaroon,
+ *      checks the macaroon is a well-formed L402 macaroon, and
+ *      decodes the invoice to check its amount, hash, expiry and network
+ *   3. Checks the spending budget, then pays the Lightning invoice
+ *      through your LND node (or other backend)
+ *   4. Stores the token under the scope it covers and retries
+ *      the request with the L402 authorization header
  *   5. Returns the final response
  *
  * @example
@@ -66,7 +167,7 @@ async function payInvoice(
  *   node: {
  *     restHost: 'https://127.0.0.1:8081',
  *     macaroon: '0201036c6e64...',
- *     skipTlsVerify: true,
+ *     tlsCert: './tls.cert',
  *   },
  *   maxAutoPaySats: 1000, // safety limit
  * });
@@ -80,96 +181,368 @@ async function payInvoice(
  * ```
  */
 export function createL402Client(config: L402ClientConfig) {
-  const { node, maxAutoPaySats = 10000 } = config;
+  const { node, maxAutoPaySats = 10000, network = 'bitcoin' } = config;
+  const backend = resolveBackend(node);
+  const budget = createBudget(config.budget);
 
-  // Cache tokens: URL -> L402 authorization header
-  // Reuse tokens for subsequent requests to the same endpoint
-  const tokenCache = new Map<string, string>();
+  // Paid tokens, keyed by the scope they cover (see scope.ts), reused for
+  // every later request in that scope. The store drops expired tokens,
+  // which would only earn a fresh 402.
+  const tokenStore = config.tokenStore ?? createMemoryTokenStore();
 
-  async function l402Fetch<T = any>(
+  // Paths found to belong to a named service, mapped to that service's
+  // scope, so their requests carry its token from the start
+  const serviceRoutes = new Map<string, string>();
+
+  // Payments in flight, by the scope of the token they buy
+  const purchases = new Map<string, Promise<StoredToken>>();
+
+  // Payments whose outcome is not known yet, by scope. Noted before
+  // paying, so an error midway never leads to paying twice.
+  const pendingPayments = new Map<string, PendingPayment>();
+
+  // Ask the backend how a payment ended: its result if it went
+  // through, undefined if it didn't, or 'unknown' if it can't tell
+  async function recoverPayment(paymentHash: string): Promise<PaymentResult | undefined | 'unknown'> {
+    if (!backend.lookupPayment) return 'unknown';
+    let status;
+    try {
+      status = await backend.lookupPayment(paymentHash);
+    } catch {
+      return 'unknown';
+    }
+    if (!status || status.state === 'FAILED') return undefined;
+    if (status.state === 'SUCCEEDED' && status.preimage) {
+      return { preimage: status.preimage, feeSats: status.feeSats ?? 0 };
+    }
+    return 'unknown';
+  }
+
+  function inFlight(paymentHash: string): PaymentInFlightError {
+    return new PaymentInFlightError(
+      `L402 payment ${paymentHash} failed midway and may still go through. ` +
+        `Retry later; it won't be paid twice.`,
+      paymentHash
+    );
+  }
+
+  // The most specific stored token that covers `target`
+  async function findToken(target: URL): Promise<StoredToken | undefined> {
+    const route = serviceRoutes.get(target.origin + target.pathname);
+    for (const scope of route ? [route, ...scopeCandidates(target)] : scopeCandidates(target)) {
+      const token = await tokenStore.get(scope);
+      if (token) return token;
+    }
+    return undefined;
+  }
+
+  // Drop a token the server turned down, unless it was already replaced
+  async function forgetToken(token: StoredToken): Promise<void> {
+    const current = await tokenStore.get(token.scope);
+    if (current?.macaroon === token.macaroon) await tokenStore.delete(token.scope);
+    for (const [path, scope] of serviceRoutes) {
+      if (scope === token.scope) serviceRoutes.delete(path);
+    }
+  }
+
+  // Check the invoice itself, not the price the server claims in the
+  // body, and return the amount to pay
+  function checkInvoice(paymentRequest: string, paymentHash: string): number {
+    let invoice: Bolt11Invoice;
+    try {
+      invoice = decodeBolt11(paymentRequest);
+    } catch (err: any) {
+      throw new Error(`Server returned an invalid L402 invoice: ${err.message}`);
+    }
+    if (invoice.network !== network) {
+      throw new Error(`L402 invoice is for ${invoice.network}, but the client is set to ${network}`);
+    }
+    if (invoice.paymentHash !== paymentHash) {
+      throw new Error('L402 invoice payment hash does not match the macaroon');
+    }
+    if ((invoice.timestamp + invoice.expiry) * 1000 <= Date.now()) {
+      throw new Error('L402 invoice has expired');
+    }
+    if (invoice.amountSats === undefined) {
+      throw new Error('L402 invoice has no amount. Refusing to auto-pay an open amount.');
+    }
+
+    // Safety check: don't auto-pay more than the configured limit
+    const price = invoice.amountSats;
+    if (price > maxAutoPaySats) {
+      throw new Error(
+        `L402 price (${price} sats) exceeds maxAutoPaySats (${maxAutoPaySats}). ` +
+          `Increase the limit or pay manually.`
+      );
+    }
+    return price;
+  }
+
+  // Host policy and spending caps, then the approval hook. Returns
+  // the host the payment counts against.
+  async function approvePayment(
+    url: string,
+    challenge: L402Challenge,
+    price: number,
+    paymentHash: string
+  ): Promise<string> {
+    const host = new URL(url).hostname;
+    budget.check(host, price);
+    if (config.budget?.approve) {
+      // Show the hook the price actually being paid, not the claimed one
+      const approved = await config.budget.approve({ ...challenge, price }, {
+        url,
+        host,
+        amountSats: price,
+        paymentHash,
+        remainingSats: budget.remaining(host),
+        spent: budget.spent(),
+      });
+      if (!approved) {
+        throw new PaymentDeniedError(`L402 payment to ${host} was not approved`, host);
+      }
+    }
+    return host;
+  }
+
+  async function l402FetchRaw(
     url: string,
     options: RequestInit = {}
-  ): Promise<L402FetchResult<T>> {
+  ): Promise<L402RawFetchResult> {
+    const target = new URL(url);
     const headers: Record<string, string> = {
       ...(options.headers as Record<string, string>),
     };
+    const send = (token?: StoredToken) =>
+      fetch(url, {
+        ...options,
+        headers: token
+          ? { ...headers, Authorization: `${token.scheme} ${token.macaroon}:${token.preimage}` }
+          : headers,
+      });
 
-    // Check if we have a cached token for this URL
-    const cachedToken = tokenCache.get(url);
-    if (cachedToken) {
-      headers['Authorization'] = cachedToken;
-    }
+    // Make the request, with a stored token if one covers this URL
+    const stored = await findToken(target);
+    let res = await send(stored);
 
-    // Make the request
-    const res = await fetch(url, { ...options, headers });
+    // A dead token: forget it and get a fresh challenge instead
+    const rejected = (status: number) => status === 401 || status === 402;
+    if (stored && rejected(res.status)) {
+      await forgetToken(stored);
+      if (res.status === 401) {
+        await discardBody(res);
+        res = await send();
+      }
+    }
 
     // Not a 402 — return normally
     if (res.status !== 402) {
-      const data = await res.json() as T;
-      return { data, paid: false };
+      return { response: res, paid: false };
     }
 
     // --- Handle 402 Payment Required ---
-    const challenge = (await res.json()) as L402Challenge;
+    const { challenge, scheme, scope: scopeHint } = await readChallenge(res);
 
-    // Safety check: don't auto-pay more than the configured limit
-    if (challenge.price > maxAutoPaySats) {
-      throw new Error(
-        `L402 price (${challenge.price} sats) exceeds maxAutoPaySats (${maxAutoPaySats}). ` +
-          `Increase the limit or pay manually.`
-      );
+    // Make sure we were handed a real L402 macaroon before paying for it
+    let macaroon: Macaroon;
+    let paymentHash: string;
+    try {
+      macaroon = deserializeMacaroon(challenge.macaroon);
+      paymentHash = decodeIdentifier(macaroon.identifier).paymentHash;
+    } catch (err: any) {
+      throw new Error(`Server returned an invalid L402 macaroon: ${err.message}`);
     }
+    const caveats = getCaveats(macaroon);
 
-    // Pay the Lightning invoice
-    const payment = await payInvoice(
-      node.restHost,
-      node.macaroon,
-      challenge.invoice,
-      node.skipTlsVerify
-    );
+    // Escrow routes hold the payment until their handler has run: show
+    // the macaroon alone while paying. The server settles the payment
+    // if the handler succeeds and fails it back otherwise.
+    if (challenge.escrow) {
+      const price = checkInvoice(challenge.invoice, paymentHash);
+      const host = await approvePayment(url, challenge, price, paymentHash);
+      const reservation = budget.reserve(host, price);
+      const paying = backend.payInvoice(challenge.invoice, config.payment).catch(() => undefined);
 
-    if (payment.payment_error) {
-      throw new Error(`Lightning payment failed: ${payment.payment_error}`);
+      let response: Response | undefined;
+      let requestError: unknown;
+      try {
+        response = await fetch(url, {
+          ...options,
+          headers: { ...headers, Authorization: `${scheme} ${challenge.macaroon}` },
+        });
+      } catch (err) {
+        requestError = err;
+      }
+
+      // Wait to see which way the server went. A 2xx carries the
+      // preimage, in case our node's answer was lost on the way.
+      const payment = await paying;
+      const sent = response?.ok ? response.headers?.get(ESCROW_PREIMAGE_HEADER) : undefined;
+      const preimage = payment?.preimage ?? sent ?? undefined;
+      const paid = preimage !== undefined && hashPreimage(preimage) === paymentHash;
+      if (paid) reservation.commit(payment?.feeSats ?? 0);
+      else reservation.release();
+
+      if (!response) throw requestError;
+      return paid
+        ? { response, paid, price, preimage, paymentHash, feeSats: payment?.feeSats ?? 0 }
+        : { response, paid };
+    }
+
+    // A token already paid for the same service may cover this path too
+    const routeKey = target.origin + target.pathname;
+    for (const service of caveatServices(caveats)) {
+      if (service === target.pathname) continue;
+      const held = await tokenStore.get(serviceScope(target, service));
+      if (!held || held.macaroon === stored?.macaroon) continue;
+
+      const retried = await send(held);
+      if (!rejected(retried.status)) {
+        serviceRoutes.set(routeKey, held.scope);
+        return { response: retried, paid: false };
+      }
+      await discardBody(retried);
+      await forgetToken(held);
+      break;
     }
 
-    // Convert preimage from base64 to hex
-    const preimageHex = Buffer.from(
-      payment.payment_preimage,
-      'base64'
-    ).toString('hex');
+    // Store the token under the scope it covers: the server's hint,
+    // else its services caveat, else just this path
+    const scope =
+      (scopeHint === undefined ? undefined : scopeFromHint(scopeHint, target)) ??
+      scopeFromCaveats(caveats, target) ??
+      routeKey;
+
+    let feeSats: number | undefined;
+    const buyToken = async (): Promise<StoredToken> => {
+      // A request that started earlier may have bought one meanwhile
+      const current = await tokenStore.get(scope);
+      if (current && current.macaroon !== stored?.macaroon) return current;
 
-    // Build the L402 authorization token
-    const l402Token = `L402 ${challenge.macaroon}:${preimageHex}`;
+      // An earlier payment for this scope failed midway; it may have gone through
+      const pending = pendingPayments.get(scope);
+      if (pending) {
+        const outcome = await recoverPayment(pending.paymentHash);
+        if (outcome === 'unknown') throw inFlight(pending.paymentHash);
+        pendingPayments.delete(scope);
+        if (outcome && hashPreimage(outcome.preimage) === pending.paymentHash) {
+          pending.reservation.commit(outcome.feeSats);
+          const token: StoredToken = { ...pending.token, preimage: outcome.preimage };
+          await tokenStore.set(token);
+          return token;
+        }
+        pending.reservation.release();
+      }
+
+      const price = checkInvoice(challenge.invoice, paymentHash);
+      const host = await approvePayment(url, challenge, price, paymentHash);
+
+      // Pay the Lightning invoice, holding the amount against the budget
+      const reservation = budget.reserve(host, price);
+      const unpaidToken = {
+        scope,
+        scheme,
+        macaroon: challenge.macaroon,
+        price,
+        issuedAt: Date.now(),
+        expiresAt: macaroonExpiry(macaroon),
+      };
+      pendingPayments.set(scope, { paymentHash, token: unpaidToken, reservation });
+      let payment: PaymentResult;
+      try {
+        payment = await backend.payInvoice(challenge.invoice, config.payment);
+      } catch (err) {
+        // The payment may have gone through anyway, e.g. if the connection
+        // dropped. A definite failure is trusted if the lookup can't tell.
+        const outcome = await recoverPayment(paymentHash);
+        const definite =
+          !backend.lookupPayment || (err instanceof PaymentError && err.code !== 'IN_FLIGHT');
+        if (outcome === 'unknown' && !definite) throw inFlight(paymentHash);
+        if (outcome === undefined || outcome === 'unknown') {
+          pendingPayments.delete(scope);
+          reservation.release();
+          throw err;
+        }
+        payment = outcome;
+      }
+      pendingPayments.delete(scope);
+      reservation.commit(payment.feeSats);
+      feeSats = payment.feeSats;
+      const preimageHex = payment.preimage;
+
+      // The preimage must unlock the macaroon we were given,
+      // otherwise the token we'd build is worthless
+      if (hashPreimage(preimageHex) !== paymentHash) {
+        throw new Error('Payment preimage does not match the macaroon payment hash');
+      }
+
+      const token: StoredToken = { ...unpaidToken, preimage: preimageHex };
+      await tokenStore.set(token);
+      return token;
+    };
 
-    // Cache it for future requests to this URL
-    tokenCache.set(url, l402Token);
+    // Concurrent requests for the same scope share one payment,
+    // and its failure
+    let purchase = purchases.get(scope);
+    const shared = purchase !== undefined;
+    if (!purchase) {
+      purchase = buyToken().finally(() => purchases.delete(scope));
+      purchases.set(scope, purchase);
+    }
+    const token = await purchase;
+    if (scope.startsWith(`${target.origin}#`)) serviceRoutes.set(routeKey, scope);
 
-    // Retry the request with authorization
-    const authedRes = await fetch(url, {
-      ...options,
-      headers: {
-        ...headers,
-        Authorization: l402Token,
-      },
-    });
+    // Retry the request with authorization, under the scheme the server asked for
+    const authedRes = await send(token);
 
-    const data = (await authedRes.json()) as T;
+    if (token.macaroon !== challenge.macaroon) {
+      // Someone else's token was turned down, e.g. a single-use one
+      // already spent by the request that paid; go around again
+      if (shared && rejected(authedRes.status)) {
+        await discardBody(authedRes);
+        return l402FetchRaw(url, options);
+      }
+      return { response: authedRes, paid: false };
+    }
 
     return {
-      data,
+      response: authedRes,
       paid: true,
-      price: challenge.price,
-      preimage: preimageHex,
+      price: token.price,
+      preimage: token.preimage,
+      paymentHash,
+      feeSats,
     };
   }
 
+  async function l402Fetch<T = any>(
+    url: string,
+    options: RequestInit = {}
+  ): Promise<L402FetchResult<T>> {
+    const { response, paid, price, preimage, feeSats } = await l402FetchRaw(url, options);
+    const data = (await response.json()) as T;
+    return paid ? { data, paid, price, preimage, feeSats } : { data, paid };
+  }
+
   return {
     fetch: l402Fetch,
 
-    /** Clear cached L402 tokens */
-    clearCache: () => tokenCache.clear(),
+    /**
+     * Like `fetch`, but returns the final Response unread, for binary,
+     * text, streamed or empty bodies, along with what was paid
+     */
+    fetchRaw: l402FetchRaw,
+
+    /** Clear stored L402 tokens */
+    clearCache: () => tokenStore.clear(),
+
+    /** Check how many unexpired tokens are stored */
+    cacheSize: () => tokenStore.size(),
+
+    /** Sats paid so far, including routing fees */
+    spent: () => budget.spent(),
 
-    /** Check how many tokens are cached */
-    cacheSize: () => tokenCache.size,
+    /** Most the client may still pay under its budget, to `host` if given */
+    budgetRemaining: (host?: string) => budget.remaining(host),
   };
 }
@@ -0,0 +1,726 @@
+// src/core.ts
+// Framework-agnostic L402 core
+//
+// Everything a paywalled route decides — verifying tokens, checking
+// caveats, counting uses, issuing challenges — without touching a
+// framework's request or response. The Express middleware and the
+// adapters in src/adapters/ describe their request as an
+// L402HttpRequest and turn the outcome back into a response.
+//
+// Usage:
+//   const paywall = createL402Core({ node, rootKey, price: 100 });
+//   const outcome = await paywall.handle({ method, path, headers, ip });
+//   if (outcome.type === 'challenge') {
+//     // send outcome.status, outcome.headers and outcome.body
+//   }
+
+import {
+  CaveatContext,
+  CreatedInvoice,
+  InvoiceState,
+  InvoiceStatus,
+  IssuedChallenge,
+  L402Config,
+  L402EscrowHold,
+  L402HttpRequest,
+  L402Outcome,
+  L402Proof,
+  RootKey,
+} from './types';
+import { defaultSatisfiers, encodeServiceName, verifyCaveats } from './caveats';
+import {
+  createMemoryChallengeStore,
+  createMemorySpentTokenStore,
+  createMemoryUsageStore,
+} from './stores';
+import { resolveRestBackend } from './backends/resolve';
+import { decodeBolt11 } from './bolt11';
+import { bytesToHex, hexToBytes, hmacSha256, randomBytes, sha256 } from './crypto';
+import {
+  addFirstPartyCaveat,
+  decodeIdentifier,
+  deserializeMacaroon,
+  getCaveats,
+  mintMacaroon,
+  newIdentifier,
+  serializeMacaroon,
+  verifyMacaroon,
+} from './macaroon';
+
+/** Location written into every macaroon we mint. */
+const MACAROON_LOCATION = 'l402';
+
+/** Most settled invoices kept in memory for `verifyWithNode`. */
+const SETTLED_INVOICE_CACHE_SIZE = 10_000;
+
+/** Invoice lifetime assumed when an invoice can't be decoded (LND's default). */
+const DEFAULT_INVOICE_EXPIRY = 3600;
+
+/** Response header carrying the preimage of a settled escrow payment. */
+const ESCROW_PREIMAGE_HEADER = 'L402-Preimage';
+
+/** How often to ask the node whether an escrow payment has arrived. */
+const ESCROW_POLL_INTERVAL_MS = 250;
+
+/** Caveat naming the root key a macaroon was signed with. */
+const KEY_ID_CAVEAT = 'key_id';
+
+interface ServiceMacaroonData {
+  paymentHash: string;
+  tokenId: string;
+  caveats: string[];
+  /** The root key that signed the macaroon */
+  key: RootKey;
+}
+
+/**
+ * Normalize the configured root key(s) into a keyring.
+ * The first key signs new macaroons; all of them may verify.
+ */
+function toKeyring(rootKey: L402Config['rootKey']): RootKey[] {
+  const keys =
+    typeof rootKey === 'string'
+      ? [{ id: '0', key: rootKey }]
+      : Array.isArray(rootKey)
+        ? rootKey
+        : [rootKey];
+
+  if (keys.length === 0 || keys.some((k) => !k || !k.key)) {
+    throw new Error('L402 rootKey is required and must not be empty.');
+  }
+  const ids = keys.map((k) => k.id);
+  if (ids.some((id) => !id) || new Set(ids).size !== ids.length) {
+    throw new Error('Each L402 rootKey needs its own non-empty id.');
+  }
+  return keys;
+}
+
+/**
+ * Create a service macaroon that embeds the payment hash.
+ * This ties the macaroon to a specific Lightning invoice.
+ *
+ * In the L402 spec, macaroons are the authentication token.
+ * The payment hash inside links it to the Lightning payment.
+ * When the client pays and gets the preimage, they can prove
+ * payment by showing that sha256(preimage) === paymentHash.
+ *
+ * The macaroon is signed with the server's root key, so a client
+ * can't mint its own around a preimage it already knows. Its first
+ * caveat names that key, so it can be found again after rotation.
+ */
+async function createServiceMacaroon(
+  paymentHash: string,
+  caveats: string[],
+  signingKey: RootKey,
+  tokenId?: string
+): Promise<string> {
+  let macaroon = await mintMacaroon({
+    rootKey: signingKey.key,
+    identifier: newIdentifier(paymentHash, tokenId),
+    location: MACAROON_LOCATION,
+  });
+  for (const caveat of [`${KEY_ID_CAVEAT}=${signingKey.id}`, ...caveats]) {
+    macaroon = await addFirstPartyCaveat(macaroon, caveat);
+  }
+  return serializeMacaroon(macaroon);
+}
+
+/**
+ * Parse a base64-encoded service macaroon back into data.
+ * Returns null unless the signature verifies against the key
+ * its `key_id` caveat names, and that key is in the keyring
+ * and has not yet expired.
+ */
+async function parseServiceMacaroon(
+  macaroonBase64: string,
+  keyring: RootKey[]
+): Promise<ServiceMacaroonData | null> {
+  try {
+    const macaroon = deserializeMacaroon(macaroonBase64);
+    const { paymentHash, tokenId } = decodeIdentifier(macaroon.identifier);
+
+    const caveats = getCaveats(macaroon);
+
+    // Later key_id caveats can't differ from the first (see keyIdSatisfier)
+    const keyId = caveats
+      .find((c) => c.startsWith(`${KEY_ID_CAVEAT}=`))
+      ?.slice(KEY_ID_CAVEAT.length + 1);
+    const key = keyring.find((k) => k.id === keyId);
+    if (!key || (key.expiresAt !== undefined && key.expiresAt <= Date.now())) return null;
+    if (!(await verifyMacaroon(macaroon, key.key))) return null;
+
+    return { paymentHash, tokenId, caveats, key };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When an invoice we issued expires (ms since epoch). Backends don't
+ * report it, so it is read from the invoice itself.
+ */
+function invoiceExpiresAt(paymentRequest: string): number {
+  try {
+    const { timestamp, expiry } = decodeBolt11(paymentRequest);
+    return (timestamp + expiry) * 1000;
+  } catch {
+    return Date.now() + DEFAULT_INVOICE_EXPIRY * 1000;
+  }
+}
+
+/**
+ * Verify that a preimage hashes to the expected payment hash.
+ * This is the core cryptographic check of the L402 protocol.
+ *
+ * The Lightning Network works on hash-timelock contracts:
+ *   payment_hash = sha256(preimage)
+ *
+ * Only someone who paid the invoice can know the preimage,
+ * so if sha256(preimage) === payment_hash, payment is proven.
+ * No database lookup needed. Pure math.
+ */
+async function verifyPreimage(preimage: string, paymentHash: string): Promise<boolean> {
+  return /^[0-9a-fA-F]{64}$/.test(preimage) && (await hashPreimage(preimage)) === paymentHash;
+}
+
+/** SHA-256 of a hex preimage, as hex. */
+async function hashPreimage(preimage: string): Promise<string> {
+  return bytesToHex(await sha256(hexToBytes(preimage)));
+}
+
+/**
+ * Preimage of an escrow invoice. It is derived from the root key and
+ * the macaroon's token id, so the invoice can be settled later
+ * without storing anything.
+ */
+async function escrowPreimage(key: string, tokenId: string): Promise<string> {
+  return bytesToHex(await hmacSha256(key, `l402-escrow:${tokenId}`));
+}
+
+/**
+ * The escrow preimage behind a macaroon's payment hash, worked out
+ * with the key that issued it. Undefined for a macaroon that wasn't
+ * issued for escrow.
+ */
+async function findEscrowPreimage(macaroonData: ServiceMacaroonData): Promise<string | undefined> {
+  const preimage = await escrowPreimage(macaroonData.key.key, macaroonData.tokenId);
+  return (await hashPreimage(preimage)) === macaroonData.paymentHash ? preimage : undefined;
+}
+
+/** A response the core asks the adapter to send. */
+function respond(
+  status: number,
+  body: unknown,
+  headers: Record<string, string | string[]> = {}
+): L402Outcome {
+  return { type: 'challenge', status, headers, body };
+}
+
+/** The response when a store or the node fails. */
+function gatewayError(): L402Outcome {
+  return respond(500, { error: 'Payment gateway error' });
+}
+
+/**
+ * Create the framework-agnostic L402 core for a route.
+ *
+ * `handle` looks at a request and either authorizes it, with proof of
+ * payment, or returns the response to send instead: a 402 challenge,
+ * or a 401, 429 or 500. `context` is passed to `priceFn`, `caveats`
+ * and `issuance.clientKey`; adapters pass their framework's request
+ * object, and it defaults to the request itself.
+ *
+ * Configuration errors (bad limits, a backend without hold invoices
+ * for `escrow`) throw here, when the route is set up.
+ */
+export function createL402Core<TContext = L402HttpRequest>(config: L402Config<TContext>) {
+  const { node, price, description, priceFn } = config;
+  const { tier = 0, capabilities = [], constraints, satisfiers, validFor } = config;
+  const { maxUses, usageStore = createMemoryUsageStore() } = config;
+  const { singleUse = false, spentTokenStore = createMemorySpentTokenStore() } = config;
+  const spentTokenTtl = config.spentTokenTtl ?? 30 * 24 * 60 * 60;
+  const { verifyWithNode = false, issuance } = config;
+  const { escrow = false, escrowWaitSeconds = 30 } = config;
+  const {
+    maxPerWindow,
+    maxOutstanding,
+    windowSeconds = 60,
+    reuseSeconds = 60,
+    store: challengeStore = createMemoryChallengeStore(),
+  } = issuance ?? {};
+  const keyring = toKeyring(config.rootKey);
+  const backend = resolveRestBackend(node);
+
+  // Settled invoices never change, so each is looked up only once
+  const settledInvoices = new Map<string, InvoiceStatus>();
+
+  async function lookupSettled(paymentHash: string): Promise<InvoiceStatus | undefined> {
+    const cached = settledInvoices.get(paymentHash);
+    if (cached) return cached;
+
+    const status = await backend.lookupInvoice(paymentHash);
+    if (status?.state !== 'SETTLED') return undefined;
+    if (settledInvoices.size >= SETTLED_INVOICE_CACHE_SIZE) {
+      // Maps iterate in insertion order: drop the oldest
+      settledInvoices.delete(settledInvoices.keys().next().value!);
+    }
+    settledInvoices.set(paymentHash, status);
+    return status;
+  }
+
+  if (validFor !== undefined && (!Number.isFinite(validFor) || validFor <= 0)) {
+    throw new Error(`Invalid validFor: ${validFor}. Must be a positive number of seconds.`);
+  }
+  if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses <= 0)) {
+    throw new Error(`Invalid maxUses: ${maxUses}. Must be a positive integer.`);
+  }
+  if (singleUse && maxUses !== undefined) {
+    throw new Error('singleUse and maxUses cannot be combined.');
+  }
+  if (escrow) {
+    if (!backend.createHoldInvoice || !backend.settleInvoice || !backend.cancelInvoice) {
+      throw new Error('escrow needs a Lightning backend with hold invoices, such as LND.');
+    }
+    if (singleUse || maxUses !== undefined) {
+      throw new Error('escrow cannot be combined with singleUse or maxUses.');
+    }
+  }
+  if (!Number.isFinite(escrowWaitSeconds) || escrowWaitSeconds <= 0) {
+    throw new Error(`Invalid escrowWaitSeconds: ${escrowWaitSeconds}. Must be a positive number of seconds.`);
+  }
+  for (const [name, value] of Object.entries({ maxPerWindow, maxOutstanding })) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new Error(`Invalid ${name}: ${value}. Must be a positive integer.`);
+    }
+  }
+  if (!Number.isFinite(windowSeconds) || windowSeconds <= 0) {
+    throw new Error(`Invalid windowSeconds: ${windowSeconds}. Must be a positive number of seconds.`);
+  }
+  if (!Number.isFinite(reuseSeconds) || reuseSeconds < 0) {
+    throw new Error(`Invalid reuseSeconds: ${reuseSeconds}. Must be a non-negative number of seconds.`);
+  }
+
+  // The app's own caveats for a request
+  async function customCaveats(context: TContext): Promise<string[]> {
+    if (!config.caveats) return [];
+    return typeof config.caveats === 'function' ? await config.caveats(context) : config.caveats;
+  }
+
+  // Caveats written into every macaroon issued for this route
+  function issueCaveats(service: string, custom: string[]): string[] {
+    const name = encodeServiceName(service);
+    const caveats = [`services=${name}:${tier}`];
+    if (capabilities.length > 0) {
+      caveats.push(`${name}_capabilities=${capabilities.join(',')}`);
+    }
+    // Metered and single-use tokens always expire, so their counts and
+    // spent records can be dropped without letting the token back in
+    const lifetime = validFor ?? (maxUses !== undefined || singleUse ? spentTokenTtl : undefined);
+    if (lifetime !== undefined) {
+      const expiresAt = Math.floor(Date.now() / 1000) + Math.floor(lifetime);
+      caveats.push(`${name}_valid_until=${expiresAt}`);
+    }
+    caveats.push(...custom);
+    return caveats;
+  }
+
+  // When a token expires (ms), so records kept about it can go too.
+  // Tokens without an expiry of their own are kept for spentTokenTtl.
+  function tokenExpiresAt(caveats: string[], service: string): number {
+    const validUntil = caveats
+      .filter((c) => c.startsWith(`${encodeServiceName(service)}_valid_until=`))
+      .map((c) => Number(c.slice(c.indexOf('=') + 1)) * 1000);
+    return validUntil.length > 0 ? Math.min(...validUntil) : Date.now() + spentTokenTtl * 1000;
+  }
+
+  // A 402 carrying the challenge's invoice and macaroon
+  function challengeResponse(challenge: IssuedChallenge): L402Outcome {
+    let params = `macaroon="${challenge.macaroon}", invoice="${challenge.invoice}"`;
+    if (config.scope) params += `, scope="${config.scope.replace(/["\\]/g, '\\$&')}"`;
+    if (escrow) params += ', escrow="true"';
+    return respond(
+      402,
+      {
+        code: 402,
+        message: 'Payment Required',
+        invoice: challenge.invoice,
+        macaroon: challenge.macaroon,
+        price: challenge.price,
+        description: challenge.description,
+        ...(config.scope && { scope: config.scope }),
+        ...(escrow && { escrow: true }),
+      },
+      {
+        'WWW-Authenticate': config.acceptLsat
+          ? [`L402 ${params}`, `LSAT ${params}`]
+          : `L402 ${params}`,
+      }
+    );
+  }
+
+  // Refuse to issue a challenge for now
+  function tooManyChallenges(error: string, retryAfterSeconds: number): L402Outcome {
+    return respond(
+      429,
+      { error, retryAfter: retryAfterSeconds },
+      { 'Retry-After': String(retryAfterSeconds) }
+    );
+  }
+
+  // Create an invoice and answer with a 402 challenge
+  async function sendChallenge(
+    request: L402HttpRequest,
+    context: TContext,
+    service: string
+  ): Promise<L402Outcome> {
+    try {
+      // Determine price (static or dynamic)
+      const finalPrice = priceFn ? await priceFn(context) : price;
+
+      // Validate price before creating an invoice
+      if (!Number.isFinite(finalPrice) || finalPrice <= 0) {
+        throw new Error(`Invalid price: ${finalPrice}. Must be a positive number.`);
+      }
+
+      const custom = await customCaveats(context);
+
+      let routeKey: string | undefined;
+      if (issuance) {
+        const clientKey = issuance.clientKey ? await issuance.clientKey(context) : request.ip;
+
+        // Without a client key, requests can't be told apart: sharing
+        // one key would hand every client the same challenge, so skip
+        // reuse and per-client limits
+        if (clientKey) {
+          routeKey = `${clientKey} ${request.method} ${request.path}`;
+          // Requests only share a challenge if they'd get the same caveats
+          if (custom.length > 0) routeKey += ` ${JSON.stringify(custom)}`;
+
+          // The same client asking again soon gets the invoice it already
+          // has. Clients can share a key, so ask the node that nobody has
+          // paid it since.
+          const reused = await challengeStore.get(routeKey);
+          if (reused && reused.price === finalPrice) {
+            const status = await backend.lookupInvoice(reused.paymentHash);
+            if (status?.state === 'OPEN') return challengeResponse(reused);
+            await settleChallenge(reused.paymentHash);
+          }
+
+          const { count, resetAt } = await challengeStore.hit(clientKey, windowSeconds * 1000);
+          if (maxPerWindow !== undefined && count > maxPerWindow) {
+            const wait = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+            return tooManyChallenges('Too many L402 challenges', wait);
+          }
+        }
+        if (maxOutstanding !== undefined && (await challengeStore.outstanding()) >= maxOutstanding) {
+          return tooManyChallenges('Too many unpaid L402 invoices', windowSeconds);
+        }
+      }
+
+      const memo = description || `L402 access: ${request.method} ${request.path}`;
+
+      // Create Lightning invoice. Escrow routes use a hold invoice
+      // whose preimage only we can work out.
+      let invoice: CreatedInvoice;
+      let tokenId: string | undefined;
+      if (escrow) {
+        tokenId = bytesToHex(randomBytes(32));
+        invoice = await backend.createHoldInvoice!({
+          amountSats: finalPrice,
+          memo,
+          paymentHash: await hashPreimage(await escrowPreimage(keyring[0].key, tokenId)),
+        });
+      } else {
+        invoice = await backend.createInvoice({
+          amountSats: finalPrice,
+          memo,
+        });
+      }
+
+      // Create service macaroon embedding the payment hash
+      const serviceMacaroon = await createServiceMacaroon(
+        invoice.paymentHash,
+        issueCaveats(service, custom),
+        keyring[0],
+        tokenId
+      );
+
+      const challenge: IssuedChallenge = {
+        paymentHash: invoice.paymentHash,
+        invoice: invoice.paymentRequest,
+        macaroon: serviceMacaroon,
+        price: finalPrice,
+        description: memo,
+        expiresAt: invoiceExpiresAt(invoice.paymentRequest),
+      };
+      if (issuance) {
+        // Every unpaid invoice counts as outstanding, but only a known
+        // client is sent its challenge again
+        const reuseUntil = routeKey !== undefined
+          ? Math.min(Date.now() + reuseSeconds * 1000, challenge.expiresAt)
+          : Date.now();
+        await challengeStore.add(routeKey ?? challenge.paymentHash, challenge, reuseUntil);
+      }
+
+      // Respond with 402 Payment Required
+      return challengeResponse(challenge);
+    } catch (err: any) {
+      console.error('L402 middleware error:', err.message);
+      return gatewayError();
+    }
+  }
+
+  // Check what a paid token allows. Returns the response to send
+  // instead if the request may not go ahead.
+  async function checkCaveats(
+    request: L402HttpRequest,
+    context: TContext,
+    service: string,
+    caveats: string[]
+  ): Promise<L402Outcome | undefined> {
+    const caveatContext: CaveatContext = {
+      service,
+      tier,
+      capabilities,
+      method: request.method,
+      path: request.path,
+      ip: request.ip,
+      headers: request.headers,
+      now: Date.now(),
+    };
+    const result = verifyCaveats(
+      caveats,
+      defaultSatisfiers(service, constraints, satisfiers),
+      caveatContext
+    );
+
+    // Expired passes get a fresh invoice so clients can renew
+    if (!result.ok && result.caveat.startsWith(`${encodeServiceName(service)}_valid_until=`)) {
+      return sendChallenge(request, context, service);
+    }
+
+    if (!result.ok) {
+      return respond(401, {
+        error: 'L402 caveat not satisfied',
+        caveat: result.caveat,
+      });
+    }
+    return undefined;
+  }
+
+  // The payment is proven, so its invoice no longer counts as outstanding
+  async function settleChallenge(paymentHash: string) {
+    if (!issuance) return;
+    try {
+      await challengeStore.settle(paymentHash);
+    } catch (err: any) {
+      console.error('L402 challenge store error:', err.message);
+    }
+  }
+
+  // Ask our node until an escrow payment arrives, or the wait is over
+  async function waitForPayment(paymentHash: string): Promise<InvoiceState> {
+    const deadline = Date.now() + escrowWaitSeconds * 1000;
+    while (true) {
+      // An invoice the node has lost can never be paid
+      const state = (await backend.lookupInvoice(paymentHash))?.state ?? 'CANCELED';
+      const left = deadline - Date.now();
+      if (state !== 'OPEN' || left <= 0) return state;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(ESCROW_POLL_INTERVAL_MS, left)));
+    }
+  }
+
+  // Take a held escrow payment if the handler succeeds, otherwise fail
+  // it back. The preimage goes out with a successful response.
+  function holdPayment(preimage: string, paymentHash: string): L402EscrowHold {
+    let finished: Promise<void> | undefined;
+    return {
+      headers: { [ESCROW_PREIMAGE_HEADER]: preimage },
+      finish(status) {
+        finished ??= (async () => {
+          const success = status >= 200 && status < 300;
+          try {
+            if (success) await backend.settleInvoice!(preimage);
+            else await backend.cancelInvoice!(paymentHash);
+          } catch (err: any) {
+            console.error(`L402 escrow ${success ? 'settle' : 'cancel'} error:`, err.message);
+          }
+        })();
+        return finished;
+      },
+    };
+  }
+
+  // Escrow: the payer shows the macaroon alone while its payment is
+  // held. Let the request through once the payment arrives.
+  async function redeemEscrow(
+    request: L402HttpRequest,
+    context: TContext,
+    service: string,
+    token: string
+  ): Promise<L402Outcome> {
+    // Anything after a colon is a preimage the payer can't have yet
+    const colonIndex = token.indexOf(':');
+    const macaroonB64 = colonIndex >= 0 ? token.slice(0, colonIndex) : token;
+    const macaroonData = await parseServiceMacaroon(macaroonB64, keyring);
+    const preimage = macaroonData && (await findEscrowPreimage(macaroonData));
+    if (!macaroonData || !preimage) {
+      return respond(401, { error: 'Invalid L402 token' });
+    }
+    const { paymentHash } = macaroonData;
+
+    const refused = await checkCaveats(request, context, service, macaroonData.caveats);
+    if (refused) return refused;
+
+    // Each payment runs the handler once; later attempts pay again
+    let claimed: boolean;
+    try {
+      claimed = await spentTokenStore.markSpent(paymentHash, Date.now() + spentTokenTtl * 1000);
+    } catch (err: any) {
+      console.error('L402 spent-token store error:', err.message);
+      return gatewayError();
+    }
+    if (!claimed) return sendChallenge(request, context, service);
+
+    // Fail a late or unseen payment back rather than hold it with no one waiting
+    const cancel = () => {
+      backend.cancelInvoice!(paymentHash).catch((err: any) => {
+        console.error('L402 escrow cancel error:', err.message);
+      });
+    };
+
+    let state: InvoiceState;
+    try {
+      state = await waitForPayment(paymentHash);
+    } catch (err: any) {
+      console.error('L402 invoice lookup error:', err.message);
+      cancel();
+      return gatewayError();
+    }
+    if (state === 'OPEN') {
+      cancel();
+      return respond(401, { error: 'L402 escrow payment not received' });
+    }
+    if (state !== 'ACCEPTED') return sendChallenge(request, context, service);
+
+    await settleChallenge(paymentHash);
+    return {
+      type: 'authorized',
+      proof: { paid: true, preimage, paymentHash, service },
+      escrow: holdPayment(preimage, paymentHash),
+    };
+  }
+
+  // Legacy LSAT clients send the same token under the old scheme name
+  const authScheme = config.acceptLsat ? /^(l402|lsat) /i : /^l402 /i;
+
+  async function handle(
+    request: L402HttpRequest,
+    context: TContext = request as TContext
+  ): Promise<L402Outcome> {
+    const service = config.service ?? request.path;
+
+    // --- Check for existing L402 authorization ---
+    const authHeader = request.headers.authorization;
+
+    if (typeof authHeader === 'string' && authScheme.test(authHeader)) {
+      // Both scheme names are four letters
+      const token = authHeader.slice(5);
+      if (escrow) return redeemEscrow(request, context, service, token);
+      const colonIndex = token.lastIndexOf(':');
+
+      if (colonIndex > 0) {
+        const macaroonB64 = token.slice(0, colonIndex);
+        const preimage = token.slice(colonIndex + 1);
+        const macaroonData = await parseServiceMacaroon(macaroonB64, keyring);
+
+        if (
+          macaroonData &&
+          (await verifyPreimage(preimage, macaroonData.paymentHash))
+        ) {
+          await settleChallenge(macaroonData.paymentHash);
+
+          // Payment is proven — now check what the token allows
+          const refused = await checkCaveats(request, context, service, macaroonData.caveats);
+          if (refused) return refused;
+
+          const proof: L402Proof = {
+            paid: true,
+            preimage,
+            paymentHash: macaroonData.paymentHash,
+            service,
+          };
+
+          // Optionally confirm with our node that the invoice settled in full
+          if (verifyWithNode) {
+            let invoice: InvoiceStatus | undefined;
+            try {
+              invoice = await lookupSettled(macaroonData.paymentHash);
+            } catch (err: any) {
+              console.error('L402 invoice lookup error:', err.message);
+              return gatewayError();
+            }
+            // Dynamic prices are only known from the invoice itself
+            const expected = priceFn ? invoice?.valueSats ?? 0 : price;
+            if (!invoice || invoice.amountPaidSats < expected) {
+              return respond(401, { error: 'L402 invoice not settled' });
+            }
+            proof.amountPaidSats = invoice.amountPaidSats;
+            proof.settledAt = invoice.settledAt;
+          }
+
+          // Single-use tokens: only the first request to spend it gets through
+          if (singleUse) {
+            let spent: boolean;
+            try {
+              spent = await spentTokenStore.markSpent(
+                macaroonData.paymentHash,
+                tokenExpiresAt(macaroonData.caveats, service)
+              );
+            } catch (err: any) {
+              console.error('L402 spent-token store error:', err.message);
+              return gatewayError();
+            }
+            if (!spent) {
+              return sendChallenge(request, context, service);
+            }
+          }
+
+          // Metered tokens: count this request against the quota
+          if (maxUses !== undefined) {
+            let used: number;
+            try {
+              used = await usageStore.increment(
+                macaroonData.paymentHash,
+                tokenExpiresAt(macaroonData.caveats, service)
+              );
+            } catch (err: any) {
+              console.error('L402 usage store error:', err.message);
+              return gatewayError();
+            }
+            if (used > maxUses) {
+              return sendChallenge(request, context, service);
+            }
+            proof.remainingUses = maxUses - used;
+          }
+
+          return { type: 'authorized', proof };
+        }
+      }
+
+      // Auth header present but invalid
+      return respond(401, { error: 'Invalid L402 token' });
+    }
+
+    // --- No auth: issue a 402 challenge ---
+    return sendChallenge(request, context, service);
+  }
+
+  return {
+    /**
+     * Authorize a request, or return the 402 challenge or error
+     * response to send instead
+     */
+    handle,
+  };
+}
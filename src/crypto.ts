@@ -0,0 +1,116 @@
+// src/crypto.ts
+// Hashing and byte helpers on web standards
+//
+// The server side of L402 runs on Node, Deno, Bun and Cloudflare
+// Workers alike, so it only uses what they all share: WebCrypto
+// (`crypto.subtle`, `crypto.getRandomValues`), TextEncoder, atob/btoa
+// and Uint8Array. No Buffer and no Node `crypto` module.
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** UTF-8 bytes of a string. */
+export function utf8ToBytes(text: string): Uint8Array {
+  return encoder.encode(text);
+}
+
+/** Decode UTF-8 bytes into a string. */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+/** Lower-case hex of some bytes. */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, '0');
+  return hex;
+}
+
+/**
+ * Bytes of a hex string, in either case.
+ * Throws on odd lengths or anything that isn't hex.
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/** Standard, padded base64 of some bytes. */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/** URL-safe base64 of some bytes, without padding. */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Bytes of a base64 string, standard or URL-safe, with or
+ * without padding. Throws if it isn't base64.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Join byte arrays into one. */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** Cryptographically random bytes. */
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Compare two byte arrays in time that depends only on their
+ * length, so a signature check doesn't leak how much matched.
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+function toBytes(data: Uint8Array | string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(typeof data === 'string' ? utf8ToBytes(data) : data);
+}
+
+/** SHA-256 digest. */
+export async function sha256(data: Uint8Array | string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', toBytes(data)));
+}
+
+/** HMAC-SHA256. String keys and data are taken as UTF-8. */
+export async function hmacSha256(
+  key: Uint8Array | string,
+  data: Uint8Array | string
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    toBytes(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, toBytes(data)));
+}
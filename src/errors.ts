@@ -0,0 +1,110 @@
+// src/errors.ts
+// Typed errors thrown by the L402 client and its payment backends
+//
+// Catch these with `instanceof` to react to specific failures,
+// e.g. topping up a wallet on InsufficientBalanceError.
+
+/**
+ * A Lightning payment failed. `code` is a short machine-readable
+ * reason, e.g. the NIP-47 error code reported by an NWC wallet.
+ */
+export class PaymentError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code = 'PAYMENT_FAILED') {
+    super(message);
+    this.name = 'PaymentError';
+    this.code = code;
+  }
+}
+
+/**
+ * The paying wallet doesn't have enough funds.
+ */
+export class InsufficientBalanceError extends PaymentError {
+  constructor(message: string) {
+    super(message, 'INSUFFICIENT_BALANCE');
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+/**
+ * The paying wallet's spending quota (e.g. an NWC budget) is used up.
+ */
+export class QuotaExceededError extends PaymentError {
+  constructor(message: string) {
+    super(message, 'QUOTA_EXCEEDED');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * A payment failed midway and the node can't yet say whether it went
+ * through. Nothing is paid again for this token until it settles;
+ * retry later to pick up the result.
+ */
+export class PaymentInFlightError extends PaymentError {
+  /** Payment hash (hex) of the payment in flight */
+  readonly paymentHash: string;
+
+  constructor(message: string, paymentHash: string) {
+    super(message, 'IN_FLIGHT');
+    this.name = 'PaymentInFlightError';
+    this.paymentHash = paymentHash;
+  }
+}
+
+/** Which budget limit stopped a payment. */
+export type BudgetLimit = 'total' | 'perHour' | 'perDay' | 'perHost';
+
+/**
+ * Paying an invoice would go over one of the client's budget caps.
+ * Nothing was paid.
+ */
+export class BudgetExceededError extends Error {
+  readonly limit: BudgetLimit;
+  /** Invoice amount that was refused (sats) */
+  readonly amountSats: number;
+  /** Sats still available under the cap that was hit */
+  readonly remainingSats: number;
+
+  constructor(limit: BudgetLimit, amountSats: number, remainingSats: number) {
+    super(
+      `L402 payment of ${amountSats} sats exceeds the ${limit} budget ` +
+        `(${remainingSats} sats remaining)`
+    );
+    this.name = 'BudgetExceededError';
+    this.limit = limit;
+    this.amountSats = amountSats;
+    this.remainingSats = remainingSats;
+  }
+}
+
+/**
+ * The client's host policy or `approve` hook refused a payment.
+ * Nothing was paid.
+ */
+export class PaymentDeniedError extends Error {
+  readonly host: string;
+
+  constructor(message: string, host: string) {
+    super(message);
+    this.name = 'PaymentDeniedError';
+    this.host = host;
+  }
+}
+
+/**
+ * A 402 response had no challenge the client could read, in either
+ * the WWW-Authenticate header or the body.
+ */
+export class ChallengeParseError extends Error {
+  /** The WWW-Authenticate header, if there was one */
+  readonly header?: string;
+
+  constructor(message: string, header?: string) {
+    super(message);
+    this.name = 'ChallengeParseError';
+    this.header = header;
+  }
+}
@@ -0,0 +1,207 @@
+// src/file-store.ts
+// Encrypted JSON file store for client tokens
+//
+// Keeps paid tokens across restarts. A token's preimage is a bearer
+// credential, so the whole token list is encrypted with AES-256-GCM
+// under a key derived (scrypt) from the caller's secret. Writes go to
+// a temp file that is renamed over the old one, so a crash mid-write
+// never leaves a truncated store behind.
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import nodePath from 'path';
+import { StoredToken, TokenStore } from './types';
+
+/** Options for createFileTokenStore. */
+export interface FileTokenStoreOptions {
+  /** Path of the JSON file; created on first write */
+  path: string;
+  /** Secret the file is encrypted with. Use a long random value. */
+  encryptionKey: string | Buffer;
+}
+
+interface StoreFile {
+  version: 1;
+  /** scrypt salt (base64) */
+  salt: string;
+  /** AES-GCM nonce (base64) */
+  iv: string;
+  /** AES-GCM auth tag (base64) */
+  tag: string;
+  /** Encrypted JSON array of tokens (base64) */
+  data: string;
+}
+
+interface StoreState {
+  tokens: Map<string, StoredToken>;
+  key: Buffer;
+  salt: Buffer;
+}
+
+function deriveKey(secret: string | Buffer, salt: Buffer): Buffer {
+  return crypto.scryptSync(secret, salt, 32);
+}
+
+function encrypt(tokens: StoredToken[], key: Buffer, salt: Buffer): StoreFile {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(file: StoreFile, key: Buffer): StoredToken[] {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  const json = Buffer.concat([
+    decipher.update(Buffer.from(file.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+  return JSON.parse(json);
+}
+
+/**
+ * Create a token store that persists to an encrypted JSON file.
+ *
+ * The file is read once, on first use. Expired tokens are pruned on
+ * load and whenever they are looked up. Only one process should
+ * write to a given file at a time.
+ *
+ * @example
+ * ```typescript
+ * const client = createL402Client({
+ *   node,
+ *   tokenStore: createFileTokenStore({
+ *     path: './l402-tokens.json',
+ *     encryptionKey: process.env.L402_TOKEN_KEY!,
+ *   }),
+ * });
+ * ```
+ */
+export function createFileTokenStore(options: FileTokenStoreOptions): TokenStore {
+  const { path, encryptionKey } = options;
+  if (!encryptionKey || encryptionKey.length === 0) {
+    throw new Error('createFileTokenStore requires an encryptionKey');
+  }
+
+  let loaded: Promise<StoreState> | undefined;
+  // Writes run one after another, each with the latest state
+  let writing: Promise<void> = Promise.resolve();
+
+  async function readFile(): Promise<StoreState> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path, 'utf8');
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+      const salt = crypto.randomBytes(16);
+      return { tokens: new Map(), key: deriveKey(encryptionKey, salt), salt };
+    }
+
+    let file: StoreFile;
+    let tokens: StoredToken[];
+    let key: Buffer;
+    let salt: Buffer;
+    try {
+      file = JSON.parse(raw);
+      if (file.version !== 1) throw new Error(`unsupported version ${file.version}`);
+      salt = Buffer.from(file.salt, 'base64');
+      key = deriveKey(encryptionKey, salt);
+      tokens = decrypt(file, key);
+    } catch (err: any) {
+      throw new Error(
+        `Could not read token store ${path}: wrong encryptionKey or corrupted file (${err.message})`
+      );
+    }
+    return { tokens: new Map(tokens.map((t) => [t.scope, t])), key, salt };
+  }
+
+  function state(): Promise<StoreState> {
+    loaded ??= readFile().then(
+      async (s) => {
+        if (prune(s.tokens)) await persist(s);
+        return s;
+      },
+      (err) => {
+        // Try again next time, e.g. after a permissions fix
+        loaded = undefined;
+        throw err;
+      }
+    );
+    return loaded;
+  }
+
+  function prune(tokens: Map<string, StoredToken>): boolean {
+    const now = Date.now();
+    let pruned = false;
+    for (const [scope, token] of tokens) {
+      if (token.expiresAt !== undefined && token.expiresAt <= now) {
+        tokens.delete(scope);
+        pruned = true;
+      }
+    }
+    return pruned;
+  }
+
+  function persist(s: StoreState): Promise<void> {
+    const write = writing.then(async () => {
+      const body = JSON.stringify(encrypt([...s.tokens.values()], s.key, s.salt));
+      const tmp = nodePath.join(
+        nodePath.dirname(path),
+        `.${nodePath.basename(path)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+      );
+      try {
+        await fs.writeFile(tmp, body, { mode: 0o600 });
+        await fs.rename(tmp, path);
+      } catch (err) {
+        await fs.rm(tmp, { force: true });
+        throw err;
+      }
+    });
+    // Keep the queue going after a failed write
+    writing = write.catch(() => {});
+    return write;
+  }
+
+  return {
+    async get(scope) {
+      const s = await state();
+      const token = s.tokens.get(scope);
+      if (token?.expiresAt !== undefined && token.expiresAt <= Date.now()) {
+        s.tokens.delete(scope);
+        await persist(s);
+        return undefined;
+      }
+      return token;
+    },
+
+    async set(token) {
+      const s = await state();
+      s.tokens.set(token.scope, token);
+      prune(s.tokens);
+      await persist(s);
+    },
+
+    async delete(scope) {
+      const s = await state();
+      if (s.tokens.delete(scope)) await persist(s);
+    },
+
+    async clear() {
+      const s = await state();
+      s.tokens.clear();
+      await persist(s);
+    },
+
+    async size() {
+      const s = await state();
+      if (prune(s.tokens)) await persist(s);
+      return s.tokens.size;
+    },
+  };
+}
@@ -8,20 +8,127 @@
 //
 // Server:
 //   import { l402 } from 'l402-js';
-//   app.get('/api/data', l402({ node, price: 100 }), handler);
+//   app.get('/api/data', l402({ node, rootKey, price: 100 }), handler);
 //
 // Client:
 //   import { createL402Client } from 'l402-js';
 //   const client = createL402Client({ node });
 //   const { data } = await client.fetch('https://api.example.com/data');
+//
+// Fastify, Koa, Hono and Next.js have adapters of their own
+// (l402Fastify, l402Koa, l402Hono, l402Next), all built on createL402Core.
+// l402Handler wraps a web-standard (Request) => Promise<Response>
+// function for Cloudflare Workers, Deno and Bun; import it from
+// 'l402-js/web' there, which leaves out everything that needs Node.
+
+// Lets the LND and CLN backends take tlsCert and skipTlsVerify
+import './node-tls';
 
 export { l402 } from './middleware';
+export type { L402MiddlewareConfig, L402Request } from './middleware';
+export { createL402Core } from './core';
+export { l402Fastify } from './adapters/fastify';
+export type { FastifyRequestLike, FastifyReplyLike } from './adapters/fastify';
+export { l402Koa } from './adapters/koa';
+export type { KoaContextLike } from './adapters/koa';
+export { l402Hono } from './adapters/hono';
+export type { HonoContextLike } from './adapters/hono';
+export { l402Next } from './adapters/next';
+export type { L402RouteHandler } from './adapters/next';
+export { l402Handler } from './adapters/web';
+export type { L402FetchHandler } from './adapters/web';
 export { createL402Client } from './client';
+export {
+  createLndBackend,
+  createClnBackend,
+  createNwcBackend,
+  parseNwcUri,
+  resolveBackend,
+  isLightningBackend,
+} from './backends';
+export { decodeBolt11 } from './bolt11';
+export { parseAuthenticateHeader, parseL402Challenge } from './challenge';
+export type { AuthChallenge, L402HeaderChallenge } from './challenge';
+export type { Bolt11Invoice } from './bolt11';
+export {
+  PaymentError,
+  InsufficientBalanceError,
+  QuotaExceededError,
+  PaymentInFlightError,
+  BudgetExceededError,
+  PaymentDeniedError,
+  ChallengeParseError,
+} from './errors';
+export type { BudgetLimit } from './errors';
+export {
+  createMemoryUsageStore,
+  createMemorySpentTokenStore,
+  createMemoryTokenStore,
+  createMemoryChallengeStore,
+} from './stores';
+export { createFileTokenStore } from './file-store';
+export type { FileTokenStoreOptions } from './file-store';
+export {
+  mintMacaroon,
+  addFirstPartyCaveat,
+  verifyMacaroon,
+  getCaveats,
+  serializeMacaroon,
+  deserializeMacaroon,
+  encodeMacaroon,
+  decodeMacaroon,
+  encodeIdentifier,
+  decodeIdentifier,
+  newIdentifier,
+} from './macaroon';
+export type { Macaroon, MacaroonCaveat, L402Identifier } from './macaroon';
+export {
+  parseCaveat,
+  verifyCaveats,
+  defaultSatisfiers,
+  keyIdSatisfier,
+  encodeServiceName,
+  decodeServiceName,
+  servicesSatisfier,
+  capabilitiesSatisfier,
+  validUntilSatisfier,
+  constraintsSatisfier,
+} from './caveats';
+export type { CaveatResult } from './caveats';
 export type {
   LndConfig,
-  L402MiddlewareConfig,
+  ClnConfig,
+  NwcConfig,
+  WebSocketLike,
+  LightningBackend,
+  CreatedInvoice,
+  InvoiceState,
+  InvoiceStatus,
+  PaymentResult,
+  PaymentOptions,
+  PaymentState,
+  PaymentStatus,
+  DecodedInvoice,
+  BitcoinNetwork,
+  RootKey,
+  Caveat,
+  CaveatContext,
+  CaveatSatisfier,
+  UsageStore,
+  SpentTokenStore,
+  IssuedChallenge,
+  ChallengeStore,
+  ChallengeIssuanceOptions,
+  StoredToken,
+  TokenStore,
+  L402Config,
+  L402HttpRequest,
+  L402Outcome,
+  L402EscrowHold,
   L402ClientConfig,
+  BudgetConfig,
+  BudgetSpent,
+  PaymentContext,
   L402Challenge,
   L402Proof,
-  L402Request,
 } from './types';
@@ -1,34 +1,50 @@
 // src/lnd-fetch.ts
-// Scoped TLS bypass for LND REST calls.
+// Per-connection TLS for Lightning node REST calls
 //
-// LND commonly uses self-signed certs in development.
-// Instead of disabling TLS verification globally with
-// process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0' (which
-// affects ALL connections in the process), this helper
-// scopes the bypass to individual LND fetch calls only.
+// LND and CLN commonly use self-signed certs. Rather than turn off
+// TLS verification for the whole process (NODE_TLS_REJECT_UNAUTHORIZED,
+// which also covers every other HTTPS call made meanwhile), each
+// backend gets its own HTTPS agent: one that trusts the node's
+// pinned certificate, or, with skipTlsVerify, one that trusts any.
+// Other connections in the process are never affected.
+//
+// The agents need Node's https module, so they live in node-tls.ts,
+// which only the main entry loads. Without either option this is
+// plain fetch, so it also works on runtimes without Node.
+
+/** TLS settings shared by the node configs. */
+export interface NodeTlsOptions {
+  /** The node's TLS certificate: PEM, or a path to a PEM file */
+  tlsCert?: string;
+  /** Accept any certificate (for self-signed certs in dev) */
+  skipTlsVerify?: boolean;
+}
+
+/** A fetch for one node's REST API. */
+export type LndFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+let createTlsFetch: ((options: NodeTlsOptions) => LndFetch) | undefined;
+
+/** Set how fetches with TLS options are made. Called by node-tls.ts. */
+export function setTlsFetch(factory: (options: NodeTlsOptions) => LndFetch): void {
+  createTlsFetch = factory;
+}
 
 /**
- * Fetch wrapper that optionally bypasses TLS verification
- * for a single request. Used only for LND REST API calls.
+ * Create the fetch a backend uses to reach its node. With `tlsCert`
+ * or `skipTlsVerify`, requests go through a dedicated HTTPS agent;
+ * otherwise through the global fetch.
  */
-export async function lndFetch(
-  url: string,
-  init: RequestInit,
-  skipTlsVerify?: boolean
-): Promise<Response> {
-  if (!skipTlsVerify) {
-    return fetch(url, init);
+export function createLndFetch(options: NodeTlsOptions = {}): LndFetch {
+  const { tlsCert, skipTlsVerify = false } = options;
+  if (tlsCert !== undefined && skipTlsVerify) {
+    throw new Error('tlsCert and skipTlsVerify cannot be combined.');
   }
-
-  const saved = process.env.NODE_TLS_REJECT_UNAUTHORIZED;
-  process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
-  try {
-    return await fetch(url, init);
-  } finally {
-    if (saved === undefined) {
-      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
-    } else {
-      process.env.NODE_TLS_REJECT_UNAUTHORIZED = saved;
-    }
+  if (tlsCert === undefined && !skipTlsVerify) {
+    return (url, init) => fetch(url, init);
+  }
+  if (!createTlsFetch) {
+    throw new Error("tlsCert and skipTlsVerify need Node.js: import from 'l402-js', not 'l402-js/web'.");
   }
+  return createTlsFetch(options);
 }
@@ -0,0 +1,329 @@
+// src/macaroon.ts
+// Macaroons in the libmacaroons v2 binary format
+//
+// This is the token format used by the L402 spec, Aperture, lnget
+// and lsat-js. A macaroon is a location, an identifier, a list of
+// caveats and a signature. The signature is an HMAC chain:
+//
+//   sig = HMAC(derive(rootKey), identifier)
+//   sig = HMAC(sig, caveat)   // for each first-party caveat
+//
+// Anyone holding a macaroon can add caveats (attenuate it), but
+// only the holder of the root key can verify or mint one.
+//
+// Signing and verifying use WebCrypto, so they are async and work
+// on any runtime that follows web standards.
+
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToHex,
+  bytesToUtf8,
+  hexToBytes,
+  hmacSha256,
+  randomBytes,
+  timingSafeEqual,
+  utf8ToBytes,
+} from './crypto';
+
+/** A caveat attached to a macaroon. */
+export interface MacaroonCaveat {
+  /** Caveat identifier, e.g. `services=api:0` for first-party caveats */
+  identifier: Uint8Array;
+  /** Verification id — only present on third-party caveats */
+  verificationId?: Uint8Array;
+  /** Location hint — only meaningful on third-party caveats */
+  location?: string;
+}
+
+/** A decoded macaroon. */
+export interface Macaroon {
+  location: string;
+  identifier: Uint8Array;
+  caveats: MacaroonCaveat[];
+  signature: Uint8Array;
+}
+
+/** The identifier layout used by L402 macaroons. */
+export interface L402Identifier {
+  /** Identifier version, currently always 0 */
+  version: number;
+  /** Payment hash of the invoice this macaroon is bound to (hex) */
+  paymentHash: string;
+  /** Random 32-byte token id (hex) */
+  tokenId: string;
+}
+
+const V2 = 2;
+const FIELD_EOS = 0;
+const FIELD_LOCATION = 1;
+const FIELD_IDENTIFIER = 2;
+const FIELD_VID = 4;
+const FIELD_SIGNATURE = 6;
+
+const L402_ID_VERSION = 0;
+const L402_ID_LENGTH = 2 + 32 + 32;
+const HASH_HEX = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * libmacaroons never uses the root key directly; it HMACs it
+ * with a fixed generator key first.
+ */
+function deriveKey(rootKey: string | Uint8Array): Promise<Uint8Array> {
+  return hmacSha256('macaroons-key-generator', rootKey);
+}
+
+/**
+ * Mint a new macaroon signed with the given root key.
+ */
+export async function mintMacaroon(options: {
+  rootKey: string | Uint8Array;
+  identifier: Uint8Array;
+  location?: string;
+}): Promise<Macaroon> {
+  return {
+    location: options.location ?? '',
+    identifier: options.identifier,
+    caveats: [],
+    signature: await hmacSha256(await deriveKey(options.rootKey), options.identifier),
+  };
+}
+
+/**
+ * Attenuate a macaroon with a first-party caveat.
+ * Returns a new macaroon; the input is left untouched.
+ */
+export async function addFirstPartyCaveat(
+  macaroon: Macaroon,
+  caveat: string
+): Promise<Macaroon> {
+  const identifier = utf8ToBytes(caveat);
+  return {
+    ...macaroon,
+    caveats: [...macaroon.caveats, { identifier }],
+    signature: await hmacSha256(macaroon.signature, identifier),
+  };
+}
+
+/**
+ * Check a macaroon's signature chain against a root key.
+ *
+ * This only proves the macaroon was minted with `rootKey` and
+ * not tampered with — the caller is still responsible for
+ * checking that each caveat holds for the current request.
+ * Third-party caveats are not supported and fail verification.
+ */
+export async function verifyMacaroon(
+  macaroon: Macaroon,
+  rootKey: string | Uint8Array
+): Promise<boolean> {
+  if (macaroon.caveats.some((c) => c.verificationId)) return false;
+  let sig = await hmacSha256(await deriveKey(rootKey), macaroon.identifier);
+  for (const caveat of macaroon.caveats) {
+    sig = await hmacSha256(sig, caveat.identifier);
+  }
+  return timingSafeEqual(sig, macaroon.signature);
+}
+
+/**
+ * List the first-party caveats of a macaroon as strings.
+ */
+export function getCaveats(macaroon: Macaroon): string[] {
+  return macaroon.caveats
+    .filter((c) => !c.verificationId)
+    .map((c) => bytesToUtf8(c.identifier));
+}
+
+// --- Binary v2 serialization ---
+
+function writeVarint(out: number[], value: number): void {
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+}
+
+function writeField(out: number[], type: number, data: Uint8Array): void {
+  out.push(type);
+  writeVarint(out, data.length);
+  for (const byte of data) out.push(byte);
+}
+
+/**
+ * Encode a macaroon in the v2 binary format.
+ */
+export function encodeMacaroon(macaroon: Macaroon): Uint8Array {
+  const out: number[] = [V2];
+
+  if (macaroon.location) {
+    writeField(out, FIELD_LOCATION, utf8ToBytes(macaroon.location));
+  }
+  writeField(out, FIELD_IDENTIFIER, macaroon.identifier);
+  out.push(FIELD_EOS);
+
+  for (const caveat of macaroon.caveats) {
+    if (caveat.location) {
+      writeField(out, FIELD_LOCATION, utf8ToBytes(caveat.location));
+    }
+    writeField(out, FIELD_IDENTIFIER, caveat.identifier);
+    if (caveat.verificationId) {
+      writeField(out, FIELD_VID, caveat.verificationId);
+    }
+    out.push(FIELD_EOS);
+  }
+  out.push(FIELD_EOS);
+
+  writeField(out, FIELD_SIGNATURE, macaroon.signature);
+  return new Uint8Array(out);
+}
+
+/**
+ * Decode a macaroon from the v2 binary format.
+ * Throws if the data is not a well-formed v2 macaroon.
+ */
+export function decodeMacaroon(data: Uint8Array): Macaroon {
+  let pos = 0;
+
+  const readVarint = (): number => {
+    let value = 0;
+    let shift = 0;
+    for (;;) {
+      if (pos >= data.length) throw new Error('Truncated macaroon varint');
+      const byte = data[pos++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (!(byte & 0x80)) return value;
+      shift += 7;
+      if (shift > 28) throw new Error('Macaroon varint too long');
+    }
+  };
+
+  // Reads a field, or returns null (and consumes it) at an EOS marker
+  const readField = (): { type: number; data: Uint8Array } | null => {
+    if (pos >= data.length) throw new Error('Truncated macaroon');
+    const type = data[pos++];
+    if (type === FIELD_EOS) return null;
+    const length = readVarint();
+    if (pos + length > data.length) throw new Error('Truncated macaroon field');
+    const value = data.subarray(pos, pos + length);
+    pos += length;
+    return { type, data: value.slice() };
+  };
+
+  if (data[pos++] !== V2) {
+    throw new Error('Unsupported macaroon version');
+  }
+
+  // Header section: [location] identifier EOS
+  let location = '';
+  let identifier: Uint8Array | undefined;
+  for (let field = readField(); field; field = readField()) {
+    if (field.type === FIELD_LOCATION && !identifier) {
+      location = bytesToUtf8(field.data);
+    } else if (field.type === FIELD_IDENTIFIER && !identifier) {
+      identifier = field.data;
+    } else {
+      throw new Error(`Unexpected macaroon field ${field.type}`);
+    }
+  }
+  if (!identifier) throw new Error('Macaroon has no identifier');
+
+  // Caveat sections, terminated by an empty section
+  const caveats: MacaroonCaveat[] = [];
+  for (;;) {
+    let field = readField();
+    if (!field) break;
+
+    const caveat: Partial<MacaroonCaveat> = {};
+    for (; field; field = readField()) {
+      if (field.type === FIELD_LOCATION && !caveat.identifier) {
+        caveat.location = bytesToUtf8(field.data);
+      } else if (field.type === FIELD_IDENTIFIER && !caveat.identifier) {
+        caveat.identifier = field.data;
+      } else if (field.type === FIELD_VID && caveat.identifier && !caveat.verificationId) {
+        caveat.verificationId = field.data;
+      } else {
+        throw new Error(`Unexpected macaroon caveat field ${field.type}`);
+      }
+    }
+    if (!caveat.identifier) throw new Error('Macaroon caveat has no identifier');
+    caveats.push(caveat as MacaroonCaveat);
+  }
+
+  const sig = readField();
+  if (!sig || sig.type !== FIELD_SIGNATURE || sig.data.length !== 32) {
+    throw new Error('Macaroon has no valid signature');
+  }
+  if (pos !== data.length) {
+    throw new Error('Trailing data after macaroon');
+  }
+
+  return { location, identifier, caveats, signature: sig.data };
+}
+
+/**
+ * Serialize a macaroon to base64, the form used in L402 headers.
+ */
+export function serializeMacaroon(macaroon: Macaroon): string {
+  return bytesToBase64(encodeMacaroon(macaroon));
+}
+
+/**
+ * Parse a base64 (standard or URL-safe) macaroon.
+ * Throws if it is not a well-formed v2 macaroon.
+ */
+export function deserializeMacaroon(serialized: string): Macaroon {
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(serialized)) {
+    throw new Error('Macaroon is not valid base64');
+  }
+  return decodeMacaroon(base64ToBytes(serialized));
+}
+
+// --- L402 identifier ---
+
+/**
+ * Encode an L402 macaroon identifier:
+ *   version (uint16 BE) || payment hash (32 bytes) || token id (32 bytes)
+ */
+export function encodeIdentifier(id: L402Identifier): Uint8Array {
+  if (!HASH_HEX.test(id.paymentHash) || !HASH_HEX.test(id.tokenId)) {
+    throw new Error('L402 identifier needs a 32-byte payment hash and token id');
+  }
+
+  const out = new Uint8Array(L402_ID_LENGTH);
+  out[0] = id.version >> 8;
+  out[1] = id.version & 0xff;
+  out.set(hexToBytes(id.paymentHash), 2);
+  out.set(hexToBytes(id.tokenId), 34);
+  return out;
+}
+
+/**
+ * Decode an L402 macaroon identifier.
+ * Throws on unknown versions or a wrong length.
+ */
+export function decodeIdentifier(identifier: Uint8Array): L402Identifier {
+  if (identifier.length !== L402_ID_LENGTH) {
+    throw new Error('L402 identifier has the wrong length');
+  }
+  const version = (identifier[0] << 8) | identifier[1];
+  if (version !== L402_ID_VERSION) {
+    throw new Error(`Unknown L402 identifier version ${version}`);
+  }
+  return {
+    version,
+    paymentHash: bytesToHex(identifier.subarray(2, 34)),
+    tokenId: bytesToHex(identifier.subarray(34, 66)),
+  };
+}
+
+/**
+ * Create a fresh L402 identifier for a payment hash,
+ * with a random token id unless one is given.
+ */
+export function newIdentifier(
+  paymentHash: string,
+  tokenId = bytesToHex(randomBytes(32))
+): Uint8Array {
+  return encodeIdentifier({ version: L402_ID_VERSION, paymentHash, tokenId });
+}
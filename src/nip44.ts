@@ -0,0 +1,131 @@
+// src/nip44.ts
+// NIP-44 v2 encryption for Nostr direct payloads
+//
+// Used to talk to Nostr Wallet Connect wallets. The scheme is:
+//
+//   conversation key = HKDF-extract(salt='nip44-v2', ECDH x-coordinate)
+//   per-message keys = HKDF-expand(conversation key, nonce, 76 bytes)
+//   payload = 0x02 || nonce || ChaCha20(padded plaintext) || HMAC
+//
+// https://github.com/nostr-protocol/nips/blob/master/44.md
+
+import crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+const VERSION = 2;
+const MIN_PLAINTEXT = 1;
+const MAX_PLAINTEXT = 65535;
+
+/**
+ * Derive the shared conversation key between our secret key and
+ * their x-only public key (both hex).
+ */
+export function getConversationKey(secretKey: string, publicKey: string): Buffer {
+  const shared = secp256k1.getSharedSecret(secretKey, '02' + publicKey);
+  return crypto
+    .createHmac('sha256', 'nip44-v2')
+    .update(shared.subarray(1, 33))
+    .digest();
+}
+
+// HKDF-expand (RFC 5869) — the extract step is getConversationKey
+function hkdfExpand(prk: Buffer, info: Buffer, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  let prev = Buffer.alloc(0);
+  for (let i = 1; Buffer.concat(blocks).length < length; i++) {
+    prev = crypto
+      .createHmac('sha256', prk)
+      .update(Buffer.concat([prev, info, Buffer.from([i])]))
+      .digest();
+    blocks.push(prev);
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+function messageKeys(conversationKey: Buffer, nonce: Buffer) {
+  const keys = hkdfExpand(conversationKey, nonce, 76);
+  return {
+    chachaKey: keys.subarray(0, 32),
+    chachaNonce: keys.subarray(32, 44),
+    hmacKey: keys.subarray(44, 76),
+  };
+}
+
+function chacha20(key: Buffer, nonce: Buffer, data: Buffer): Buffer {
+  // Node's chacha20 takes a 16-byte IV: 4-byte counter (LE) || 12-byte nonce
+  const iv = Buffer.concat([Buffer.alloc(4), nonce]);
+  const cipher = crypto.createCipheriv('chacha20', key, iv);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+function paddedLength(length: number): number {
+  if (length <= 32) return 32;
+  const nextPower = 1 << (Math.floor(Math.log2(length - 1)) + 1);
+  const chunk = nextPower <= 256 ? 32 : nextPower / 8;
+  return chunk * (Math.floor((length - 1) / chunk) + 1);
+}
+
+function pad(plaintext: string): Buffer {
+  const bytes = Buffer.from(plaintext, 'utf8');
+  if (bytes.length < MIN_PLAINTEXT || bytes.length > MAX_PLAINTEXT) {
+    throw new Error('NIP-44 plaintext must be 1 to 65535 bytes');
+  }
+  const out = Buffer.alloc(2 + paddedLength(bytes.length));
+  out.writeUInt16BE(bytes.length, 0);
+  bytes.copy(out, 2);
+  return out;
+}
+
+function unpad(padded: Buffer): string {
+  const length = padded.readUInt16BE(0);
+  if (
+    length < MIN_PLAINTEXT ||
+    padded.length !== 2 + paddedLength(length)
+  ) {
+    throw new Error('NIP-44 invalid padding');
+  }
+  return padded.subarray(2, 2 + length).toString('utf8');
+}
+
+/**
+ * Encrypt a message with a conversation key.
+ * The nonce is random unless given (for test vectors).
+ */
+export function encrypt(
+  plaintext: string,
+  conversationKey: Buffer,
+  nonce: Buffer = crypto.randomBytes(32)
+): string {
+  const { chachaKey, chachaNonce, hmacKey } = messageKeys(conversationKey, nonce);
+  const ciphertext = chacha20(chachaKey, chachaNonce, pad(plaintext));
+  const mac = crypto
+    .createHmac('sha256', hmacKey)
+    .update(Buffer.concat([nonce, ciphertext]))
+    .digest();
+  return Buffer.concat([Buffer.from([VERSION]), nonce, ciphertext, mac]).toString('base64');
+}
+
+/**
+ * Decrypt a NIP-44 v2 payload. Throws if the MAC doesn't verify.
+ */
+export function decrypt(payload: string, conversationKey: Buffer): string {
+  const data = Buffer.from(payload, 'base64');
+  if (data.length < 99 || data[0] !== VERSION) {
+    throw new Error('NIP-44 unknown version or payload too short');
+  }
+
+  const nonce = data.subarray(1, 33);
+  const ciphertext = data.subarray(33, data.length - 32);
+  const mac = data.subarray(data.length - 32);
+  const { chachaKey, chachaNonce, hmacKey } = messageKeys(conversationKey, nonce);
+
+  const expected = crypto
+    .createHmac('sha256', hmacKey)
+    .update(Buffer.concat([nonce, ciphertext]))
+    .digest();
+  if (!crypto.timingSafeEqual(mac, expected)) {
+    throw new Error('NIP-44 invalid MAC');
+  }
+
+  return unpad(chacha20(chachaKey, chachaNonce, ciphertext));
+}
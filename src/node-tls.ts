@@ -0,0 +1,63 @@
+// src/node-tls.ts
+// HTTPS agents for node REST calls with tlsCert or skipTlsVerify
+//
+// Node-only: the main entry imports this for its side effect, which
+// hands createLndFetch a way to make these calls. l402-js/web never
+// loads it, so its build has no https, fs or stream.
+
+import { Agent, request } from 'https';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { setTlsFetch } from './lnd-fetch';
+import type { LndFetch, NodeTlsOptions } from './lnd-fetch';
+
+/** A fetch through an HTTPS agent of its own, created on first use. */
+function createTlsFetch({ tlsCert, skipTlsVerify = false }: NodeTlsOptions): LndFetch {
+  let agent: Promise<Agent> | undefined;
+  return async (url, init) => {
+    agent ??= createAgent(tlsCert, skipTlsVerify).catch((err) => {
+      agent = undefined;
+      throw err;
+    });
+    return agentFetch(await agent, url, init);
+  };
+}
+
+async function createAgent(tlsCert: string | undefined, skipTlsVerify: boolean): Promise<Agent> {
+  let ca: string | undefined;
+  if (tlsCert !== undefined) {
+    ca = tlsCert.includes('-----BEGIN') ? tlsCert : await fs.readFile(tlsCert, 'utf8');
+  }
+  return new Agent({ ca, rejectUnauthorized: !skipTlsVerify, keepAlive: true });
+}
+
+/** fetch() over a Node HTTPS agent, answering with a web Response. */
+function agentFetch(agent: Agent, url: string, init: RequestInit): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        agent,
+        method: init.method ?? 'GET',
+        headers: Object.fromEntries(new Headers(init.headers)),
+        signal: init.signal ?? undefined,
+      },
+      (res) => {
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(res.headers)) {
+          for (const v of Array.isArray(value) ? value : [value ?? '']) headers.append(name, v);
+        }
+        const status = res.statusCode ?? 500;
+        // Responses to these statuses can't carry a body
+        const body = status === 204 || status === 304 ? null : (Readable.toWeb(res) as ReadableStream);
+        resolve(new Response(body, { status, statusText: res.statusMessage, headers }));
+      }
+    );
+    req.on('error', reject);
+    // Backends only send JSON strings
+    if (typeof init.body === 'string') req.write(init.body);
+    req.end();
+  });
+}
+
+setTlsFetch(createTlsFetch);
@@ -0,0 +1,65 @@
+// src/nostr.ts
+// Minimal Nostr event signing (NIP-01), enough for Wallet Connect
+
+import crypto from 'crypto';
+import { schnorr } from '@noble/curves/secp256k1';
+
+/** A signed Nostr event. */
+export interface NostrEvent {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig: string;
+}
+
+/**
+ * x-only public key (hex) for a secret key (hex).
+ */
+export function getPublicKey(secretKey: string): string {
+  return Buffer.from(schnorr.getPublicKey(secretKey)).toString('hex');
+}
+
+function eventId(event: Omit<NostrEvent, 'id' | 'sig'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content])
+    )
+    .digest('hex');
+}
+
+/**
+ * Fill in pubkey, id and signature for an event.
+ */
+export function signEvent(
+  template: { kind: number; tags: string[][]; content: string; created_at?: number },
+  secretKey: string
+): NostrEvent {
+  const unsigned = {
+    pubkey: getPublicKey(secretKey),
+    created_at: template.created_at ?? Math.floor(Date.now() / 1000),
+    kind: template.kind,
+    tags: template.tags,
+    content: template.content,
+  };
+  const id = eventId(unsigned);
+  const sig = Buffer.from(schnorr.sign(id, secretKey)).toString('hex');
+  return { ...unsigned, id, sig };
+}
+
+/**
+ * Check an event's id and signature.
+ */
+export function verifyEvent(event: NostrEvent): boolean {
+  try {
+    return (
+      eventId(event) === event.id &&
+      schnorr.verify(event.sig, event.id, event.pubkey)
+    );
+  } catch {
+    return false;
+  }
+}
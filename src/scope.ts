@@ -0,0 +1,78 @@
+// src/scope.ts
+// Token scopes for the L402 client
+//
+// A paid token is stored under the part of an API it unlocks, so one
+// payment covers every request that token is good for. Scopes are
+// keys in the token store:
+//
+//   https://api.example.com/joke      exactly that path, any query string
+//   https://api.example.com/api/      every path under /api/
+//   https://api.example.com/          the whole origin
+//   https://api.example.com#reports   every route of the `reports` service
+
+import { decodeServiceName } from './caveats';
+
+/**
+ * Scopes that could cover `url`, most specific first: the exact path,
+ * then each parent directory up to the origin.
+ */
+export function scopeCandidates(url: URL): string[] {
+  const candidates = [url.origin + url.pathname];
+  let path = url.pathname;
+  while (path !== '/') {
+    path = path.slice(0, path.lastIndexOf('/', path.length - 2) + 1);
+    candidates.push(url.origin + path);
+  }
+  return [...new Set(candidates)];
+}
+
+/** Scope for every route of a named service on `url`'s origin. */
+export function serviceScope(url: URL, service: string): string {
+  return `${url.origin}#${service}`;
+}
+
+/**
+ * Turn a server's scope hint into a scope for `url`. The hint is a
+ * path (`/api/`) or an absolute URL; either must stay on the origin
+ * that sent it and cover `url`. Returns undefined for hints that
+ * don't, so a server can't claim tokens for someone else's API.
+ */
+export function scopeFromHint(hint: string, url: URL): string | undefined {
+  let target: URL;
+  try {
+    target = new URL(hint, url.origin);
+  } catch {
+    return undefined;
+  }
+  if (target.origin !== url.origin) return undefined;
+  const scope = target.origin + target.pathname;
+  return scopeCandidates(url).includes(scope) ? scope : undefined;
+}
+
+/**
+ * Service names in a macaroon's `services=` caveats, from the
+ * last (narrowest) caveat back.
+ */
+export function caveatServices(caveats: string[]): string[] {
+  return caveats
+    .filter((c) => c.startsWith('services='))
+    .reverse()
+    .flatMap((c) => c.slice('services='.length).split(','))
+    .map((entry) => {
+      const colon = entry.lastIndexOf(':');
+      return decodeServiceName((colon > 0 ? entry.slice(0, colon) : entry).trim());
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Scope a macaroon's `services=` caveat gives it on `url`. A service
+ * named after the request path covers that path; any other name
+ * covers the whole service. Returns undefined without the caveat.
+ */
+export function scopeFromCaveats(caveats: string[], url: URL): string | undefined {
+  const services = caveatServices(caveats);
+  if (services.length === 0) return undefined;
+  if (services.includes(url.pathname)) return url.origin + url.pathname;
+  return serviceScope(url, services[0]);
+}
@@ -0,0 +1,204 @@
+// src/stores.ts
+// In-memory defaults for the pluggable stores
+//
+// These keep state in the current process only. Swap in your own
+// implementation (Redis, SQL, ...) when running more than one server,
+// or use createFileTokenStore to keep client tokens across restarts.
+
+import {
+  ChallengeStore,
+  IssuedChallenge,
+  SpentTokenStore,
+  StoredToken,
+  TokenStore,
+  UsageStore,
+} from './types';
+
+/**
+ * Usage counter backed by a Map. Counts past their expiry are
+ * pruned lazily, at most once per `pruneIntervalMs`.
+ */
+export function createMemoryUsageStore(pruneIntervalMs = 60_000): UsageStore {
+  const counts = new Map<string, { count: number; expiresAt: number }>();
+  let lastPrune = Date.now();
+
+  function prune(now: number) {
+    if (now - lastPrune < pruneIntervalMs) return;
+    lastPrune = now;
+    for (const [key, entry] of counts) {
+      if (entry.expiresAt <= now) counts.delete(key);
+    }
+  }
+
+  return {
+    async get(key) {
+      const entry = counts.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.count : 0;
+    },
+
+    async increment(key, expiresAt) {
+      const now = Date.now();
+      prune(now);
+
+      // Read and write in the same tick, so concurrent calls can't interleave
+      let entry = counts.get(key);
+      if (!entry || entry.expiresAt <= now) {
+        entry = { count: 0, expiresAt };
+        counts.set(key, entry);
+      }
+      entry.count += 1;
+      return entry.count;
+    },
+
+    async reset(key) {
+      counts.delete(key);
+    },
+  };
+}
+
+/**
+ * Spent-token set backed by a Map. Entries past their expiry are
+ * pruned lazily, at most once per `pruneIntervalMs`.
+ */
+export function createMemorySpentTokenStore(
+  pruneIntervalMs = 60_000
+): SpentTokenStore {
+  const spent = new Map<string, number>();
+  let lastPrune = Date.now();
+
+  function prune(now: number) {
+    if (now - lastPrune < pruneIntervalMs) return;
+    lastPrune = now;
+    for (const [key, expiresAt] of spent) {
+      if (expiresAt <= now) spent.delete(key);
+    }
+  }
+
+  return {
+    async markSpent(key, expiresAt) {
+      const now = Date.now();
+      prune(now);
+
+      // Check and set in the same tick, so concurrent calls can't both win
+      const existing = spent.get(key);
+      if (existing !== undefined && existing > now) return false;
+      spent.set(key, expiresAt);
+      return true;
+    },
+  };
+}
+
+/**
+ * Challenge store backed by Maps. Finished windows, stale challenges
+ * and expired invoices are pruned lazily, at most once per
+ * `pruneIntervalMs`.
+ */
+export function createMemoryChallengeStore(pruneIntervalMs = 60_000): ChallengeStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  const challenges = new Map<string, { challenge: IssuedChallenge; reuseUntil: number }>();
+  // Payment hash -> invoice expiry, for invoices not yet paid
+  const unpaid = new Map<string, number>();
+  let lastPrune = Date.now();
+
+  function prune(now: number) {
+    if (now - lastPrune < pruneIntervalMs) return;
+    lastPrune = now;
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+    for (const [key, entry] of challenges) {
+      if (entry.reuseUntil <= now) challenges.delete(key);
+    }
+    for (const [hash, expiresAt] of unpaid) {
+      if (expiresAt <= now) unpaid.delete(hash);
+    }
+  }
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      prune(now);
+
+      // Read and write in the same tick, so concurrent calls can't interleave
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+      return { ...window };
+    },
+
+    async get(key) {
+      const now = Date.now();
+      const entry = challenges.get(key);
+      if (!entry) return undefined;
+      const expiresAt = unpaid.get(entry.challenge.paymentHash);
+      if (entry.reuseUntil <= now || expiresAt === undefined || expiresAt <= now) {
+        challenges.delete(key);
+        return undefined;
+      }
+      return entry.challenge;
+    },
+
+    async add(key, challenge, reuseUntil) {
+      prune(Date.now());
+      challenges.set(key, { challenge, reuseUntil });
+      unpaid.set(challenge.paymentHash, challenge.expiresAt);
+    },
+
+    async settle(paymentHash) {
+      unpaid.delete(paymentHash);
+    },
+
+    async outstanding() {
+      const now = Date.now();
+      for (const [hash, expiresAt] of unpaid) {
+        if (expiresAt <= now) unpaid.delete(hash);
+      }
+      return unpaid.size;
+    },
+  };
+}
+
+/**
+ * Client token store backed by a Map. Expired tokens are dropped
+ * when they are looked up or counted.
+ */
+export function createMemoryTokenStore(): TokenStore {
+  const tokens = new Map<string, StoredToken>();
+
+  function prune(now: number) {
+    for (const [scope, token] of tokens) {
+      if (token.expiresAt !== undefined && token.expiresAt <= now) tokens.delete(scope);
+    }
+  }
+
+  return {
+    async get(scope) {
+      const token = tokens.get(scope);
+      if (token?.expiresAt !== undefined && token.expiresAt <= Date.now()) {
+        tokens.delete(scope);
+        return undefined;
+      }
+      return token;
+    },
+
+    async set(token) {
+      tokens.set(token.scope, token);
+    },
+
+    async delete(scope) {
+      tokens.delete(scope);
+    },
+
+    async clear() {
+      tokens.clear();
+    },
+
+    async size() {
+      prune(Date.now());
+      return tokens.size;
+    },
+  };
+}
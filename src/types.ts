@@ -1,7 +1,8 @@
 // src/types.ts
 // Core types for the L402 protocol implementation
-
-import { Request } from 'express';
+//
+// Nothing here depends on a framework: the Express types are in
+// middleware.ts, so l402-js/web type-checks without express installed.
 
 /**
  * Configuration for connecting to an LND node.
@@ -12,33 +13,546 @@ export interface LndConfig {
   restHost: string;
   /** Admin macaroon in hex format */
   macaroon: string;
-  /** Skip TLS verification (for self-signed certs in dev) */
+  /** LND's tls.cert, as PEM or a path to it, to trust its self-signed certificate */
+  tlsCert?: string;
+  /** Skip TLS verification for this node only (dev) */
   skipTlsVerify?: boolean;
 }
 
 /**
- * Configuration for the L402 middleware.
- * Controls pricing and behavior per route.
+ * Configuration for connecting to a Core Lightning node via clnrest.
+ */
+export interface ClnConfig {
+  /** clnrest host, e.g. 'https://127.0.0.1:3010' */
+  restHost: string;
+  /** Rune authorizing the calls we make (invoice, listinvoices, pay, decode) */
+  rune: string;
+  /** The node's TLS certificate, as PEM or a path to it, to trust a self-signed one */
+  tlsCert?: string;
+  /** Skip TLS verification for this node only (dev) */
+  skipTlsVerify?: boolean;
+}
+
+/**
+ * The parts of the WebSocket API the NWC backend uses. Satisfied by
+ * the global WebSocket (browsers, Deno, Bun, Node 22+) and the `ws` package.
+ */
+export interface WebSocketLike {
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/**
+ * Configuration for paying through a Nostr Wallet Connect (NIP-47) wallet.
+ */
+export interface NwcConfig {
+  /** Connection string: nostr+walletconnect://<wallet pubkey>?relay=<url>&secret=<hex> */
+  connectionUri: string;
+  /** WebSocket implementation, for runtimes without a global one (e.g. `ws` on Node < 22) */
+  WebSocket?: new (url: string) => WebSocketLike;
+  /** How long to wait for the wallet to answer, in ms (default: 60000) */
+  timeoutMs?: number;
+}
+
+/**
+ * An invoice created by a Lightning backend.
+ */
+export interface CreatedInvoice {
+  /** BOLT11 payment request */
+  paymentRequest: string;
+  /** Payment hash (hex) */
+  paymentHash: string;
+}
+
+/**
+ * Lifecycle state of an invoice we issued.
+ * ACCEPTED means an HTLC is held but not yet settled (hold invoices).
+ */
+export type InvoiceState = 'OPEN' | 'ACCEPTED' | 'SETTLED' | 'CANCELED';
+
+/**
+ * Current state of an invoice, as reported by the node.
+ */
+export interface InvoiceStatus {
+  /** Payment hash (hex) */
+  paymentHash: string;
+  state: InvoiceState;
+  /** Amount the invoice asked for, in sats */
+  valueSats: number;
+  /** Amount actually received, in sats */
+  amountPaidSats: number;
+  /** When the invoice settled (ms since epoch) */
+  settledAt?: number;
+}
+
+/**
+ * Outcome of a successful payment.
+ */
+export interface PaymentResult {
+  /** Payment preimage (hex) — the proof of payment */
+  preimage: string;
+  /** Routing fee paid, in sats */
+  feeSats: number;
+}
+
+/**
+ * Where an outgoing payment stands. PENDING means it may still
+ * succeed or fail.
+ */
+export type PaymentState = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * Current state of a payment we sent, as reported by the node.
+ */
+export interface PaymentStatus {
+  /** Payment hash (hex) */
+  paymentHash: string;
+  state: PaymentState;
+  /** Payment preimage (hex), once SUCCEEDED */
+  preimage?: string;
+  /** Routing fee paid, in sats, once SUCCEEDED */
+  feeSats?: number;
+}
+
+/**
+ * Limits for paying an invoice. With both fee limits set, the lower
+ * one applies. NWC wallets enforce their own limits and ignore these.
+ */
+export interface PaymentOptions {
+  /** Most routing fee to pay, in sats */
+  feeLimitSats?: number;
+  /** Most routing fee to pay, as a percentage of the invoice amount */
+  feeLimitPercent?: number;
+  /** Give up finding a route after this many seconds */
+  timeoutSeconds?: number;
+  /** Most parts to split the payment into (multi-part payments, LND only) */
+  maxParts?: number;
+  /** Only pay out through these channels (LND only) */
+  outgoingChanIds?: string[];
+}
+
+/** Bitcoin network an invoice is payable on. */
+export type BitcoinNetwork = 'bitcoin' | 'testnet' | 'signet' | 'regtest';
+
+/**
+ * The fields of a BOLT11 invoice that L402 cares about.
+ */
+export interface DecodedInvoice {
+  /** Payment hash (hex) */
+  paymentHash: string;
+  /** Amount in sats, undefined for amountless invoices */
+  amountSats?: number;
+  description?: string;
+  /** Creation time (unix seconds) */
+  timestamp: number;
+  /** Seconds after `timestamp` until the invoice expires */
+  expiry: number;
+  /** Payee node public key (hex) */
+  payee: string;
+}
+
+/**
+ * A Lightning node or wallet that can issue and pay invoices.
+ * Pass one anywhere an `LndConfig` is accepted to use something
+ * other than the built-in LND and CLN backends — or a stub in tests.
+ */
+export interface LightningBackend {
+  /** Issue an invoice for `amountSats` */
+  createInvoice(params: { amountSats: number; memo: string }): Promise<CreatedInvoice>;
+  /**
+   * Look up an invoice this node issued, by payment hash (hex).
+   * Resolves undefined if the node has no record of it.
+   */
+  lookupInvoice(paymentHash: string): Promise<InvoiceStatus | undefined>;
+  /** Pay a BOLT11 invoice and return the preimage */
+  payInvoice(paymentRequest: string, options?: PaymentOptions): Promise<PaymentResult>;
+  /**
+   * Look up a payment this node sent, by payment hash (hex). Resolves
+   * undefined if the node has no record of it. Lets the client recover
+   * payments whose `payInvoice` call failed midway.
+   */
+  lookupPayment?(paymentHash: string): Promise<PaymentStatus | undefined>;
+  /**
+   * Issue a hold invoice for a payment hash we chose. Payments to it
+   * stay ACCEPTED, neither received nor failed, until we settle or
+   * cancel it. Needed for `escrow` routes.
+   */
+  createHoldInvoice?(params: {
+    amountSats: number;
+    memo: string;
+    paymentHash: string;
+  }): Promise<CreatedInvoice>;
+  /** Settle an accepted hold invoice by revealing its preimage (hex) */
+  settleInvoice?(preimage: string): Promise<void>;
+  /** Cancel a hold invoice by payment hash (hex), failing any payment back to the payer */
+  cancelInvoice?(paymentHash: string): Promise<void>;
+  /** Decode a BOLT11 invoice */
+  decodeInvoice(paymentRequest: string): Promise<DecodedInvoice>;
+}
+
+/**
+ * A key used to sign service macaroons.
+ * Keys carry an id so they can be rotated without invalidating
+ * tokens that were issued under the previous key.
+ */
+export interface RootKey {
+  /** Short identifier for this key, used to tell keys apart when rotating */
+  id: string;
+  /** Secret key material — use at least 32 random bytes */
+  key: string;
+  /** Stop accepting tokens signed with this key after this time (ms since epoch) */
+  expiresAt?: number;
+}
+
+/**
+ * A parsed `condition=value` macaroon caveat.
  */
-export interface L402MiddlewareConfig {
-  /** LND node connection */
-  node: LndConfig;
+export interface Caveat {
+  condition: string;
+  value: string;
+  /** The caveat exactly as it appears in the macaroon */
+  raw: string;
+}
+
+/**
+ * What a caveat satisfier knows about the request being authorized.
+ */
+export interface CaveatContext {
+  /** Service name the route sells */
+  service: string;
+  /** Minimum service tier the route requires */
+  tier: number;
+  /** Capabilities the route requires */
+  capabilities: string[];
+  method: string;
+  path: string;
+  ip?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Current time in ms since epoch */
+  now: number;
+}
+
+/**
+ * Checks one kind of caveat, e.g. `ip=` or `user_tier=`.
+ */
+export interface CaveatSatisfier {
+  /** Condition this satisfier handles — the part before `=` */
+  condition: string;
+  /**
+   * Called when a condition appears more than once, with the
+   * earlier and later caveat. Return false if the later caveat
+   * widens access instead of narrowing it.
+   */
+  satisfyPrevious?: (previous: Caveat, current: Caveat, context: CaveatContext) => boolean;
+  /** Return true if the caveat holds for this request */
+  satisfyFinal: (caveat: Caveat, context: CaveatContext) => boolean;
+}
+
+/**
+ * Counts requests per paid token for metered access.
+ * The in-memory default only works within one process — implement
+ * this over Redis, SQL, etc. to share counts between servers.
+ */
+export interface UsageStore {
+  /** Current count for a key, 0 if it has never been used or has expired */
+  get(key: string): Promise<number>;
+  /**
+   * Add one to a key's count and return the new count. Must be atomic.
+   * The count only needs to live until `expiresAt` (ms since epoch),
+   * when the token it belongs to expires.
+   */
+  increment(key: string, expiresAt: number): Promise<number>;
+  /** Forget a key's count */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Remembers which single-use tokens have been consumed.
+ * Entries only need to live until the token would have expired
+ * anyway, so implementations should drop them after `expiresAt`.
+ */
+export interface SpentTokenStore {
+  /**
+   * Mark a key as spent until `expiresAt` (ms since epoch).
+   * Returns true if this call spent it, false if it was already spent.
+   * Must be atomic: of two concurrent calls, only one may return true.
+   */
+  markSpent(key: string, expiresAt: number): Promise<boolean>;
+}
+
+/**
+ * A 402 challenge the middleware issued, kept so the same client can
+ * be sent it again instead of a fresh invoice.
+ */
+export interface IssuedChallenge {
+  /** Payment hash (hex) */
+  paymentHash: string;
+  /** BOLT11 payment request */
+  invoice: string;
+  /** Base64 macaroon */
+  macaroon: string;
+  /** Price in sats */
+  price: number;
+  description: string;
+  /** When the invoice expires (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Keeps track of 402 challenges so the middleware can limit how many
+ * invoices it asks the node for. The in-memory default only works
+ * within one process — implement this over Redis, SQL, etc. to apply
+ * the limits across servers.
+ */
+export interface ChallengeStore {
+  /**
+   * Count one challenge against `key` in a window of `windowMs` that
+   * starts with the key's first hit. Returns the count so far, this
+   * one included, and when the window ends (ms since epoch).
+   * Must be atomic.
+   */
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  /** The challenge saved under `key`, unless it is past reuse, paid or expired */
+  get(key: string): Promise<IssuedChallenge | undefined>;
+  /**
+   * Save a challenge under `key`, to hand out again until `reuseUntil`
+   * (ms since epoch). Its invoice counts as outstanding until paid or
+   * past its `expiresAt`.
+   */
+  add(key: string, challenge: IssuedChallenge, reuseUntil: number): Promise<void>;
+  /** The invoice was paid: stop handing it out and counting it */
+  settle(paymentHash: string): Promise<void>;
+  /** Number of invoices issued that are neither paid nor expired */
+  outstanding(): Promise<number>;
+}
+
+/**
+ * Limits on issuing 402 challenges, so clients can't make the
+ * middleware flood the node with invoices.
+ */
+export interface ChallengeIssuanceOptions<TContext = L402HttpRequest> {
+  /**
+   * Who challenges are counted against, e.g. an API key (default: the
+   * client's IP). Requests without one aren't reused or rate-limited.
+   */
+  clientKey?: (context: TContext) => string | Promise<string>;
+  /** Most new challenges per client per window. Unlimited when omitted. */
+  maxPerWindow?: number;
+  /** Length of the rate-limit window, in seconds (default: 60) */
+  windowSeconds?: number;
+  /**
+   * Send a client the same unpaid challenge for a route again for this
+   * many seconds, instead of creating a new invoice (default: 60), as
+   * long as the node reports it still open. 0 turns reuse off.
+   */
+  reuseSeconds?: number;
+  /** Most invoices outstanding (unpaid and unexpired) at once. Unlimited when omitted. */
+  maxOutstanding?: number;
+  /** Where counts and issued challenges are kept (default: in memory) */
+  store?: ChallengeStore;
+}
+
+/**
+ * A paid L402 token the client can reuse.
+ */
+export interface StoredToken {
+  /**
+   * What the token covers, and the key it is stored under: an origin
+   * plus a path (`https://api.example.com/joke`) or path prefix ending
+   * in `/`, or an origin plus `#service` for a named service
+   */
+  scope: string;
+  /** Authorization scheme the server asked for */
+  scheme: 'L402' | 'LSAT';
+  /** Base64 macaroon */
+  macaroon: string;
+  /** Payment preimage (hex) */
+  preimage: string;
+  /** Sats paid for the token */
+  price: number;
+  /** When the token was bought (ms since epoch) */
+  issuedAt: number;
+  /** When the token stops working (ms since epoch), if it expires */
+  expiresAt?: number;
+}
+
+/**
+ * Where the client keeps paid tokens. Implementations should not
+ * return tokens past their `expiresAt`.
+ */
+export interface TokenStore {
+  get(scope: string): Promise<StoredToken | undefined>;
+  /** Save a token under its `scope`, replacing any earlier one */
+  set(token: StoredToken): Promise<void>;
+  delete(scope: string): Promise<void>;
+  clear(): Promise<void>;
+  /** Number of unexpired tokens */
+  size(): Promise<number>;
+}
+
+/**
+ * Configuration for an L402 paywall, shared by the Express middleware
+ * and the framework adapters. Controls pricing and behavior per route.
+ * `priceFn`, `caveats` and `issuance.clientKey` are called with the
+ * framework's own request (or context) object, typed `TContext`.
+ */
+export interface L402Config<TContext = L402HttpRequest> {
+  /** LND or CLN node connection, or any other Lightning backend */
+  node: LndConfig | ClnConfig | LightningBackend;
+  /**
+   * Secret used to sign and verify service macaroons.
+   * Pass an array to rotate keys: the first key signs new tokens,
+   * the rest keep verifying old tokens until their `expiresAt`.
+   * A plain string is treated as a key with id `'0'`.
+   */
+  rootKey: string | RootKey | RootKey[];
   /** Price in satoshis for this endpoint */
   price: number;
   /** Human-readable description shown to the client */
   description?: string;
   /** Custom function to determine price dynamically */
-  priceFn?: (req: Request) => number | Promise<number>;
+  priceFn?: (context: TContext) => number | Promise<number>;
+  /** Service name written into and checked against the `services` caveat (default: the request path) */
+  service?: string;
+  /**
+   * Path prefix issued tokens are good for, e.g. `/api/` when `service`
+   * spans every route under it. Sent to clients as a `scope` hint so
+   * they reuse one token across those routes.
+   */
+  scope?: string;
+  /** Service tier issued tokens carry, and the minimum tier accepted (default: 0) */
+  tier?: number;
+  /** Capabilities this route requires. Issued tokens are granted exactly these. */
+  capabilities?: string[];
+  /**
+   * How long issued tokens stay valid, in seconds. Written into the
+   * macaroon as a `<service>_valid_until` caveat. Expired tokens get
+   * a fresh 402 challenge. Tokens never expire when omitted.
+   */
+  validFor?: number;
+  /**
+   * Number of requests one payment buys. Once used up, the token
+   * gets a fresh 402 challenge. Unlimited when omitted. Metered
+   * tokens expire after `spentTokenTtl` unless `validFor` is set.
+   */
+  maxUses?: number;
+  /** Where request counts for `maxUses` are kept (default: in memory) */
+  usageStore?: UsageStore;
+  /**
+   * Accept each token exactly once. Replays get a fresh 402 challenge.
+   * Tokens expire after `spentTokenTtl` unless `validFor` is set.
+   * Cannot be combined with `maxUses`.
+   */
+  singleUse?: boolean;
+  /** Where spent single-use tokens are recorded (default: in memory) */
+  spentTokenStore?: SpentTokenStore;
+  /**
+   * How long metered and single-use tokens stay valid when `validFor`
+   * is not set, in seconds (default: 30 days), so their counts and
+   * spent records can be dropped once they expire.
+   */
+  spentTokenTtl?: number;
+  /**
+   * Also accept `Authorization: LSAT <macaroon>:<preimage>` from older
+   * clients, and send an `LSAT` challenge next to the `L402` one.
+   */
+  acceptLsat?: boolean;
+  /**
+   * Also ask our node that a token's invoice settled for at least the
+   * price before letting it through. Costs a lookup per new token;
+   * settled invoices are cached.
+   */
+  verifyWithNode?: boolean;
+  /**
+   * Rate-limit, reuse and cap 402 challenges. Over a limit, requests
+   * get a 429 with a `Retry-After` header instead of a new invoice.
+   */
+  issuance?: ChallengeIssuanceOptions<TContext>;
+  /**
+   * Charge only if the handler succeeds. Each challenge is a hold
+   * invoice: the client sends the macaroon alone while its payment is
+   * held, the handler runs, and the payment is settled on a 2xx
+   * response (which carries the preimage in an `L402-Preimage`
+   * header) or cancelled otherwise. Needs a backend with hold
+   * invoices (LND). Each payment runs the handler once.
+   */
+  escrow?: boolean;
+  /** How long an escrow request waits for its payment to arrive, in seconds (default: 30) */
+  escrowWaitSeconds?: number;
+  /** Checks for `<service>_constraints` entries, keyed by constraint name */
+  constraints?: Record<string, (value: string, context: CaveatContext) => boolean>;
+  /** Extra caveats to write into issued macaroons, e.g. `ip=1.2.3.4` */
+  caveats?: string[] | ((context: TContext) => string[] | Promise<string[]>);
+  /** Satisfiers for custom caveats. These replace built-ins with the same condition. */
+  satisfiers?: CaveatSatisfier[];
+}
+
+/**
+ * What the client has spent so far, in sats including routing fees.
+ */
+export interface BudgetSpent {
+  totalSats: number;
+  lastHourSats: number;
+  lastDaySats: number;
+  byHost: Record<string, number>;
+}
+
+/**
+ * Details of a payment the client is about to make, passed to `approve`.
+ */
+export interface PaymentContext {
+  url: string;
+  host: string;
+  /** Invoice amount (sats) */
+  amountSats: number;
+  paymentHash: string;
+  /** Most the client could pay this host under the budget, before this payment */
+  remainingSats: number;
+  spent: BudgetSpent;
+}
+
+/**
+ * Spending limits for the L402 client. Caps are in sats, count
+ * routing fees once a payment completes, and last for the client's
+ * lifetime unless noted.
+ */
+export interface BudgetConfig {
+  /** Total cap across all hosts */
+  total?: number;
+  /** Rolling cap over the last hour */
+  perHour?: number;
+  /** Rolling cap over the last 24 hours */
+  perDay?: number;
+  /** Cap per host, either the same for every host or keyed by host name */
+  perHost?: number | Record<string, number>;
+  /** Only pay these hosts. `*.example.com` matches subdomains. */
+  allowHosts?: string[];
+  /** Never pay these hosts. Takes precedence over `allowHosts`. */
+  denyHosts?: string[];
+  /** Called before every payment that fits the budget; return false to refuse it */
+  approve?: (challenge: L402Challenge, context: PaymentContext) => boolean | Promise<boolean>;
 }
 
 /**
  * Configuration for the L402 client.
  */
 export interface L402ClientConfig {
-  /** LND node connection (for paying invoices) */
-  node: LndConfig;
-  /** Maximum price in sats the client will auto-pay (safety limit) */
+  /** LND or CLN node, NWC wallet, or any other Lightning backend (for paying invoices) */
+  node: LndConfig | ClnConfig | NwcConfig | LightningBackend;
+  /** Maximum invoice amount in sats the client will auto-pay (safety limit) */
   maxAutoPaySats?: number;
+  /** Only pay invoices for this network (default: 'bitcoin') */
+  network?: BitcoinNetwork;
+  /** Spending caps, host policy and approval hook */
+  budget?: BudgetConfig;
+  /** Where paid tokens are kept for reuse (default: in memory) */
+  tokenStore?: TokenStore;
+  /** Fee limits and timeout for paying invoices */
+  payment?: PaymentOptions;
 }
 
 /**
@@ -51,6 +565,13 @@ export interface L402Challenge {
   macaroon: string;
   price: number;
   description: string;
+  /** Path prefix the token will cover, if the server says */
+  scope?: string;
+  /**
+   * The route holds the payment until its handler has run, and only
+   * takes it if the handler succeeds
+   */
+  escrow?: boolean;
 }
 
 /**
@@ -62,15 +583,58 @@ export interface L402Proof {
   preimage: string;
   paymentHash: string;
   service: string;
+  /** Requests left on this token, when the route sets `maxUses` */
+  remainingUses?: number;
+  /** Sats our node received for the invoice, with `verifyWithNode` */
+  amountPaidSats?: number;
+  /** When the invoice settled (ms since epoch), with `verifyWithNode` */
+  settledAt?: number;
+}
+
+/**
+ * What the L402 core needs to know about an HTTP request.
+ */
+export interface L402HttpRequest {
+  method: string;
+  /** Path without the query string */
+  path: string;
+  /** Request headers, with lower-case names */
+  headers: Record<string, string | string[] | undefined>;
+  /** Client IP, for `ip=` caveats and per-client challenge limits */
+  ip?: string;
 }
 
 /**
- * Extended Express Request with L402 proof.
+ * A paid escrow request, held until the handler has answered.
  */
-export interface L402Request extends Request {
-  l402?: L402Proof;
+export interface L402EscrowHold {
+  /** Headers to add to the handler's response if it succeeds */
+  headers: Record<string, string>;
+  /**
+   * Settle the payment for a 2xx status, or cancel it for anything
+   * else. Only the first call counts; errors are logged, not thrown.
+   */
+  finish(status: number): Promise<void>;
 }
 
+/**
+ * What the L402 core decided about a request: let it through with
+ * proof of payment, or answer it with a 402 challenge or an error.
+ */
+export type L402Outcome =
+  | {
+      type: 'authorized';
+      proof: L402Proof;
+      /** Set for escrow routes: the payment is taken only if the handler succeeds */
+      escrow?: L402EscrowHold;
+    }
+  | {
+      type: 'challenge';
+      status: number;
+      headers: Record<string, string | string[]>;
+      body: unknown;
+    };
+
 /**
  * LND invoice creation response (subset of fields we use).
  */
@@ -81,17 +645,109 @@ export interface LndInvoiceResponse {
 }
 
 /**
- * LND payment response (subset of fields we use).
+ * LND hold invoice creation response (subset of fields we use).
  */
-export interface LndPaymentResponse {
-  payment_error: string;
+export interface LndHoldInvoiceResponse {
+  payment_request: string;
+  add_index: string;
+}
+
+/**
+ * LND invoice lookup response (subset of fields we use).
+ */
+export interface LndInvoiceLookupResponse {
+  r_hash: string;
+  value: string;
+  amt_paid_sat: string;
+  state: 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED';
+  settle_date: string;
+}
+
+/**
+ * LND decoded payment request (subset of fields we use).
+ */
+export interface LndPayReqResponse {
+  destination: string;
+  payment_hash: string;
+  num_satoshis: string;
+  timestamp: string;
+  expiry: string;
+  description: string;
+}
+
+/**
+ * LND router payment (subset of fields we use).
+ */
+export interface LndPayment {
+  payment_hash: string;
+  /** Hex, set once the payment succeeded */
+  payment_preimage: string;
+  status: 'UNKNOWN' | 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED' | 'INITIATED';
+  fee_sat: string;
+  fee_msat: string;
+  failure_reason: string;
+}
+
+/**
+ * One update from LND's `/v2/router/send` stream.
+ */
+export interface LndPaymentUpdate {
+  result?: LndPayment;
+  error?: { code: number; message: string };
+}
+
+/**
+ * CLN `invoice` response (subset of fields we use).
+ */
+export interface ClnInvoiceResponse {
+  payment_hash: string;
+  bolt11: string;
+  expires_at: number;
+}
+
+/**
+ * CLN `listinvoices` entry (subset of fields we use).
+ */
+export interface ClnListedInvoice {
+  payment_hash: string;
+  status: 'unpaid' | 'paid' | 'expired';
+  amount_msat?: number | string;
+  amount_received_msat?: number | string;
+  paid_at?: number;
+}
+
+/**
+ * CLN `pay` response (subset of fields we use).
+ */
+export interface ClnPayResponse {
   payment_preimage: string;
-  payment_route: {
-    total_fees: string;
-    total_amt: string;
-    hops: Array<{
-      pub_key: string;
-      fee: string;
-    }>;
-  };
+  payment_hash: string;
+  status: 'complete' | 'pending' | 'failed';
+  amount_msat: number | string;
+  amount_sent_msat: number | string;
+}
+
+/**
+ * CLN `listpays` entry (subset of fields we use).
+ */
+export interface ClnListedPay {
+  payment_hash: string;
+  status: 'complete' | 'pending' | 'failed';
+  preimage?: string;
+  amount_msat?: number | string;
+  amount_sent_msat?: number | string;
+}
+
+/**
+ * CLN `decode` response for a BOLT11 invoice (subset of fields we use).
+ */
+export interface ClnDecodeResponse {
+  type: string;
+  valid: boolean;
+  payee: string;
+  payment_hash: string;
+  created_at: number;
+  expiry: number;
+  amount_msat?: number | string;
+  description?: string;
 }
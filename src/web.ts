@@ -0,0 +1,85 @@
+// src/web.ts
+// l402-js/web — the L402 server for any JavaScript runtime
+//
+// Everything here runs on web standards alone (fetch, WebCrypto,
+// Request/Response), with no Node built-ins, for Cloudflare Workers,
+// Deno, Bun and edge functions:
+//
+//   import { l402Handler } from 'l402-js/web';
+//   export default { fetch: l402Handler({ node, rootKey, price: 100 }, handler) };
+//
+// The Express middleware, the client, NWC and createFileTokenStore
+// need Node and are only in the main 'l402-js' entry. So do the LND
+// and CLN backends' `tlsCert` and `skipTlsVerify` options.
+
+export { createL402Core } from './core';
+export { l402Hono } from './adapters/hono';
+export type { HonoContextLike } from './adapters/hono';
+export { l402Next } from './adapters/next';
+export type { L402RouteHandler } from './adapters/next';
+export { l402Handler } from './adapters/web';
+export type { L402FetchHandler } from './adapters/web';
+export { createLndBackend } from './backends/lnd';
+export { createClnBackend } from './backends/cln';
+export { isLightningBackend } from './backends/resolve';
+export { decodeBolt11 } from './bolt11';
+export type { Bolt11Invoice } from './bolt11';
+export { parseAuthenticateHeader, parseL402Challenge } from './challenge';
+export type { AuthChallenge, L402HeaderChallenge } from './challenge';
+export { PaymentError, InsufficientBalanceError, ChallengeParseError } from './errors';
+export {
+  createMemoryUsageStore,
+  createMemorySpentTokenStore,
+  createMemoryChallengeStore,
+} from './stores';
+export {
+  mintMacaroon,
+  addFirstPartyCaveat,
+  verifyMacaroon,
+  getCaveats,
+  serializeMacaroon,
+  deserializeMacaroon,
+  encodeMacaroon,
+  decodeMacaroon,
+  encodeIdentifier,
+  decodeIdentifier,
+  newIdentifier,
+} from './macaroon';
+export type { Macaroon, MacaroonCaveat, L402Identifier } from './macaroon';
+export {
+  parseCaveat,
+  verifyCaveats,
+  defaultSatisfiers,
+  keyIdSatisfier,
+  encodeServiceName,
+  decodeServiceName,
+  servicesSatisfier,
+  capabilitiesSatisfier,
+  validUntilSatisfier,
+  constraintsSatisfier,
+} from './caveats';
+export type { CaveatResult } from './caveats';
+export type {
+  LndConfig,
+  ClnConfig,
+  LightningBackend,
+  CreatedInvoice,
+  InvoiceState,
+  InvoiceStatus,
+  DecodedInvoice,
+  BitcoinNetwork,
+  RootKey,
+  Caveat,
+  CaveatContext,
+  CaveatSatisfier,
+  UsageStore,
+  SpentTokenStore,
+  IssuedChallenge,
+  ChallengeStore,
+  ChallengeIssuanceOptions,
+  L402Config,
+  L402HttpRequest,
+  L402Outcome,
+  L402EscrowHold,
+  L402Proof,
+} from './types';
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import http from 'http';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { l402Fastify } from '../../src/adapters/fastify';
+import type { FastifyRequestLike } from '../../src/adapters/fastify';
+import type { L402Config } from '../../src/types';
+import { PAYMENT_HASH, paidAuthorization, rootKey, sha256, stubNode } from '../helpers/paywall';
+
+// --- Test fixtures ---
+
+// Runs the hook the way Fastify does: on a real Node response, with
+// the reply sending its status and headers through writeHead
+async function serve(
+  config: L402Config<FastifyRequestLike>,
+  handler: (request: FastifyRequestLike) => { status: number; body: unknown }
+) {
+  const hook = l402Fastify(config);
+  const server = http.createServer(async (req, res) => {
+    const request: FastifyRequestLike = {
+      method: req.method!,
+      url: req.url!,
+      headers: req.headers,
+      ip: req.socket.remoteAddress!,
+    };
+    const headers: Record<string, string | string[]> = {};
+    let sent = false;
+    const reply = {
+      statusCode: 200,
+      raw: res,
+      code(statusCode: number) {
+        reply.statusCode = statusCode;
+        return reply;
+      },
+      header(name: string, value: string | string[]) {
+        headers[name] = value;
+        return reply;
+      },
+      send(payload?: unknown) {
+        sent = true;
+        res.writeHead(reply.statusCode, { ...headers, 'content-type': 'application/json' });
+        res.end(JSON.stringify(payload));
+        return reply;
+      },
+    };
+
+    await hook(request, reply);
+    if (sent) return;
+    const { status, body } = handler(request);
+    reply.code(status).send(body);
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/test?x=1`;
+  return { url, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+let close: (() => Promise<unknown>) | undefined;
+
+// --- Tests ---
+
+describe('l402Fastify', () => {
+  afterEach(async () => {
+    await close?.();
+    close = undefined;
+  });
+
+  it('answers unpaid requests with a 402 challenge, priced from the Fastify request', async () => {
+    const priceFn = vi.fn(() => 100);
+    const server = await serve({ node: stubNode(), rootKey, price: 1, priceFn }, () => ({ status: 200, body: {} }));
+    close = server.close;
+
+    const res = await fetch(server.url);
+
+    expect(res.status).toBe(402);
+    expect(res.headers.get('www-authenticate')).toMatch(/^L402 macaroon="/);
+    expect(await res.json()).toMatchObject({ price: 100, description: 'L402 access: GET /api/test' });
+    expect(priceFn.mock.calls[0][0]).toMatchObject({ method: 'GET', url: '/api/test?x=1' });
+  });
+
+  it('puts the proof on request.l402 for paid requests', async () => {
+    const server = await serve({ node: stubNode(), rootKey, price: 100 }, (request) => ({
+      status: 200,
+      body: { paid: request.l402?.paymentHash },
+    }));
+    close = server.close;
+    const challenge = await (await fetch(server.url)).json();
+
+    const res = await fetch(server.url, { headers: { authorization: paidAuthorization(challenge) } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ paid: PAYMENT_HASH });
+  });
+
+  it('rejects invalid tokens with a 401', async () => {
+    const server = await serve({ node: stubNode(), rootKey, price: 100 }, () => ({ status: 200, body: {} }));
+    close = server.close;
+
+    const res = await fetch(server.url, { headers: { authorization: 'L402 garbage:00' } });
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Invalid L402 token' });
+  });
+
+  it('settles escrow payments on success and sends the preimage', async () => {
+    const node = stubNode();
+    const server = await serve({ node, rootKey, price: 100, escrow: true }, () => ({ status: 200, body: {} }));
+    close = server.close;
+    const { macaroon } = await (await fetch(server.url)).json();
+    node.hold(macaroon);
+
+    const res = await fetch(server.url, { headers: { authorization: `L402 ${macaroon}` } });
+
+    const preimage = res.headers.get('l402-preimage')!;
+    expect(res.status).toBe(200);
+    expect(node.invoices.get(sha256(preimage))).toBe('SETTLED');
+  });
+
+  it('cancels escrow payments when the handler fails', async () => {
+    const node = stubNode();
+    const server = await serve({ node, rootKey, price: 100, escrow: true }, () => ({ status: 503, body: {} }));
+    close = server.close;
+    const { macaroon } = await (await fetch(server.url)).json();
+    node.hold(macaroon);
+
+    const res = await fetch(server.url, { headers: { authorization: `L402 ${macaroon}` } });
+
+    expect(res.status).toBe(503);
+    expect(res.headers.get('l402-preimage')).toBeNull();
+    expect(node.cancelInvoice).toHaveBeenCalledOnce();
+  });
+});
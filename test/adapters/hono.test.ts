@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { l402Hono } from '../../src/adapters/hono';
+import type { HonoContextLike } from '../../src/adapters/hono';
+import type { L402Proof } from '../../src/types';
+import { PAYMENT_HASH, paidAuthorization, rootKey, sha256, stubNode } from '../helpers/paywall';
+
+// --- Test fixtures ---
+
+function mockContext(headers: Record<string, string> = {}) {
+  const vars = new Map<string, L402Proof>();
+  const c: HonoContextLike & { get(key: 'l402'): L402Proof | undefined } = {
+    req: {
+      path: '/api/test',
+      raw: new Request('https://api.example.com/api/test?x=1', { headers }),
+    },
+    res: new Response(null, { status: 404 }),
+    set: (key, value) => vars.set(key, value),
+    get: (key) => vars.get(key),
+    header: (name, value) => c.res.headers.set(name, value),
+  };
+  return c;
+}
+
+// A route handler, setting the response the way Hono's c.json() does
+const respond = (c: HonoContextLike, status: number) => async () => {
+  c.res = new Response(JSON.stringify({ status }), { status });
+};
+
+async function challengeFor(middleware: ReturnType<typeof l402Hono>) {
+  const res = (await middleware(mockContext(), vi.fn())) as Response;
+  return (await res.json()) as { macaroon: string };
+}
+
+// --- Tests ---
+
+describe('l402Hono', () => {
+  it('answers unpaid requests with a 402 Response, priced from the Hono context', async () => {
+    const priceFn = vi.fn(() => 100);
+    const middleware = l402Hono({ node: stubNode(), rootKey, price: 1, priceFn });
+    const c = mockContext();
+    const next = vi.fn();
+
+    const res = (await middleware(c, next)) as Response;
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toBe(402);
+    expect(res.headers.get('www-authenticate')).toMatch(/^L402 macaroon="/);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(await res.json()).toMatchObject({ price: 100, description: 'L402 access: GET /api/test' });
+    expect(priceFn).toHaveBeenCalledWith(c);
+  });
+
+  it('sends both challenges to LSAT clients', async () => {
+    const middleware = l402Hono({ node: stubNode(), rootKey, price: 100, acceptLsat: true });
+
+    const res = (await middleware(mockContext(), vi.fn())) as Response;
+
+    expect(res.headers.get('www-authenticate')).toMatch(/^L402 macaroon=.*, LSAT macaroon=/);
+  });
+
+  it('sets the proof on the context and calls next', async () => {
+    const middleware = l402Hono({ node: stubNode(), rootKey, price: 100 });
+    const challenge = await challengeFor(middleware);
+    const c = mockContext({ authorization: paidAuthorization(challenge) });
+    const next = vi.fn();
+
+    const res = await middleware(c, next);
+
+    expect(res).toBeUndefined();
+    expect(next).toHaveBeenCalledOnce();
+    expect(c.get('l402')).toMatchObject({ paid: true, paymentHash: PAYMENT_HASH });
+  });
+
+  it('rejects invalid tokens with a 401', async () => {
+    const middleware = l402Hono({ node: stubNode(), rootKey, price: 100 });
+
+    const res = (await middleware(mockContext({ authorization: 'L402 garbage:00' }), vi.fn())) as Response;
+
+    expect(res.status).toBe(401);
+  });
+
+  describe('escrow', () => {
+    it('settles on a 2xx and adds the preimage header', async () => {
+      const node = stubNode();
+      const middleware = l402Hono({ node, rootKey, price: 100, escrow: true });
+      const { macaroon } = await challengeFor(middleware);
+      node.hold(macaroon);
+      const c = mockContext({ authorization: `L402 ${macaroon}` });
+
+      await middleware(c, respond(c, 200));
+
+      const preimage = c.res.headers.get('l402-preimage')!;
+      expect(node.invoices.get(sha256(preimage))).toBe('SETTLED');
+    });
+
+    it('cancels when the handler fails', async () => {
+      const node = stubNode();
+      const middleware = l402Hono({ node, rootKey, price: 100, escrow: true });
+      const { macaroon } = await challengeFor(middleware);
+      node.hold(macaroon);
+      const c = mockContext({ authorization: `L402 ${macaroon}` });
+
+      await middleware(c, respond(c, 500));
+
+      expect(c.res.headers.get('l402-preimage')).toBeNull();
+      expect(node.cancelInvoice).toHaveBeenCalledOnce();
+    });
+  });
+});
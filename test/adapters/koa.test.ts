@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { l402Koa } from '../../src/adapters/koa';
+import type { KoaContextLike } from '../../src/adapters/koa';
+import { PAYMENT_HASH, paidAuthorization, rootKey, sha256, stubNode } from '../helpers/paywall';
+
+// --- Test fixtures ---
+
+function mockCtx(headers: Record<string, string> = {}) {
+  const ctx: KoaContextLike & { response: Record<string, string | string[]> } = {
+    method: 'GET',
+    path: '/api/test',
+    headers,
+    ip: '1.2.3.4',
+    // Koa answers 404 until something sets a body
+    status: 404,
+    body: undefined,
+    response: {},
+    set(fields) {
+      Object.assign(ctx.response, fields);
+    },
+    state: {},
+  };
+  return ctx;
+}
+
+async function challengeFor(middleware: ReturnType<typeof l402Koa>) {
+  const ctx = mockCtx();
+  await middleware(ctx, vi.fn());
+  return ctx.body as { macaroon: string };
+}
+
+// --- Tests ---
+
+describe('l402Koa', () => {
+  it('answers unpaid requests with a 402 challenge, priced from the Koa context', async () => {
+    const priceFn = vi.fn((ctx: KoaContextLike) => (ctx.headers['x-tier'] === 'pro' ? 500 : 100));
+    const middleware = l402Koa({ node: stubNode(), rootKey, price: 1, priceFn });
+    const ctx = mockCtx({ 'x-tier': 'pro' });
+    const next = vi.fn();
+
+    await middleware(ctx, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(ctx.status).toBe(402);
+    expect(ctx.response['WWW-Authenticate']).toMatch(/^L402 macaroon="/);
+    expect(ctx.body).toMatchObject({ price: 500 });
+    expect(priceFn).toHaveBeenCalledWith(ctx);
+  });
+
+  it('puts the proof on ctx.state.l402 and calls the next middleware', async () => {
+    const middleware = l402Koa({ node: stubNode(), rootKey, price: 100 });
+    const challenge = await challengeFor(middleware);
+    const ctx = mockCtx({ authorization: paidAuthorization(challenge) });
+    const next = vi.fn();
+
+    await middleware(ctx, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(ctx.state.l402).toMatchObject({ paid: true, paymentHash: PAYMENT_HASH });
+  });
+
+  it('rejects invalid tokens with a 401', async () => {
+    const middleware = l402Koa({ node: stubNode(), rootKey, price: 100 });
+    const ctx = mockCtx({ authorization: 'L402 garbage:00' });
+
+    await middleware(ctx, vi.fn());
+
+    expect(ctx.status).toBe(401);
+    expect(ctx.body).toEqual({ error: 'Invalid L402 token' });
+  });
+
+  describe('escrow', () => {
+    it('settles on a 2xx and sends the preimage', async () => {
+      const node = stubNode();
+      const middleware = l402Koa({ node, rootKey, price: 100, escrow: true });
+      const { macaroon } = await challengeFor(middleware);
+      node.hold(macaroon);
+      const ctx = mockCtx({ authorization: `L402 ${macaroon}` });
+
+      await middleware(ctx, async () => {
+        ctx.status = 200;
+        ctx.body = { done: true };
+      });
+
+      const preimage = ctx.response['L402-Preimage'] as string;
+      expect(node.invoices.get(sha256(preimage))).toBe('SETTLED');
+    });
+
+    it('cancels when nothing downstream responds', async () => {
+      const node = stubNode();
+      const middleware = l402Koa({ node, rootKey, price: 100, escrow: true });
+      const { macaroon } = await challengeFor(middleware);
+      node.hold(macaroon);
+      const ctx = mockCtx({ authorization: `L402 ${macaroon}` });
+
+      await middleware(ctx, vi.fn());
+
+      expect(ctx.response['L402-Preimage']).toBeUndefined();
+      expect(node.cancelInvoice).toHaveBeenCalledOnce();
+    });
+
+    it('cancels and rethrows when downstream throws', async () => {
+      const node = stubNode();
+      const middleware = l402Koa({ node, rootKey, price: 100, escrow: true });
+      const { macaroon } = await challengeFor(middleware);
+      node.hold(macaroon);
+
+      await expect(
+        middleware(mockCtx({ authorization: `L402 ${macaroon}` }), async () => {
+          throw new Error('job failed');
+        })
+      ).rejects.toThrow('job failed');
+      expect(node.cancelInvoice).toHaveBeenCalledOnce();
+      expect(node.settleInvoice).not.toHaveBeenCalled();
+    });
+  });
+});
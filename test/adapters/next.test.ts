@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { l402Next } from '../../src/adapters/next';
+import { PAYMENT_HASH, paidAuthorization, rootKey, sha256, stubNode } from '../helpers/paywall';
+
+// --- Test fixtures ---
+
+const REPORT_URL = 'https://api.example.com/api/reports/42?format=csv';
+
+function request(headers: Record<string, string> = {}) {
+  return new Request(REPORT_URL, { headers });
+}
+
+// What Next.js passes route handlers for app/api/reports/[id]/route.ts
+const routeContext = { params: Promise.resolve({ id: '42' }) };
+
+async function challengeFor(route: ReturnType<typeof l402Next<typeof routeContext>>) {
+  const res = await route(request(), routeContext);
+  return (await res.json()) as { macaroon: string };
+}
+
+// --- Tests ---
+
+describe('l402Next', () => {
+  it('answers unpaid requests with a 402 Response without calling the handler', async () => {
+    const handler = vi.fn();
+    const priceFn = vi.fn((req: Request) => (new URL(req.url).searchParams.get('format') === 'csv' ? 300 : 100));
+    const route = l402Next({ node: stubNode(), rootKey, price: 1, priceFn }, handler);
+
+    const res = await route(request(), routeContext);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.status).toBe(402);
+    expect(res.headers.get('www-authenticate')).toMatch(/^L402 macaroon="/);
+    expect(await res.json()).toMatchObject({ price: 300, description: 'L402 access: GET /api/reports/42' });
+  });
+
+  it('calls the handler with the route context and the proof', async () => {
+    const handler = vi.fn(async (_req: Request, { params, l402 }: typeof routeContext & { l402: any }) =>
+      Response.json({ id: (await params).id, paid: l402.paymentHash })
+    );
+    const route = l402Next({ node: stubNode(), rootKey, price: 100 }, handler);
+    const challenge = await challengeFor(route);
+
+    const res = await route(request({ authorization: paidAuthorization(challenge) }), routeContext);
+
+    expect(await res.json()).toEqual({ id: '42', paid: PAYMENT_HASH });
+  });
+
+  it('rejects invalid tokens with a 401', async () => {
+    const route = l402Next({ node: stubNode(), rootKey, price: 100 }, vi.fn());
+
+    const res = await route(request({ authorization: 'L402 garbage:00' }), routeContext);
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Invalid L402 token' });
+  });
+
+  describe('escrow', () => {
+    it('settles on a 2xx and adds the preimage header', async () => {
+      const node = stubNode();
+      const route = l402Next({ node, rootKey, price: 100, escrow: true }, async () =>
+        Response.json({ done: true })
+      );
+      const { macaroon } = await challengeFor(route);
+      node.hold(macaroon);
+
+      const res = await route(request({ authorization: `L402 ${macaroon}` }), routeContext);
+
+      const preimage = res.headers.get('l402-preimage')!;
+      expect(await res.json()).toEqual({ done: true });
+      expect(node.invoices.get(sha256(preimage))).toBe('SETTLED');
+    });
+
+    it('cancels and rethrows when the handler throws', async () => {
+      const node = stubNode();
+      const route = l402Next({ node, rootKey, price: 100, escrow: true }, async () => {
+        throw new Error('job failed');
+      });
+      const { macaroon } = await challengeFor(route);
+      node.hold(macaroon);
+
+      await expect(route(request({ authorization: `L402 ${macaroon}` }), routeContext)).rejects.toThrow(
+        'job failed'
+      );
+      expect(node.cancelInvoice).toHaveBeenCalledOnce();
+    });
+  });
+});
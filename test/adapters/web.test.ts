@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { l402Handler } from '../../src/adapters/web';
+import { PAYMENT_HASH, paidAuthorization, rootKey, sha256, stubNode } from '../helpers/paywall';
+
+// --- Test fixtures ---
+
+const DATA_URL = 'https://api.example.com/api/data?format=csv';
+
+function request(headers: Record<string, string> = {}) {
+  return new Request(DATA_URL, { headers });
+}
+
+async function challengeFor(handler: (request: Request) => Promise<Response>) {
+  const res = await handler(request());
+  return (await res.json()) as { macaroon: string };
+}
+
+/** A node whose invoices are numbered lnbc1, lnbc2, ... */
+function countingNode() {
+  const node = stubNode();
+  let n = 0;
+  const createInvoice = vi.fn(async () => {
+    n += 1;
+    const paymentHash = n.toString(16).padStart(64, '0');
+    node.invoices.set(paymentHash, 'OPEN');
+    return { paymentRequest: `lnbc${n}`, paymentHash };
+  });
+  return { ...node, createInvoice };
+}
+
+// --- Tests ---
+
+describe('l402Handler', () => {
+  it('answers unpaid requests with a 402 Response without calling the handler', async () => {
+    const handler = vi.fn();
+    const priceFn = vi.fn((req: Request) => (new URL(req.url).searchParams.get('format') === 'csv' ? 300 : 100));
+    const fetchHandler = l402Handler({ node: stubNode(), rootKey, price: 1, priceFn }, handler);
+
+    const res = await fetchHandler(request());
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.status).toBe(402);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(res.headers.get('www-authenticate')).toMatch(/^L402 macaroon="/);
+    expect(await res.json()).toMatchObject({ price: 300, description: 'L402 access: GET /api/data' });
+  });
+
+  it('calls the handler with the request and the proof', async () => {
+    const handler = vi.fn(async (req: Request, l402: { paymentHash: string }) =>
+      Response.json({ url: req.url, paid: l402.paymentHash })
+    );
+    const fetchHandler = l402Handler({ node: stubNode(), rootKey, price: 100 }, handler);
+    const challenge = await challengeFor(fetchHandler);
+
+    const res = await fetchHandler(request({ authorization: paidAuthorization(challenge) }));
+
+    expect(await res.json()).toEqual({ url: DATA_URL, paid: PAYMENT_HASH });
+  });
+
+  it('rejects invalid tokens with a 401', async () => {
+    const fetchHandler = l402Handler({ node: stubNode(), rootKey, price: 100 }, vi.fn());
+
+    const res = await fetchHandler(request({ authorization: 'L402 garbage:00' }));
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: 'Invalid L402 token' });
+  });
+
+  it('does not share a reused challenge between clients it cannot tell apart', async () => {
+    const node = countingNode();
+    const fetchHandler = l402Handler({ node, rootKey, price: 100, issuance: {} }, vi.fn());
+
+    const first = await fetchHandler(request({ 'cf-connecting-ip': '1.2.3.4' }));
+    const second = await fetchHandler(request({ 'cf-connecting-ip': '5.6.7.8' }));
+
+    expect((await first.json()).invoice).toBe('lnbc1');
+    expect((await second.json()).invoice).toBe('lnbc2');
+  });
+
+  it('reuses challenges per client with issuance.clientKey', async () => {
+    const node = countingNode();
+    const clientKey = (req: Request) => req.headers.get('cf-connecting-ip') ?? '';
+    const fetchHandler = l402Handler({ node, rootKey, price: 100, issuance: { clientKey } }, vi.fn());
+
+    await fetchHandler(request({ 'cf-connecting-ip': '1.2.3.4' }));
+    const other = await fetchHandler(request({ 'cf-connecting-ip': '5.6.7.8' }));
+    const again = await fetchHandler(request({ 'cf-connecting-ip': '1.2.3.4' }));
+
+    expect((await other.json()).invoice).toBe('lnbc2');
+    expect((await again.json()).invoice).toBe('lnbc1');
+  });
+
+  describe('escrow', () => {
+    it('settles on a 2xx and adds the preimage header', async () => {
+      const node = stubNode();
+      const fetchHandler = l402Handler({ node, rootKey, price: 100, escrow: true }, async () =>
+        Response.json({ done: true })
+      );
+      const { macaroon } = await challengeFor(fetchHandler);
+      node.hold(macaroon);
+
+      const res = await fetchHandler(request({ authorization: `L402 ${macaroon}` }));
+
+      const preimage = res.headers.get('l402-preimage')!;
+      expect(await res.json()).toEqual({ done: true });
+      expect(node.invoices.get(sha256(preimage))).toBe('SETTLED');
+    });
+
+    it('cancels when the handler fails', async () => {
+      const node = stubNode();
+      const fetchHandler = l402Handler({ node, rootKey, price: 100, escrow: true }, async () =>
+        Response.json({ error: 'upstream down' }, { status: 502 })
+      );
+      const { macaroon } = await challengeFor(fetchHandler);
+      node.hold(macaroon);
+
+      const res = await fetchHandler(request({ authorization: `L402 ${macaroon}` }));
+
+      expect(res.status).toBe(502);
+      expect(res.headers.get('l402-preimage')).toBeNull();
+      expect(node.cancelInvoice).toHaveBeenCalledOnce();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createClnBackend } from '../../src/backends/cln';
+import { resolveBackend } from '../../src/backends';
+import type { ClnConfig } from '../../src/types';
+
+// --- Stub clnrest server ---
+
+const PAYMENT_HASH = 'ab'.repeat(32);
+const PREIMAGE_HEX = 'cd'.repeat(32);
+const RUNE = 'test-rune';
+
+interface RecordedCall {
+  method: string;
+  rune?: string;
+  params: any;
+}
+
+let calls: RecordedCall[] = [];
+let handlers: Record<string, (params: any) => { status?: number; body: any }> = {};
+let server: http.Server;
+let config: ClnConfig;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const method = (req.url || '').replace(/^\/v1\//, '');
+      const params = raw ? JSON.parse(raw) : {};
+      calls.push({ method, rune: req.headers.rune as string | undefined, params });
+
+      const handler = handlers[method];
+      const { status = 200, body } = handler
+        ? handler(params)
+        : { status: 404, body: { code: -32601, message: `Unknown command '${method}'` } };
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  config = { restHost: `http://127.0.0.1:${port}`, rune: RUNE };
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  calls = [];
+  handlers = {};
+});
+
+// --- Tests ---
+
+describe('createClnBackend', () => {
+  describe('createInvoice', () => {
+    it('calls invoice with the amount in msat and the rune', async () => {
+      handlers.invoice = () => ({
+        body: { payment_hash: PAYMENT_HASH, bolt11: 'lnbcrt1cln', expires_at: 1760000000 },
+      });
+
+      const invoice = await createClnBackend(config).createInvoice({ amountSats: 150, memo: 'L402 access' });
+
+      expect(invoice).toEqual({ paymentRequest: 'lnbcrt1cln', paymentHash: PAYMENT_HASH });
+      expect(calls[0].method).toBe('invoice');
+      expect(calls[0].rune).toBe(RUNE);
+      expect(calls[0].params).toMatchObject({ amount_msat: 150000, description: 'L402 access' });
+    });
+
+    it('uses a unique label for every invoice', async () => {
+      handlers.invoice = () => ({
+        body: { payment_hash: PAYMENT_HASH, bolt11: 'lnbcrt1cln', expires_at: 1760000000 },
+      });
+      const backend = createClnBackend(config);
+
+      await backend.createInvoice({ amountSats: 1, memo: 'a' });
+      await backend.createInvoice({ amountSats: 1, memo: 'b' });
+
+      expect(calls[0].params.label).toMatch(/^l402-/);
+      expect(calls[0].params.label).not.toBe(calls[1].params.label);
+    });
+
+    it('surfaces the RPC error message', async () => {
+      handlers.invoice = () => ({
+        status: 500,
+        body: { code: 900, message: 'Duplicate label' },
+      });
+
+      await expect(
+        createClnBackend(config).createInvoice({ amountSats: 1, memo: 'x' })
+      ).rejects.toThrow(/CLN invoice failed: 500 Duplicate label/);
+    });
+  });
+
+  describe('lookupInvoice', () => {
+    it('maps a paid invoice', async () => {
+      handlers.listinvoices = () => ({
+        body: {
+          invoices: [
+            {
+              payment_hash: PAYMENT_HASH,
+              status: 'paid',
+              amount_msat: 150000,
+              amount_received_msat: 151000,
+              paid_at: 1760000000,
+            },
+          ],
+        },
+      });
+
+      const status = await createClnBackend(config).lookupInvoice(PAYMENT_HASH);
+
+      expect(calls[0].params).toEqual({ payment_hash: PAYMENT_HASH });
+      expect(status).toEqual({
+        paymentHash: PAYMENT_HASH,
+        state: 'SETTLED',
+        valueSats: 150,
+        amountPaidSats: 151,
+        settledAt: 1760000000000,
+      });
+    });
+
+    it('maps unpaid and expired invoices', async () => {
+      let status = 'unpaid';
+      handlers.listinvoices = () => ({
+        body: { invoices: [{ payment_hash: PAYMENT_HASH, status, amount_msat: '1000msat' }] },
+      });
+      const backend = createClnBackend(config);
+
+      expect((await backend.lookupInvoice(PAYMENT_HASH))?.state).toBe('OPEN');
+      status = 'expired';
+      expect((await backend.lookupInvoice(PAYMENT_HASH))?.state).toBe('CANCELED');
+    });
+
+    it('resolves undefined when the invoice is unknown', async () => {
+      handlers.listinvoices = () => ({ body: { invoices: [] } });
+
+      expect(await createClnBackend(config).lookupInvoice(PAYMENT_HASH)).toBeUndefined();
+    });
+  });
+
+  describe('payInvoice', () => {
+    it('calls pay and returns the hex preimage and fee', async () => {
+      handlers.pay = () => ({
+        body: {
+          payment_preimage: PREIMAGE_HEX,
+          payment_hash: PAYMENT_HASH,
+          status: 'complete',
+          amount_msat: 100000,
+          amount_sent_msat: 101500,
+        },
+      });
+
+      const result = await createClnBackend(config).payInvoice('lnbcrt1cln');
+
+      expect(calls[0]).toMatchObject({ method: 'pay', rune: RUNE, params: { bolt11: 'lnbcrt1cln' } });
+      expect(result).toEqual({ preimage: PREIMAGE_HEX, feeSats: 2 });
+    });
+
+    it('passes fee limit and timeout to pay', async () => {
+      handlers.pay = () => ({
+        body: {
+          payment_preimage: PREIMAGE_HEX,
+          payment_hash: PAYMENT_HASH,
+          status: 'complete',
+          amount_msat: 100000,
+          amount_sent_msat: 100000,
+        },
+      });
+
+      await createClnBackend(config).payInvoice('lnbcrt1cln', { feeLimitSats: 7, timeoutSeconds: 30 });
+
+      expect(calls[0].params).toEqual({ bolt11: 'lnbcrt1cln', maxfee: 7000, retry_for: 30 });
+    });
+
+    it('throws when the payment did not complete', async () => {
+      handlers.pay = () => ({
+        body: { payment_preimage: '', payment_hash: PAYMENT_HASH, status: 'failed', amount_msat: 0, amount_sent_msat: 0 },
+      });
+
+      await expect(createClnBackend(config).payInvoice('lnbcrt1cln')).rejects.toThrow(/failed/);
+    });
+
+    it('throws when CLN rejects the payment', async () => {
+      handlers.pay = () => ({
+        status: 500,
+        body: { code: 205, message: 'Could not find a route' },
+      });
+
+      await expect(createClnBackend(config).payInvoice('lnbcrt1cln')).rejects.toThrow(
+        /Could not find a route/
+      );
+    });
+  });
+
+  describe('lookupPayment', () => {
+    it('maps a completed pay with its fee', async () => {
+      handlers.listpays = () => ({
+        body: {
+          pays: [
+            {
+              payment_hash: PAYMENT_HASH,
+              status: 'complete',
+              preimage: PREIMAGE_HEX,
+              amount_msat: '100000msat',
+              amount_sent_msat: '100500msat',
+            },
+          ],
+        },
+      });
+
+      const status = await createClnBackend(config).lookupPayment!(PAYMENT_HASH);
+
+      expect(calls[0]).toMatchObject({ method: 'listpays', params: { payment_hash: PAYMENT_HASH } });
+      expect(status).toEqual({ paymentHash: PAYMENT_HASH, state: 'SUCCEEDED', preimage: PREIMAGE_HEX, feeSats: 1 });
+    });
+
+    it('reports pending pays, and nothing for unknown ones', async () => {
+      const backend = createClnBackend(config);
+
+      handlers.listpays = () => ({ body: { pays: [{ payment_hash: PAYMENT_HASH, status: 'pending' }] } });
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toEqual({ paymentHash: PAYMENT_HASH, state: 'PENDING' });
+
+      handlers.listpays = () => ({ body: { pays: [] } });
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toBeUndefined();
+    });
+  });
+
+  describe('decodeInvoice', () => {
+    it('maps a decoded BOLT11 invoice', async () => {
+      handlers.decode = () => ({
+        body: {
+          type: 'bolt11 invoice',
+          valid: true,
+          payee: '03'.padEnd(66, 'b'),
+          payment_hash: PAYMENT_HASH,
+          created_at: 1760000000,
+          expiry: 3600,
+          amount_msat: 250000,
+          description: 'coffee',
+        },
+      });
+
+      const decoded = await createClnBackend(config).decodeInvoice('lnbcrt2500n1cln');
+
+      expect(calls[0].params).toEqual({ string: 'lnbcrt2500n1cln' });
+      expect(decoded).toEqual({
+        paymentHash: PAYMENT_HASH,
+        amountSats: 250,
+        description: 'coffee',
+        timestamp: 1760000000,
+        expiry: 3600,
+        payee: '03'.padEnd(66, 'b'),
+      });
+    });
+
+    it('rejects strings that are not BOLT11 invoices', async () => {
+      handlers.decode = () => ({ body: { type: 'bolt12 offer', valid: true } });
+
+      await expect(createClnBackend(config).decodeInvoice('lno1...')).rejects.toThrow(/BOLT11/);
+    });
+  });
+});
+
+describe('resolveBackend with ClnConfig', () => {
+  it('picks the CLN backend when a rune is given', async () => {
+    handlers.invoice = () => ({
+      body: { payment_hash: PAYMENT_HASH, bolt11: 'lnbcrt1cln', expires_at: 1760000000 },
+    });
+
+    await resolveBackend(config).createInvoice({ amountSats: 1, memo: 'x' });
+
+    expect(calls[0].method).toBe('invoice');
+    expect(calls[0].rune).toBe(RUNE);
+  });
+});
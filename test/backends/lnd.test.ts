@@ -0,0 +1,466 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createLndBackend } from '../../src/backends/lnd';
+import { resolveBackend, isLightningBackend } from '../../src/backends';
+import { InsufficientBalanceError, PaymentError } from '../../src/errors';
+import type { LightningBackend, LndConfig } from '../../src/types';
+import { signInvoice } from '../helpers/bolt11';
+
+// --- Test fixtures ---
+
+const PAYMENT_HASH = 'ab'.repeat(32);
+const PAYMENT_HASH_B64 = Buffer.from(PAYMENT_HASH, 'hex').toString('base64');
+const PREIMAGE_HEX = 'cd'.repeat(32);
+
+const node: LndConfig = {
+  restHost: 'https://localhost:8082',
+  macaroon: 'deadbeef',
+};
+
+function jsonResponse(body: any) {
+  return { ok: true, json: () => Promise.resolve(body) };
+}
+
+// --- Tests ---
+
+describe('createLndBackend', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createInvoice', () => {
+    it('posts to /v1/invoices and returns a hex payment hash', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({ r_hash: PAYMENT_HASH_B64, payment_request: 'lnbc1test', add_index: '1' })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const invoice = await createLndBackend(node).createInvoice({ amountSats: 100, memo: 'hi' });
+
+      expect(invoice).toEqual({ paymentRequest: 'lnbc1test', paymentHash: PAYMENT_HASH });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://localhost:8082/v1/invoices');
+      expect(init.method).toBe('POST');
+      expect(init.headers['Grpc-Metadata-macaroon']).toBe('deadbeef');
+      expect(JSON.parse(init.body)).toEqual({ value: '100', memo: 'hi' });
+    });
+
+    it('throws on an error status', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Unavailable' }));
+
+      await expect(
+        createLndBackend(node).createInvoice({ amountSats: 100, memo: 'hi' })
+      ).rejects.toThrow(/LND invoice creation failed: 503/);
+    });
+  });
+
+  describe('hold invoices', () => {
+    it('creates a hold invoice for our payment hash', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({ payment_request: 'lnbc1hold', add_index: '2' })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const invoice = await createLndBackend(node).createHoldInvoice!({
+        amountSats: 100,
+        memo: 'hi',
+        paymentHash: PAYMENT_HASH,
+      });
+
+      expect(invoice).toEqual({ paymentRequest: 'lnbc1hold', paymentHash: PAYMENT_HASH });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://localhost:8082/v2/invoices/hodl');
+      expect(JSON.parse(init.body)).toEqual({ hash: PAYMENT_HASH_B64, value: '100', memo: 'hi' });
+    });
+
+    it('settles with the preimage and cancels by payment hash', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse({}));
+      vi.stubGlobal('fetch', fetchMock);
+      const backend = createLndBackend(node);
+
+      await backend.settleInvoice!(PREIMAGE_HEX);
+      await backend.cancelInvoice!(PAYMENT_HASH);
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://localhost:8082/v2/invoices/settle');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+        preimage: Buffer.from(PREIMAGE_HEX, 'hex').toString('base64'),
+      });
+      expect(fetchMock.mock.calls[1][0]).toBe('https://localhost:8082/v2/invoices/cancel');
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ payment_hash: PAYMENT_HASH_B64 });
+    });
+
+    it('throws on an error status', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+      const backend = createLndBackend(node);
+
+      await expect(
+        backend.createHoldInvoice!({ amountSats: 100, memo: 'hi', paymentHash: PAYMENT_HASH })
+      ).rejects.toThrow(/LND hold invoice creation failed: 404/);
+      await expect(backend.settleInvoice!(PREIMAGE_HEX)).rejects.toThrow(/LND invoice settle failed: 404/);
+      await expect(backend.cancelInvoice!(PAYMENT_HASH)).rejects.toThrow(/LND invoice cancel failed: 404/);
+    });
+  });
+
+  describe('lookupInvoice', () => {
+    it('maps a settled invoice', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({
+          r_hash: PAYMENT_HASH_B64,
+          value: '100',
+          amt_paid_sat: '100',
+          state: 'SETTLED',
+          settle_date: '1760000000',
+        })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const status = await createLndBackend(node).lookupInvoice(PAYMENT_HASH);
+
+      expect(fetchMock.mock.calls[0][0]).toBe(`https://localhost:8082/v1/invoice/${PAYMENT_HASH}`);
+      expect(status).toEqual({
+        paymentHash: PAYMENT_HASH,
+        state: 'SETTLED',
+        valueSats: 100,
+        amountPaidSats: 100,
+        settledAt: 1760000000000,
+      });
+    });
+
+    it('leaves settledAt unset for open invoices', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          jsonResponse({ value: '100', amt_paid_sat: '0', state: 'OPEN', settle_date: '0' })
+        )
+      );
+
+      const status = await createLndBackend(node).lookupInvoice(PAYMENT_HASH);
+
+      expect(status?.state).toBe('OPEN');
+      expect(status?.settledAt).toBeUndefined();
+    });
+
+    it('resolves undefined for an invoice the node never issued', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+
+      expect(await createLndBackend(node).lookupInvoice(PAYMENT_HASH)).toBeUndefined();
+    });
+
+    it('throws when the node fails', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' }));
+
+      await expect(createLndBackend(node).lookupInvoice(PAYMENT_HASH)).rejects.toThrow(/lookup failed: 500/);
+    });
+  });
+
+  describe('payInvoice', () => {
+    const INVOICE = signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 5000 });
+
+    function paymentUpdate(payment: Record<string, string>) {
+      return JSON.stringify({
+        result: {
+          payment_hash: PAYMENT_HASH,
+          payment_preimage: '',
+          status: 'IN_FLIGHT',
+          fee_sat: '0',
+          fee_msat: '0',
+          failure_reason: 'FAILURE_REASON_NONE',
+          ...payment,
+        },
+      });
+    }
+
+    function streamResponse(...lines: string[]) {
+      // One update split across chunks, as it may arrive off the wire
+      const text = lines.map((l) => `${l}\n`).join('');
+      const encoder = new TextEncoder();
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            for (let i = 0; i < text.length; i += 17) {
+              controller.enqueue(encoder.encode(text.slice(i, i + 17)));
+            }
+            controller.close();
+          },
+        })
+      );
+    }
+
+    it('pays through the v2 router and reads the streamed result', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        streamResponse(
+          paymentUpdate({ status: 'IN_FLIGHT' }),
+          paymentUpdate({
+            status: 'SUCCEEDED',
+            payment_preimage: PREIMAGE_HEX,
+            fee_sat: '2',
+            fee_msat: '2500',
+          })
+        )
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createLndBackend(node).payInvoice(INVOICE);
+
+      // Sub-sat fees round up
+      expect(result).toEqual({ preimage: PREIMAGE_HEX, feeSats: 3 });
+      expect(fetchMock.mock.calls[0][0]).toBe('https://localhost:8082/v2/router/send');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+        payment_request: INVOICE,
+        // 1% of the amount by default
+        fee_limit_msat: '50000',
+        timeout_seconds: 60,
+        no_inflight_updates: true,
+      });
+    });
+
+    it('sends the payment options', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          streamResponse(paymentUpdate({ status: 'SUCCEEDED', payment_preimage: PREIMAGE_HEX }))
+        );
+      vi.stubGlobal('fetch', fetchMock);
+
+      await createLndBackend(node).payInvoice(INVOICE, {
+        feeLimitSats: 100,
+        feeLimitPercent: 0.5,
+        timeoutSeconds: 20,
+        maxParts: 4,
+        outgoingChanIds: ['123456789'],
+      });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+        payment_request: INVOICE,
+        // The lower limit: 0.5% of 5000 sats
+        fee_limit_msat: '25000',
+        timeout_seconds: 20,
+        max_parts: 4,
+        outgoing_chan_ids: ['123456789'],
+        no_inflight_updates: true,
+      });
+    });
+
+    it('rejects bad options before paying', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const backend = createLndBackend(node);
+
+      await expect(backend.payInvoice(INVOICE, { timeoutSeconds: 0 })).rejects.toThrow(/timeoutSeconds/);
+      await expect(backend.payInvoice(INVOICE, { maxParts: 1.5 })).rejects.toThrow(/maxParts/);
+      await expect(backend.payInvoice(INVOICE, { feeLimitSats: -1 })).rejects.toThrow(/feeLimitSats/);
+      await expect(
+        backend.payInvoice(signInvoice({ paymentHash: PAYMENT_HASH }), { feeLimitPercent: 1 })
+      ).rejects.toThrow(/needs an invoice with an amount/);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('throws a typed error for a failed payment', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          streamResponse(
+            paymentUpdate({ status: 'FAILED', failure_reason: 'FAILURE_REASON_NO_ROUTE' })
+          )
+        )
+      );
+
+      const err = await createLndBackend(node).payInvoice(INVOICE).catch((e) => e);
+
+      expect(err).toBeInstanceOf(PaymentError);
+      expect(err.code).toBe('NO_ROUTE');
+      expect(err.message).toMatch(/NO_ROUTE/);
+    });
+
+    it('maps insufficient balance', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          streamResponse(
+            paymentUpdate({ status: 'FAILED', failure_reason: 'FAILURE_REASON_INSUFFICIENT_BALANCE' })
+          )
+        )
+      );
+
+      await expect(createLndBackend(node).payInvoice(INVOICE)).rejects.toBeInstanceOf(
+        InsufficientBalanceError
+      );
+    });
+
+    it('throws on an error in the stream', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          streamResponse(JSON.stringify({ error: { code: 6, message: 'invoice is already paid' } }))
+        )
+      );
+
+      await expect(createLndBackend(node).payInvoice(INVOICE)).rejects.toThrow(
+        /invoice is already paid/
+      );
+    });
+
+    it('throws when the stream ends before a final state', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(streamResponse(paymentUpdate({ status: 'IN_FLIGHT' })))
+      );
+
+      await expect(createLndBackend(node).payInvoice(INVOICE)).rejects.toThrow(
+        /ended before the payment finished/
+      );
+    });
+
+    it('stops waiting a little after timeoutSeconds and reports the payment in flight', async () => {
+      vi.useFakeTimers();
+      try {
+        // A stream that stays open until the request is aborted
+        const fetchMock = vi.fn(async (_url: string, init: RequestInit) =>
+          new Response(
+            new ReadableStream({
+              start(controller) {
+                init.signal!.addEventListener('abort', () => controller.error(init.signal!.reason));
+              },
+            })
+          )
+        );
+        vi.stubGlobal('fetch', fetchMock);
+        let settled = false;
+        const paying = createLndBackend(node)
+          .payInvoice(INVOICE, { timeoutSeconds: 20 })
+          .catch((e) => e)
+          .finally(() => (settled = true));
+
+        await vi.advanceTimersByTimeAsync(20_000);
+        expect(settled).toBe(false);
+        await vi.advanceTimersByTimeAsync(15_000);
+
+        const err = await paying;
+        expect(err).toBeInstanceOf(PaymentError);
+        expect(err.code).toBe('IN_FLIGHT');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('lookupPayment', () => {
+    function trackResponse(update: object) {
+      // The stream stays open for later updates; only the first is read
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(`${JSON.stringify(update)}\n`));
+          },
+        })
+      );
+    }
+
+    it('reads the current state from the track stream', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        trackResponse({
+          result: {
+            payment_hash: PAYMENT_HASH,
+            payment_preimage: PREIMAGE_HEX,
+            status: 'SUCCEEDED',
+            fee_sat: '1',
+            fee_msat: '1000',
+            failure_reason: 'FAILURE_REASON_NONE',
+          },
+        })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const status = await createLndBackend(node).lookupPayment!(PAYMENT_HASH);
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        `https://localhost:8082/v2/router/track/${Buffer.from(PAYMENT_HASH, 'hex').toString('base64url')}`
+      );
+      expect(status).toEqual({ paymentHash: PAYMENT_HASH, state: 'SUCCEEDED', preimage: PREIMAGE_HEX, feeSats: 1 });
+    });
+
+    it('reports in-flight and failed payments', async () => {
+      const backend = createLndBackend(node);
+      const payment = { payment_hash: PAYMENT_HASH, payment_preimage: '', fee_msat: '0', failure_reason: '' };
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(trackResponse({ result: { ...payment, status: 'IN_FLIGHT' } })));
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toEqual({ paymentHash: PAYMENT_HASH, state: 'PENDING' });
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(trackResponse({ result: { ...payment, status: 'FAILED' } })));
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toEqual({ paymentHash: PAYMENT_HASH, state: 'FAILED' });
+    });
+
+    it('returns undefined for payments LND never started', async () => {
+      const backend = createLndBackend(node);
+
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(trackResponse({ error: { code: 5, message: "payment isn't initiated" } }))
+      );
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toBeUndefined();
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toBeUndefined();
+    });
+  });
+
+  describe('decodeInvoice', () => {
+    it('maps the decoded payment request', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        jsonResponse({
+          destination: '02'.padEnd(66, 'a'),
+          payment_hash: PAYMENT_HASH,
+          num_satoshis: '250',
+          timestamp: '1760000000',
+          expiry: '3600',
+          description: 'coffee',
+        })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const decoded = await createLndBackend(node).decodeInvoice('lnbc2500n1test');
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://localhost:8082/v1/payreq/lnbc2500n1test');
+      expect(decoded).toEqual({
+        paymentHash: PAYMENT_HASH,
+        amountSats: 250,
+        description: 'coffee',
+        timestamp: 1760000000,
+        expiry: 3600,
+        payee: '02'.padEnd(66, 'a'),
+      });
+    });
+
+    it('reports amountless invoices without an amount', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          jsonResponse({ payment_hash: PAYMENT_HASH, num_satoshis: '0', timestamp: '1', expiry: '1', destination: '' })
+        )
+      );
+
+      const decoded = await createLndBackend(node).decodeInvoice('lnbc1test');
+
+      expect(decoded.amountSats).toBeUndefined();
+    });
+  });
+});
+
+describe('resolveBackend', () => {
+  it('wraps LND settings in the LND backend', () => {
+    const backend = resolveBackend(node);
+
+    expect(isLightningBackend(node)).toBe(false);
+    expect(typeof backend.createInvoice).toBe('function');
+  });
+
+  it('passes custom backends through untouched', () => {
+    const custom: LightningBackend = {
+      createInvoice: vi.fn(),
+      lookupInvoice: vi.fn(),
+      payInvoice: vi.fn(),
+      decodeInvoice: vi.fn(),
+    };
+
+    expect(resolveBackend(custom)).toBe(custom);
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createNwcBackend, parseNwcUri } from '../../src/backends/nwc';
+import { resolveBackend } from '../../src/backends';
+import { InsufficientBalanceError, PaymentError, QuotaExceededError } from '../../src/errors';
+import { decrypt, encrypt, getConversationKey } from '../../src/nip44';
+import { getPublicKey, NostrEvent, signEvent, verifyEvent } from '../../src/nostr';
+import type { NwcConfig, WebSocketLike } from '../../src/types';
+
+// --- Mock relay that answers as the wallet ---
+
+const WALLET_SECRET = '11'.repeat(32);
+const CLIENT_SECRET = '22'.repeat(32);
+const WALLET_PUBKEY = getPublicKey(WALLET_SECRET);
+const CLIENT_PUBKEY = getPublicKey(CLIENT_SECRET);
+const RELAY = 'wss://relay.example.com';
+const URI = `nostr+walletconnect://${WALLET_PUBKEY}?relay=${encodeURIComponent(RELAY)}&secret=${CLIENT_SECRET}`;
+
+const PAYMENT_HASH = 'ab'.repeat(32);
+const PREIMAGE_HEX = 'cd'.repeat(32);
+
+interface WalletCall {
+  method: string;
+  params: any;
+  event: NostrEvent;
+}
+
+type WalletReply = { result: any } | { error: { code: string; message: string } };
+
+let walletCalls: WalletCall[] = [];
+let wallet: (method: string, params: any) => WalletReply;
+let relayMode: 'answer' | 'reject' | 'silent' | 'forged';
+let sockets: MockRelaySocket[] = [];
+
+class MockRelaySocket implements WebSocketLike {
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  closed = false;
+  private subId = '';
+
+  constructor(public url: string) {
+    sockets.push(this);
+    setTimeout(() => this.onopen?.({}), 0);
+  }
+
+  send(data: string) {
+    const [type, ...rest] = JSON.parse(data);
+    if (type === 'REQ') {
+      this.subId = rest[0];
+      return;
+    }
+    const event = rest[0] as NostrEvent;
+    if (relayMode === 'reject') {
+      this.emit(['OK', event.id, false, 'blocked: not allowed']);
+      return;
+    }
+    this.emit(['OK', event.id, true, '']);
+    if (relayMode === 'silent') return;
+
+    const key = getConversationKey(WALLET_SECRET, event.pubkey);
+    const { method, params } = JSON.parse(decrypt(event.content, key));
+    walletCalls.push({ method, params, event });
+
+    const reply = { result_type: method, ...wallet(method, params) };
+    const signer = relayMode === 'forged' ? '33'.repeat(32) : WALLET_SECRET;
+    const response = signEvent(
+      {
+        kind: 23195,
+        tags: [
+          ['p', event.pubkey],
+          ['e', event.id],
+        ],
+        content: encrypt(JSON.stringify(reply), key),
+      },
+      signer
+    );
+    this.emit(['EVENT', this.subId, response]);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  private emit(message: unknown[]) {
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify(message) }), 0);
+  }
+}
+
+function makeConfig(overrides: Partial<NwcConfig> = {}): NwcConfig {
+  return { connectionUri: URI, WebSocket: MockRelaySocket, ...overrides };
+}
+
+beforeEach(() => {
+  walletCalls = [];
+  sockets = [];
+  relayMode = 'answer';
+  wallet = () => ({ error: { code: 'NOT_IMPLEMENTED', message: 'unexpected call' } });
+});
+
+// --- Tests ---
+
+describe('parseNwcUri', () => {
+  it('reads the wallet pubkey, relays and secret', () => {
+    expect(parseNwcUri(`${URI}&relay=wss%3A%2F%2Fbackup.example.com`)).toEqual({
+      walletPubkey: WALLET_PUBKEY,
+      relays: [RELAY, 'wss://backup.example.com'],
+      secret: CLIENT_SECRET,
+    });
+  });
+
+  it('rejects other schemes and missing parameters', () => {
+    expect(() => parseNwcUri('https://example.com')).toThrow(/Invalid NWC/);
+    expect(() => parseNwcUri(`nostr+walletconnect://${WALLET_PUBKEY}?relay=${RELAY}`)).toThrow(
+      /secret/
+    );
+    expect(() => parseNwcUri(`nostr+walletconnect://${WALLET_PUBKEY}?secret=${CLIENT_SECRET}`)).toThrow(
+      /relay/
+    );
+  });
+});
+
+describe('createNwcBackend', () => {
+  describe('payInvoice', () => {
+    it('sends an encrypted pay_invoice request and returns the preimage', async () => {
+      wallet = () => ({ result: { preimage: PREIMAGE_HEX, fees_paid: 1500 } });
+
+      const result = await createNwcBackend(makeConfig()).payInvoice('lnbcrt1nwc');
+
+      expect(result).toEqual({ preimage: PREIMAGE_HEX, feeSats: 2 });
+      expect(walletCalls[0]).toMatchObject({ method: 'pay_invoice', params: { invoice: 'lnbcrt1nwc' } });
+      expect(sockets[0].url).toBe(RELAY);
+      expect(sockets[0].closed).toBe(true);
+    });
+
+    it('signs the request with the connection secret and tags the wallet', async () => {
+      wallet = () => ({ result: { preimage: PREIMAGE_HEX } });
+
+      await createNwcBackend(makeConfig()).payInvoice('lnbcrt1nwc');
+
+      const { event } = walletCalls[0];
+      expect(event.kind).toBe(23194);
+      expect(event.pubkey).toBe(CLIENT_PUBKEY);
+      expect(event.tags).toContainEqual(['p', WALLET_PUBKEY]);
+      expect(event.tags).toContainEqual(['encryption', 'nip44_v2']);
+      expect(verifyEvent(event)).toBe(true);
+    });
+
+    it('maps wallet errors to typed errors', async () => {
+      const backend = createNwcBackend(makeConfig());
+
+      wallet = () => ({ error: { code: 'INSUFFICIENT_BALANCE', message: 'not enough sats' } });
+      await expect(backend.payInvoice('lnbcrt1nwc')).rejects.toBeInstanceOf(InsufficientBalanceError);
+
+      wallet = () => ({ error: { code: 'QUOTA_EXCEEDED', message: 'budget used up' } });
+      await expect(backend.payInvoice('lnbcrt1nwc')).rejects.toBeInstanceOf(QuotaExceededError);
+
+      wallet = () => ({ error: { code: 'PAYMENT_FAILED', message: 'no route' } });
+      const err = await backend.payInvoice('lnbcrt1nwc').catch((e) => e);
+      expect(err).toBeInstanceOf(PaymentError);
+      expect(err.code).toBe('PAYMENT_FAILED');
+      expect(err.message).toMatch(/no route/);
+    });
+  });
+
+  describe('createInvoice', () => {
+    it('calls make_invoice with the amount in msat', async () => {
+      wallet = () => ({ result: { invoice: 'lnbcrt1nwc', payment_hash: PAYMENT_HASH } });
+
+      const invoice = await createNwcBackend(makeConfig()).createInvoice({ amountSats: 21, memo: 'api' });
+
+      expect(invoice).toEqual({ paymentRequest: 'lnbcrt1nwc', paymentHash: PAYMENT_HASH });
+      expect(walletCalls[0].params).toEqual({ amount: 21000, description: 'api' });
+    });
+  });
+
+  describe('lookupInvoice', () => {
+    it('maps wallet states', async () => {
+      let reply: any = { state: 'settled', amount: 21000, settled_at: 1760000000 };
+      wallet = () => ({ result: reply });
+      const backend = createNwcBackend(makeConfig());
+
+      expect(await backend.lookupInvoice(PAYMENT_HASH)).toEqual({
+        paymentHash: PAYMENT_HASH,
+        state: 'SETTLED',
+        valueSats: 21,
+        amountPaidSats: 21,
+        settledAt: 1760000000000,
+      });
+
+      reply = { state: 'pending', amount: 21000 };
+      expect((await backend.lookupInvoice(PAYMENT_HASH))?.state).toBe('OPEN');
+      reply = { state: 'expired', amount: 21000 };
+      expect((await backend.lookupInvoice(PAYMENT_HASH))?.state).toBe('CANCELED');
+      reply = { amount: 21000, settled_at: 1760000000 };
+      expect((await backend.lookupInvoice(PAYMENT_HASH))?.state).toBe('SETTLED');
+    });
+
+    it('resolves undefined for an unknown invoice, and throws on other errors', async () => {
+      const backend = createNwcBackend(makeConfig());
+
+      wallet = () => ({ error: { code: 'NOT_FOUND', message: 'no such invoice' } });
+      expect(await backend.lookupInvoice(PAYMENT_HASH)).toBeUndefined();
+      wallet = () => ({ error: { code: 'INTERNAL', message: 'wallet down' } });
+      await expect(backend.lookupInvoice(PAYMENT_HASH)).rejects.toThrow(/wallet down/);
+    });
+  });
+
+  describe('lookupPayment', () => {
+    it('maps a settled outgoing payment', async () => {
+      wallet = () => ({
+        result: { type: 'outgoing', state: 'settled', preimage: PREIMAGE_HEX, fees_paid: 1200, settled_at: 1760000000 },
+      });
+
+      expect(await createNwcBackend(makeConfig()).lookupPayment!(PAYMENT_HASH)).toEqual({
+        paymentHash: PAYMENT_HASH,
+        state: 'SUCCEEDED',
+        preimage: PREIMAGE_HEX,
+        feeSats: 2,
+      });
+      expect(walletCalls[0]).toMatchObject({ method: 'lookup_invoice', params: { payment_hash: PAYMENT_HASH } });
+    });
+
+    it('reports pending and failed payments, and unknown ones as undefined', async () => {
+      const backend = createNwcBackend(makeConfig());
+
+      wallet = () => ({ result: { type: 'outgoing', state: 'pending' } });
+      expect((await backend.lookupPayment!(PAYMENT_HASH))?.state).toBe('PENDING');
+      wallet = () => ({ result: { type: 'outgoing', state: 'failed' } });
+      expect((await backend.lookupPayment!(PAYMENT_HASH))?.state).toBe('FAILED');
+      wallet = () => ({ error: { code: 'NOT_FOUND', message: 'no such payment' } });
+      expect(await backend.lookupPayment!(PAYMENT_HASH)).toBeUndefined();
+    });
+  });
+
+  describe('relay failures', () => {
+    it('fails when the relay rejects the request', async () => {
+      relayMode = 'reject';
+
+      await expect(createNwcBackend(makeConfig()).payInvoice('lnbcrt1nwc')).rejects.toThrow(
+        /rejected the request: blocked/
+      );
+    });
+
+    it('times out when the wallet never answers', async () => {
+      relayMode = 'silent';
+
+      await expect(
+        createNwcBackend(makeConfig({ timeoutMs: 50 })).payInvoice('lnbcrt1nwc')
+      ).rejects.toThrow(/did not answer within 50ms/);
+      expect(sockets[0].closed).toBe(true);
+    });
+
+    it('ignores responses not signed by the wallet', async () => {
+      relayMode = 'forged';
+      wallet = () => ({ result: { preimage: PREIMAGE_HEX } });
+
+      await expect(
+        createNwcBackend(makeConfig({ timeoutMs: 50 })).payInvoice('lnbcrt1nwc')
+      ).rejects.toThrow(/did not answer/);
+    });
+  });
+});
+
+describe('resolveBackend with NwcConfig', () => {
+  it('picks the NWC backend when a connection string is given', async () => {
+    wallet = () => ({ result: { preimage: PREIMAGE_HEX } });
+
+    await resolveBackend(makeConfig()).payInvoice('lnbcrt1nwc');
+
+    expect(walletCalls[0].method).toBe('pay_invoice');
+  });
+});
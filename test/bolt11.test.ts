@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBolt11 } from '../src/bolt11';
+import { PAYEE_PUBKEY, signInvoice } from './helpers/bolt11';
+
+// --- Test fixtures ---
+
+// Examples from BOLT11, signed by the spec's payee key
+const SPEC_PAYEE = '03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad';
+const SPEC_HASH = '0001020304050607080900010203040506070809000102030405060708090102';
+const DONATION =
+  'lnbc1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq8rkx3yf5tcsyz3d73gafnh3cax9rn449d9p5uxz9ezhhypd0elx87sjle52x86fux2ypatgddc6k63n7erqz25le42c4u4ecky03ylcqca784w';
+const COFFEE =
+  'lnbc2500u1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpuaztrnwngzn3kdzw5hydlzf03qdgm2hdq27cqv3agm2awhz5se903vruatfhq77w3ls4evs3ch9zw97j25emudupq63nyw24cg27h2rspfj9srp';
+
+const PAYMENT_HASH = 'ab'.repeat(32);
+
+// --- Tests ---
+
+describe('decodeBolt11', () => {
+  describe('spec examples', () => {
+    it('decodes an amountless donation invoice', () => {
+      expect(decodeBolt11(DONATION)).toMatchObject({
+        network: 'bitcoin',
+        amountSats: undefined,
+        paymentHash: SPEC_HASH,
+        description: 'Please consider supporting this project',
+        timestamp: 1496314658,
+        expiry: 3600,
+        payee: SPEC_PAYEE,
+      });
+    });
+
+    it('decodes the amount and expiry of a coffee invoice', () => {
+      expect(decodeBolt11(COFFEE)).toMatchObject({
+        amountMsat: 250_000_000,
+        amountSats: 250_000,
+        description: '1 cup coffee',
+        expiry: 60,
+        payee: SPEC_PAYEE,
+      });
+    });
+
+    it('accepts upper case and a lightning: prefix', () => {
+      expect(decodeBolt11(`lightning:${COFFEE.toUpperCase()}`).amountSats).toBe(250_000);
+    });
+  });
+
+  describe('signed invoices', () => {
+    it('reads every network prefix', () => {
+      for (const network of ['bitcoin', 'testnet', 'signet', 'regtest'] as const) {
+        const invoice = signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 10, network });
+
+        expect(decodeBolt11(invoice).network).toBe(network);
+      }
+    });
+
+    it('keeps millisatoshi precision and rounds sats up', () => {
+      const decoded = decodeBolt11(signInvoice({ paymentHash: PAYMENT_HASH, amountMsat: 1500 }));
+
+      expect(decoded.amountMsat).toBe(1500);
+      expect(decoded.amountSats).toBe(2);
+    });
+
+    it('recovers the payee, or verifies against an explicit one', () => {
+      expect(decodeBolt11(signInvoice({ paymentHash: PAYMENT_HASH })).payee).toBe(PAYEE_PUBKEY);
+      expect(
+        decodeBolt11(signInvoice({ paymentHash: PAYMENT_HASH, payee: PAYEE_PUBKEY })).payee
+      ).toBe(PAYEE_PUBKEY);
+    });
+  });
+
+  describe('rejects', () => {
+    it('a bad checksum', () => {
+      const tampered = COFFEE.slice(0, -1) + (COFFEE.endsWith('p') ? 'q' : 'p');
+
+      expect(() => decodeBolt11(tampered)).toThrow(/checksum/);
+    });
+
+    it('unknown prefixes', () => {
+      expect(() => decodeBolt11('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4')).toThrow(/prefix/);
+    });
+
+    it('sub-millisatoshi amounts', () => {
+      const invoice = signInvoice({ paymentHash: PAYMENT_HASH, amountMsat: 0.5 });
+
+      expect(() => decodeBolt11(invoice)).toThrow(/sub-millisatoshi/);
+    });
+
+    it('a signature that does not match the named payee', () => {
+      const forged = signInvoice({
+        paymentHash: PAYMENT_HASH,
+        payee: PAYEE_PUBKEY,
+        secretKey: '22'.repeat(32),
+      });
+
+      expect(() => decodeBolt11(forged)).toThrow(/signature/);
+    });
+
+    it('an invoice without a payment hash', () => {
+      expect(() => decodeBolt11(signInvoice({ paymentHash: 'ab'.repeat(31) }))).toThrow(
+        /payment hash/
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createBudget, hostMatches } from '../src/budget';
+import { BudgetExceededError, PaymentDeniedError } from '../src/errors';
+
+// --- Test fixtures ---
+
+function thrownBy(fn: () => void): any {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+}
+
+// --- Tests ---
+
+describe('budget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('hostMatches', () => {
+    it('matches exact hosts case-insensitively', () => {
+      expect(hostMatches('API.example.com', 'api.example.com')).toBe(true);
+      expect(hostMatches('api.example.com', 'example.com')).toBe(false);
+    });
+
+    it('matches subdomains with a wildcard', () => {
+      expect(hostMatches('a.b.example.com', '*.example.com')).toBe(true);
+      expect(hostMatches('example.com', '*.example.com')).toBe(false);
+      expect(hostMatches('badexample.com', '*.example.com')).toBe(false);
+    });
+  });
+
+  describe('caps', () => {
+    it('tracks spending without caps', () => {
+      const budget = createBudget();
+      budget.reserve('a.com', 100).commit(2);
+
+      expect(budget.remaining()).toBe(Infinity);
+      expect(budget.spent()).toEqual({
+        totalSats: 102,
+        lastHourSats: 102,
+        lastDaySats: 102,
+        byHost: { 'a.com': 102 },
+      });
+    });
+
+    it('refuses a payment over the total cap with the remaining allowance', () => {
+      const budget = createBudget({ total: 250 });
+      budget.reserve('a.com', 200).commit(0);
+
+      const err = thrownBy(() => budget.check('b.com', 100));
+
+      expect(err).toBeInstanceOf(BudgetExceededError);
+      expect(err).toMatchObject({ limit: 'total', amountSats: 100, remainingSats: 50 });
+      expect(() => budget.check('b.com', 50)).not.toThrow();
+    });
+
+    it('counts routing fees against the caps', () => {
+      const budget = createBudget({ total: 100 });
+      budget.reserve('a.com', 90).commit(5);
+
+      expect(budget.remaining()).toBe(5);
+    });
+
+    it('applies per-host caps, globally or by host name', () => {
+      const flat = createBudget({ perHost: 100 });
+      flat.reserve('a.com', 100).commit(0);
+
+      expect(() => flat.check('a.com', 1)).toThrow(BudgetExceededError);
+      expect(() => flat.check('b.com', 100)).not.toThrow();
+
+      const named = createBudget({ perHost: { 'a.com': 10 } });
+
+      expect(() => named.check('a.com', 11)).toThrow(/perHost/);
+      expect(named.remaining('b.com')).toBe(Infinity);
+    });
+
+    it('frees the rolling windows as time passes', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+      const budget = createBudget({ perHour: 100, perDay: 150 });
+      budget.reserve('a.com', 100).commit(0);
+
+      expect(() => budget.check('a.com', 1)).toThrow(/perHour/);
+
+      vi.setSystemTime(new Date('2026-10-19T01:00:01Z'));
+      expect(budget.remaining()).toBe(50);
+      expect(() => budget.check('a.com', 60)).toThrow(/perDay/);
+
+      vi.setSystemTime(new Date('2026-10-20T00:00:01Z'));
+      expect(budget.remaining()).toBe(100);
+      expect(budget.spent()).toMatchObject({ totalSats: 100, lastDaySats: 0 });
+    });
+
+    it('holds reserved amounts until they are released', () => {
+      const budget = createBudget({ total: 100 });
+      const first = budget.reserve('a.com', 80);
+
+      expect(() => budget.reserve('a.com', 80)).toThrow(BudgetExceededError);
+
+      first.release();
+      expect(budget.remaining()).toBe(100);
+      expect(budget.spent().totalSats).toBe(0);
+    });
+
+    it('rejects invalid caps', () => {
+      expect(() => createBudget({ total: -1 })).toThrow(/Invalid budget cap for total/);
+      expect(() => createBudget({ perHost: { 'a.com': NaN } })).toThrow(/a\.com/);
+    });
+  });
+
+  describe('host lists', () => {
+    it('refuses hosts on the deny list, even if allowed', () => {
+      const budget = createBudget({ allowHosts: ['*.example.com'], denyHosts: ['evil.example.com'] });
+
+      expect(() => budget.check('evil.example.com', 1)).toThrow(PaymentDeniedError);
+      expect(() => budget.check('api.example.com', 1)).not.toThrow();
+    });
+
+    it('refuses hosts missing from the allow list', () => {
+      const budget = createBudget({ allowHosts: ['api.example.com'] });
+
+      expect(() => budget.check('other.com', 1)).toThrow(/not allowed/);
+    });
+  });
+});
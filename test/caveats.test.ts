@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeServiceName,
+  defaultSatisfiers,
+  encodeServiceName,
+  parseCaveat,
+  verifyCaveats,
+} from '../src/caveats';
+import type { CaveatContext, CaveatSatisfier } from '../src/types';
+
+// --- Test fixtures ---
+
+function makeContext(overrides: Partial<CaveatContext> = {}): CaveatContext {
+  return {
+    service: 'wisdom',
+    tier: 0,
+    capabilities: [],
+    method: 'GET',
+    path: '/api/wisdom',
+    ip: '10.0.0.1',
+    headers: {},
+    now: Date.parse('2026-10-19T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+function check(caveats: string[], context = makeContext(), custom: CaveatSatisfier[] = []) {
+  return verifyCaveats(caveats, defaultSatisfiers(context.service, {}, custom), context);
+}
+
+const NOW_SECONDS = Date.parse('2026-10-19T12:00:00Z') / 1000;
+
+// --- Tests ---
+
+describe('caveats', () => {
+  describe('parseCaveat', () => {
+    it('splits on the first equals sign', () => {
+      expect(parseCaveat('services=a:0,b:1')).toEqual({
+        condition: 'services',
+        value: 'a:0,b:1',
+        raw: 'services=a:0,b:1',
+      });
+      expect(parseCaveat('note=x=y').value).toBe('x=y');
+    });
+
+    it('trims whitespace around condition and value', () => {
+      expect(parseCaveat('ip = 10.0.0.1')).toMatchObject({ condition: 'ip', value: '10.0.0.1' });
+    });
+
+    it('throws without a condition', () => {
+      expect(() => parseCaveat('no-equals')).toThrow(/Malformed/);
+      expect(() => parseCaveat('=value')).toThrow(/Malformed/);
+    });
+  });
+
+  describe('services', () => {
+    it('accepts a token for the requested service', () => {
+      expect(check(['services=echo:0,wisdom:0'])).toEqual({ ok: true });
+    });
+
+    it('rejects a token for a different service', () => {
+      const result = check(['services=echo:0']);
+
+      expect(result).toMatchObject({ ok: false, caveat: 'services=echo:0' });
+    });
+
+    it('rejects a tier below the one the route requires', () => {
+      expect(check(['services=wisdom:0'], makeContext({ tier: 1 })).ok).toBe(false);
+      expect(check(['services=wisdom:2'], makeContext({ tier: 1 })).ok).toBe(true);
+    });
+
+    it('rejects a later caveat that adds a service', () => {
+      const result = check(
+        ['services=echo:0', 'services=echo:0,wisdom:0'],
+        makeContext({ service: 'echo' })
+      );
+
+      expect(result).toMatchObject({ ok: false, reason: 'Caveat widens an earlier caveat' });
+    });
+
+    it('allows a later caveat that narrows the service list', () => {
+      expect(check(['services=echo:0,wisdom:1', 'services=wisdom:0']).ok).toBe(true);
+    });
+
+    it('reads percent-encoded service names', () => {
+      const context = makeContext({ service: '/files/x,/api/wisdom' });
+
+      expect(check([`services=${encodeServiceName(context.service)}:0`], context).ok).toBe(true);
+      expect(check([`services=${encodeServiceName(context.service)}:0`]).ok).toBe(false);
+    });
+  });
+
+  describe('service names', () => {
+    it('percent-encodes caveat separators, whitespace and %', () => {
+      expect(encodeServiceName('/a,b:c=d e%20')).toBe('/a%2Cb%3Ac%3Dd%20e%2520');
+      expect(encodeServiceName('/api/wisdom')).toBe('/api/wisdom');
+    });
+
+    it('round-trips through decodeServiceName', () => {
+      expect(decodeServiceName(encodeServiceName('/a,b:c=d e%20'))).toBe('/a,b:c=d e%20');
+      expect(decodeServiceName('100%')).toBe('100%');
+    });
+  });
+
+  describe('capabilities', () => {
+    it('accepts when every required capability is granted', () => {
+      const context = makeContext({ capabilities: ['read'] });
+
+      expect(check(['wisdom_capabilities=read,write'], context).ok).toBe(true);
+    });
+
+    it('rejects when a required capability is missing', () => {
+      const context = makeContext({ capabilities: ['write'] });
+
+      expect(check(['wisdom_capabilities=read'], context)).toMatchObject({
+        ok: false,
+        caveat: 'wisdom_capabilities=read',
+      });
+    });
+
+    it('rejects a later caveat that adds capabilities', () => {
+      const result = check(['wisdom_capabilities=read', 'wisdom_capabilities=read,write']);
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('ignores capabilities scoped to another service', () => {
+      const context = makeContext({ capabilities: ['read'] });
+
+      expect(check(['echo_capabilities=none', 'wisdom_capabilities=read'], context).ok).toBe(true);
+    });
+  });
+
+  describe('valid_until', () => {
+    it('accepts before the expiry', () => {
+      expect(check([`wisdom_valid_until=${NOW_SECONDS + 60}`]).ok).toBe(true);
+    });
+
+    it('rejects at or after the expiry', () => {
+      expect(check([`wisdom_valid_until=${NOW_SECONDS}`]).ok).toBe(false);
+    });
+
+    it('rejects a later caveat that extends the expiry', () => {
+      const result = check([
+        `wisdom_valid_until=${NOW_SECONDS + 60}`,
+        `wisdom_valid_until=${NOW_SECONDS + 3600}`,
+      ]);
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('rejects a non-numeric expiry', () => {
+      expect(check(['wisdom_valid_until=tomorrow'])).toMatchObject({
+        ok: false,
+        reason: 'Malformed caveat',
+      });
+    });
+  });
+
+  describe('constraints', () => {
+    it('runs each constraint through its registered check', () => {
+      const context = makeContext();
+      const satisfiers = defaultSatisfiers('wisdom', {
+        max_words: (value) => Number(value) >= 10,
+      });
+
+      expect(verifyCaveats(['wisdom_constraints=max_words:20'], satisfiers, context).ok).toBe(true);
+      expect(verifyCaveats(['wisdom_constraints=max_words:5'], satisfiers, context).ok).toBe(false);
+    });
+
+    it('fails constraints nobody registered a check for', () => {
+      expect(check(['wisdom_constraints=region:eu']).ok).toBe(false);
+    });
+  });
+
+  describe('custom satisfiers', () => {
+    const ipSatisfier: CaveatSatisfier = {
+      condition: 'ip',
+      satisfyFinal: (caveat, context) => caveat.value === context.ip,
+    };
+
+    it('checks custom conditions', () => {
+      expect(check(['ip=10.0.0.1'], makeContext(), [ipSatisfier]).ok).toBe(true);
+      expect(check(['ip=10.0.0.2'], makeContext(), [ipSatisfier])).toMatchObject({
+        ok: false,
+        caveat: 'ip=10.0.0.2',
+      });
+    });
+
+    it('fails caveats with no registered satisfier', () => {
+      expect(check(['ip=10.0.0.1'])).toMatchObject({
+        ok: false,
+        reason: 'No satisfier for caveat',
+      });
+    });
+
+    it('replaces a built-in satisfier with the same condition', () => {
+      const anyService: CaveatSatisfier = { condition: 'services', satisfyFinal: () => true };
+
+      expect(check(['services=echo:0'], makeContext(), [anyService]).ok).toBe(true);
+    });
+
+    it('treats a throwing satisfier as unsatisfied', () => {
+      const broken: CaveatSatisfier = {
+        condition: 'user_tier',
+        satisfyFinal: () => {
+          throw new Error('boom');
+        },
+      };
+
+      expect(check(['user_tier=gold'], makeContext(), [broken]).ok).toBe(false);
+    });
+  });
+
+  it('requires every caveat to hold', () => {
+    const result = check(['services=wisdom:0', `wisdom_valid_until=${NOW_SECONDS - 1}`]);
+
+    expect(result).toMatchObject({ ok: false, caveat: `wisdom_valid_until=${NOW_SECONDS - 1}` });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseAuthenticateHeader, parseL402Challenge } from '../src/challenge';
+import { ChallengeParseError } from '../src/errors';
+
+// --- Test fixtures ---
+
+const MACAROON = 'AgEEbHNhdAJCAAB+/abc==';
+const INVOICE = 'lnbc100n1pjtest';
+
+// --- Tests ---
+
+describe('challenge parsing', () => {
+  describe('parseAuthenticateHeader', () => {
+    it('parses a single L402 challenge', () => {
+      expect(parseAuthenticateHeader(`L402 macaroon="${MACAROON}", invoice="${INVOICE}"`)).toEqual([
+        { scheme: 'L402', params: { macaroon: MACAROON, invoice: INVOICE } },
+      ]);
+    });
+
+    it('splits several challenges in one header', () => {
+      const challenges = parseAuthenticateHeader(
+        `Bearer realm="api", error="invalid_token", LSAT macaroon="${MACAROON}", invoice="${INVOICE}", Basic dXNlcjpwYXNz==`
+      );
+
+      expect(challenges.map((c) => c.scheme)).toEqual(['Bearer', 'LSAT', 'Basic']);
+      expect(challenges[0].params).toEqual({ realm: 'api', error: 'invalid_token' });
+      expect(challenges[1].params.invoice).toBe(INVOICE);
+      expect(challenges[2].token68).toBe('dXNlcjpwYXNz==');
+    });
+
+    it('unescapes quoted strings, including commas and quotes', () => {
+      const [challenge] = parseAuthenticateHeader(
+        'L402 realm="a \\"quoted\\", \\\\ value", macaroon=abc, invoice=lnbc1'
+      );
+
+      expect(challenge.params).toEqual({
+        realm: 'a "quoted", \\ value',
+        macaroon: 'abc',
+        invoice: 'lnbc1',
+      });
+    });
+
+    it('tolerates extra whitespace, empty elements and unquoted base64', () => {
+      const [challenge] = parseAuthenticateHeader(
+        `  l402   macaroon = ${MACAROON} ,, invoice=${INVOICE} ,`
+      );
+
+      expect(challenge).toEqual({ scheme: 'l402', params: { macaroon: MACAROON, invoice: INVOICE } });
+    });
+
+    it('lowercases parameter names', () => {
+      const [challenge] = parseAuthenticateHeader(`L402 Macaroon="m", INVOICE="i"`);
+
+      expect(challenge.params).toEqual({ macaroon: 'm', invoice: 'i' });
+    });
+
+    it('throws ChallengeParseError on malformed headers', () => {
+      expect(() => parseAuthenticateHeader('L402 macaroon="open')).toThrow(ChallengeParseError);
+      expect(() => parseAuthenticateHeader('L402 macaroon="m", invoice=')).toThrow(
+        ChallengeParseError
+      );
+      expect(() => parseAuthenticateHeader('L402 macaroon "m"')).toThrow(/expected a parameter/);
+      expect(() => parseAuthenticateHeader('"L402"')).toThrow(/unexpected character/);
+    });
+  });
+
+  describe('parseL402Challenge', () => {
+    it('prefers L402 over LSAT', () => {
+      const parsed = parseL402Challenge(
+        `LSAT macaroon="old", invoice="lnbc1old", L402 macaroon="${MACAROON}", invoice="${INVOICE}"`
+      );
+
+      expect(parsed).toMatchObject({ scheme: 'L402', macaroon: MACAROON, invoice: INVOICE });
+    });
+
+    it('accepts a legacy LSAT challenge', () => {
+      expect(parseL402Challenge(`LSAT macaroon="${MACAROON}", invoice="${INVOICE}"`).scheme).toBe(
+        'LSAT'
+      );
+    });
+
+    it('throws when there is no L402 challenge', () => {
+      expect(() => parseL402Challenge('Bearer realm="api"')).toThrow(
+        expect.objectContaining({ name: 'ChallengeParseError', header: 'Bearer realm="api"' })
+      );
+    });
+
+    it('throws when the macaroon or invoice is missing', () => {
+      expect(() => parseL402Challenge(`L402 macaroon="${MACAROON}"`)).toThrow(/missing invoice/);
+      expect(() => parseL402Challenge(`L402 invoice="${INVOICE}"`)).toThrow(/missing macaroon/);
+    });
+  });
+});
@@ -1,35 +1,61 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import crypto from 'crypto';
 import { createL402Client } from '../src/client';
+import '../src/node-tls';
+import {
+  addFirstPartyCaveat,
+  mintMacaroon,
+  newIdentifier,
+  serializeMacaroon,
+} from '../src/macaroon';
+import { createMemoryTokenStore } from '../src/stores';
 import type { LndConfig } from '../src/types';
+import { signInvoice } from './helpers/bolt11';
+import {
+  BudgetExceededError,
+  ChallengeParseError,
+  InsufficientBalanceError,
+  PaymentDeniedError,
+  PaymentInFlightError,
+} from '../src/errors';
 
 // --- Test fixtures ---
 
 const PREIMAGE_HEX = 'aabbccdd00112233aabbccdd00112233aabbccdd00112233aabbccdd00112233';
-const PREIMAGE_B64 = Buffer.from(PREIMAGE_HEX, 'hex').toString('base64');
 const PAYMENT_HASH = crypto
   .createHash('sha256')
   .update(Buffer.from(PREIMAGE_HEX, 'hex'))
   .digest('hex');
 
+const INVOICE = signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 100 });
+
 const node: LndConfig = {
   restHost: 'https://localhost:8081',
   macaroon: 'deadbeef',
 };
 
-const MACAROON_B64 = Buffer.from(
-  JSON.stringify({ version: 1, paymentHash: PAYMENT_HASH, service: '/api/test', issuedAt: Date.now() })
-).toString('base64');
+// Minted with a key the client never sees, like a real server would
+async function makeMacaroon(...caveats: string[]) {
+  let macaroon = await mintMacaroon({
+    rootKey: 'server-secret',
+    identifier: newIdentifier(PAYMENT_HASH),
+    location: 'l402',
+  });
+  for (const caveat of caveats) macaroon = await addFirstPartyCaveat(macaroon, caveat);
+  return serializeMacaroon(macaroon);
+}
+
+const MACAROON_B64 = await makeMacaroon('services=/api/test:0');
 
-function make402Response() {
+function make402Response(macaroon = MACAROON_B64, invoice = INVOICE) {
   return {
     status: 402,
     json: () =>
       Promise.resolve({
         code: 402,
         message: 'Payment Required',
-        invoice: 'lnbc100n1fake_invoice',
-        macaroon: MACAROON_B64,
+        invoice,
+        macaroon,
         price: 100,
         description: 'L402 access',
       }),
@@ -43,16 +69,18 @@ function make200Response(data: any = { result: 'ok' }) {
   };
 }
 
-function makeLndPaymentResponse() {
-  return {
-    ok: true,
-    json: () =>
-      Promise.resolve({
-        payment_error: '',
-        payment_preimage: PREIMAGE_B64,
-        payment_route: { total_fees: '0', total_amt: '100', hops: [] },
-      }),
+// LND's /v2/router/send streams one JSON payment update per line
+function makeLndPaymentResponse(payment: Record<string, string> = {}) {
+  const result = {
+    payment_hash: PAYMENT_HASH,
+    payment_preimage: PREIMAGE_HEX,
+    status: 'SUCCEEDED',
+    fee_sat: '0',
+    fee_msat: '0',
+    failure_reason: 'FAILURE_REASON_NONE',
+    ...payment,
   };
+  return new Response(`${JSON.stringify({ result })}\n`);
 }
 
 // --- Tests ---
@@ -130,12 +158,12 @@ describe('createL402Client', () => {
 
       // Second call should be to LND
       const lndCall = fetchMock.mock.calls[1];
-      expect(lndCall[0]).toBe('https://localhost:8081/v1/channels/transactions');
+      expect(lndCall[0]).toBe('https://localhost:8081/v2/router/send');
       expect(lndCall[1].method).toBe('POST');
       expect(lndCall[1].headers['Grpc-Metadata-macaroon']).toBe('deadbeef');
 
       const lndBody = JSON.parse(lndCall[1].body);
-      expect(lndBody.payment_request).toBe('lnbc100n1fake_invoice');
+      expect(lndBody.payment_request).toBe(INVOICE);
     });
   });
 
@@ -146,7 +174,7 @@ describe('createL402Client', () => {
         json: () =>
           Promise.resolve({
             code: 402,
-            invoice: 'lnbc10000n1expensive',
+            invoice: signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 50000 }),
             macaroon: MACAROON_B64,
             price: 50000,
             description: 'Expensive',
@@ -166,7 +194,7 @@ describe('createL402Client', () => {
         json: () =>
           Promise.resolve({
             code: 402,
-            invoice: 'lnbc_over_limit',
+            invoice: signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 10001 }),
             macaroon: MACAROON_B64,
             price: 10001,
             description: 'Over default limit',
@@ -188,7 +216,7 @@ describe('createL402Client', () => {
           json: () =>
             Promise.resolve({
               code: 402,
-              invoice: 'lnbc_at_limit',
+              invoice: signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 1000 }),
               macaroon: MACAROON_B64,
               price: 1000,
               description: 'At limit',
@@ -235,6 +263,104 @@ describe('createL402Client', () => {
       expect(fetchMock).toHaveBeenCalledTimes(4);
     });
 
+    it('drops an expired token instead of sending it', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+      const expiresAt = Date.parse('2026-10-19T01:00:00Z') / 1000;
+      const expiringMacaroon = serializeMacaroon(
+        await addFirstPartyCaveat(
+          await mintMacaroon({ rootKey: 'server-secret', identifier: newIdentifier(PAYMENT_HASH) }),
+          `/api/joke_valid_until=${expiresAt}`
+        )
+      );
+      const challenge = {
+        status: 402,
+        json: () =>
+          Promise.resolve({
+            code: 402,
+            message: 'Payment Required',
+            invoice: signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 100 }),
+            macaroon: expiringMacaroon,
+            price: 100,
+            description: 'Hourly pass',
+          }),
+      };
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(challenge)
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response())
+        // Still valid: cached token is sent
+        .mockResolvedValueOnce(make200Response())
+        // Expired: request goes out without a token
+        .mockResolvedValueOnce(make200Response());
+
+      vi.stubGlobal('fetch', fetchMock);
+
+      try {
+        const client = createL402Client({ node });
+        await client.fetch('https://api.example.com/joke');
+
+        vi.setSystemTime(new Date('2026-10-19T00:59:00Z'));
+        await client.fetch('https://api.example.com/joke');
+        expect(fetchMock.mock.calls[3][1].headers.Authorization).toMatch(/^L402 /);
+
+        vi.setSystemTime(new Date('2026-10-19T01:00:00Z'));
+        await client.fetch('https://api.example.com/joke');
+        expect(fetchMock.mock.calls[4][1].headers.Authorization).toBeUndefined();
+        expect(await client.cacheSize()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('records the paid token in the token store', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockResolvedValueOnce(make402Response())
+          .mockResolvedValueOnce(makeLndPaymentResponse())
+          .mockResolvedValueOnce(make200Response())
+      );
+      const tokenStore = createMemoryTokenStore();
+
+      await createL402Client({ node, tokenStore }).fetch('https://api.example.com/api/test');
+
+      expect(await tokenStore.get('https://api.example.com/api/test')).toEqual({
+        scope: 'https://api.example.com/api/test',
+        scheme: 'L402',
+        macaroon: MACAROON_B64,
+        preimage: PREIMAGE_HEX,
+        price: 100,
+        issuedAt: expect.any(Number),
+        expiresAt: undefined,
+      });
+    });
+
+    it('reuses stored tokens after a restart', async () => {
+      const tokenStore = createMemoryTokenStore();
+      await tokenStore.set({
+        scope: 'https://api.example.com/joke',
+        scheme: 'L402',
+        macaroon: MACAROON_B64,
+        preimage: PREIMAGE_HEX,
+        price: 100,
+        issuedAt: Date.now(),
+      });
+      const fetchMock = vi.fn().mockResolvedValueOnce(make200Response({ joke: 'again' }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node, tokenStore }).fetch(
+        'https://api.example.com/joke'
+      );
+
+      expect(result).toEqual({ data: { joke: 'again' }, paid: false });
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(
+        `L402 ${MACAROON_B64}:${PREIMAGE_HEX}`
+      );
+    });
+
     it('tracks cache size correctly', async () => {
       const fetchMock = vi
         .fn()
@@ -245,10 +371,10 @@ describe('createL402Client', () => {
       vi.stubGlobal('fetch', fetchMock);
 
       const client = createL402Client({ node });
-      expect(client.cacheSize()).toBe(0);
+      expect(await client.cacheSize()).toBe(0);
 
       await client.fetch('https://api.example.com/test');
-      expect(client.cacheSize()).toBe(1);
+      expect(await client.cacheSize()).toBe(1);
     });
 
     it('clears cache when requested', async () => {
@@ -262,10 +388,10 @@ describe('createL402Client', () => {
 
       const client = createL402Client({ node });
       await client.fetch('https://api.example.com/test');
-      expect(client.cacheSize()).toBe(1);
+      expect(await client.cacheSize()).toBe(1);
 
-      client.clearCache();
-      expect(client.cacheSize()).toBe(0);
+      await client.clearCache();
+      expect(await client.cacheSize()).toBe(0);
     });
   });
 
@@ -274,15 +400,13 @@ describe('createL402Client', () => {
       const fetchMock = vi
         .fn()
         .mockResolvedValueOnce(make402Response())
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () =>
-            Promise.resolve({
-              payment_error: 'insufficient_balance',
-              payment_preimage: '',
-              payment_route: null,
-            }),
-        });
+        .mockResolvedValueOnce(
+          makeLndPaymentResponse({
+            payment_preimage: '',
+            status: 'FAILED',
+            failure_reason: 'FAILURE_REASON_INSUFFICIENT_BALANCE',
+          })
+        );
 
       vi.stubGlobal('fetch', fetchMock);
 
@@ -290,7 +414,7 @@ describe('createL402Client', () => {
 
       await expect(
         client.fetch('https://api.example.com/test')
-      ).rejects.toThrow(/insufficient_balance/);
+      ).rejects.toThrow(/INSUFFICIENT_BALANCE/);
     });
 
     it('throws when LND REST call fails', async () => {
@@ -301,7 +425,9 @@ describe('createL402Client', () => {
           ok: false,
           status: 500,
           statusText: 'Internal Server Error',
-        });
+        })
+        // The payment lookup: LND never started it
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
 
       vi.stubGlobal('fetch', fetchMock);
 
@@ -313,6 +439,1053 @@ describe('createL402Client', () => {
     });
   });
 
+  describe('macaroon checks', () => {
+    it('refuses to pay when the macaroon is not an L402 macaroon', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce({
+        status: 402,
+        json: () =>
+          Promise.resolve({
+            code: 402,
+            invoice: INVOICE,
+            macaroon: Buffer.from('{"paymentHash":"00"}').toString('base64'),
+            price: 100,
+            description: 'Bogus',
+          }),
+      });
+
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = createL402Client({ node });
+
+      await expect(
+        client.fetch('https://api.example.com/test')
+      ).rejects.toThrow(/invalid L402 macaroon/);
+      // Never reached LND
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws when the preimage does not match the macaroon', async () => {
+      const otherMacaroon = serializeMacaroon(
+        await mintMacaroon({ rootKey: 'server-secret', identifier: newIdentifier('00'.repeat(32)) })
+      );
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({
+          status: 402,
+          json: () =>
+            Promise.resolve({
+              code: 402,
+              invoice: signInvoice({ paymentHash: '00'.repeat(32), amountSats: 100 }),
+              macaroon: otherMacaroon,
+              price: 100,
+              description: 'Mismatched',
+            }),
+        })
+        .mockResolvedValueOnce(makeLndPaymentResponse());
+
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = createL402Client({ node });
+
+      await expect(
+        client.fetch('https://api.example.com/test')
+      ).rejects.toThrow(/does not match/);
+    });
+  });
+
+  describe('WWW-Authenticate challenges', () => {
+    function makeHeaderResponse(header: string | null, body?: any) {
+      return {
+        status: 402,
+        headers: new Headers(header ? { 'WWW-Authenticate': header } : {}),
+        json: () =>
+          body === undefined
+            ? Promise.reject(new SyntaxError('Unexpected token < in JSON'))
+            : Promise.resolve(body),
+      };
+    }
+
+    it('pays from the header when the body is not JSON', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          makeHeaderResponse(`L402 macaroon="${MACAROON_B64}", invoice="${INVOICE}"`)
+        )
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response({ ok: true }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node }).fetch('https://api.example.com/html');
+
+      expect(result).toMatchObject({ paid: true, price: 100, data: { ok: true } });
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body).payment_request).toBe(INVOICE);
+    });
+
+    it('prefers the header over the body', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          makeHeaderResponse(
+            `Bearer realm="api", L402 macaroon="${MACAROON_B64}", invoice="${INVOICE}"`,
+            { macaroon: 'bogus', invoice: 'lnbc1bogus', price: 100 }
+          )
+        )
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response());
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node }).fetch('https://api.example.com/test');
+
+      expect(result.paid).toBe(true);
+    });
+
+    it('answers a legacy LSAT challenge with an LSAT token', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          makeHeaderResponse(`LSAT macaroon="${MACAROON_B64}", invoice="${INVOICE}"`)
+        )
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response());
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node }).fetch('https://api.example.com/test');
+
+      expect(result.paid).toBe(true);
+      expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe(
+        `LSAT ${MACAROON_B64}:${PREIMAGE_HEX}`
+      );
+    });
+
+    it('answers with L402 when the server offers both schemes', async () => {
+      const headers = new Headers();
+      headers.append('WWW-Authenticate', `LSAT macaroon="${MACAROON_B64}", invoice="${INVOICE}"`);
+      headers.append('WWW-Authenticate', `L402 macaroon="${MACAROON_B64}", invoice="${INVOICE}"`);
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({ status: 402, headers, json: () => Promise.resolve({}) })
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response());
+      vi.stubGlobal('fetch', fetchMock);
+
+      await createL402Client({ node }).fetch('https://api.example.com/test');
+
+      expect(fetchMock.mock.calls[2][1].headers.Authorization).toMatch(/^L402 /);
+    });
+
+    it('falls back to the body when the header is unusable', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockResolvedValueOnce(
+            makeHeaderResponse('Bearer realm="api"', {
+              code: 402,
+              invoice: INVOICE,
+              macaroon: MACAROON_B64,
+              price: 100,
+              description: 'L402 access',
+            })
+          )
+          .mockResolvedValueOnce(makeLndPaymentResponse())
+          .mockResolvedValueOnce(make200Response())
+      );
+
+      const result = await createL402Client({ node }).fetch('https://api.example.com/test');
+
+      expect(result.paid).toBe(true);
+    });
+
+    it('throws ChallengeParseError when neither header nor body has a challenge', async () => {
+      const client = createL402Client({ node });
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(makeHeaderResponse(null)));
+      await expect(client.fetch('https://api.example.com/test')).rejects.toBeInstanceOf(
+        ChallengeParseError
+      );
+
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValueOnce(makeHeaderResponse('L402 macaroon="unterminated'))
+      );
+      await expect(client.fetch('https://api.example.com/test')).rejects.toThrow(
+        /unterminated quoted string/
+      );
+    });
+  });
+
+  describe('invoice checks', () => {
+    function challengeWith(invoice: string, price = 100) {
+      return {
+        status: 402,
+        json: () =>
+          Promise.resolve({
+            code: 402,
+            invoice,
+            macaroon: MACAROON_B64,
+            price,
+            description: 'L402 access',
+          }),
+      };
+    }
+
+    it('checks the invoice amount, not the price in the body', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          challengeWith(signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 1_000_000 }), 1)
+        );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const client = createL402Client({ node, maxAutoPaySats: 1000 });
+
+      await expect(client.fetch('https://api.example.com/test')).rejects.toThrow(
+        /L402 price \(1000000 sats\) exceeds maxAutoPaySats/
+      );
+      // Never reached LND
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports the invoice amount as the price', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockResolvedValueOnce(
+            challengeWith(signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 42 }), 1)
+          )
+          .mockResolvedValueOnce(makeLndPaymentResponse())
+          .mockResolvedValueOnce(make200Response())
+      );
+
+      const result = await createL402Client({ node }).fetch('https://api.example.com/test');
+
+      expect(result.price).toBe(42);
+    });
+
+    it('refuses an invoice for a different payment hash than the macaroon', async () => {
+      const invoice = signInvoice({ paymentHash: '00'.repeat(32), amountSats: 100 });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(challengeWith(invoice)));
+
+      await expect(
+        createL402Client({ node }).fetch('https://api.example.com/test')
+      ).rejects.toThrow(/payment hash does not match the macaroon/);
+    });
+
+    it('refuses an expired invoice', async () => {
+      const invoice = signInvoice({
+        paymentHash: PAYMENT_HASH,
+        amountSats: 100,
+        timestamp: Math.floor(Date.now() / 1000) - 600,
+        expiry: 300,
+      });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(challengeWith(invoice)));
+
+      await expect(
+        createL402Client({ node }).fetch('https://api.example.com/test')
+      ).rejects.toThrow(/expired/);
+    });
+
+    it('refuses invoices for another network', async () => {
+      const invoice = signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 100, network: 'regtest' });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(challengeWith(invoice)));
+
+      await expect(
+        createL402Client({ node }).fetch('https://api.example.com/test')
+      ).rejects.toThrow(/for regtest, but the client is set to bitcoin/);
+    });
+
+    it('pays invoices for the configured network', async () => {
+      const invoice = signInvoice({ paymentHash: PAYMENT_HASH, amountSats: 100, network: 'regtest' });
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockResolvedValueOnce(challengeWith(invoice))
+          .mockResolvedValueOnce(makeLndPaymentResponse())
+          .mockResolvedValueOnce(make200Response())
+      );
+
+      const result = await createL402Client({ node, network: 'regtest' }).fetch(
+        'https://api.example.com/test'
+      );
+
+      expect(result.paid).toBe(true);
+    });
+
+    it('refuses amountless and malformed invoices', async () => {
+      const client = createL402Client({ node });
+
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValueOnce(challengeWith(signInvoice({ paymentHash: PAYMENT_HASH })))
+      );
+      await expect(client.fetch('https://api.example.com/test')).rejects.toThrow(/no amount/);
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(challengeWith('lnbc100n1fake_invoice')));
+      await expect(client.fetch('https://api.example.com/test')).rejects.toThrow(
+        /invalid L402 invoice/
+      );
+    });
+  });
+
+  describe('custom Lightning backend', () => {
+    it('pays through the backend instead of LND REST', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response())
+        .mockResolvedValueOnce(make200Response({ joke: 'funny' }));
+      vi.stubGlobal('fetch', fetchMock);
+      const backend = {
+        createInvoice: vi.fn(),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn().mockResolvedValue({ preimage: PREIMAGE_HEX, feeSats: 1 }),
+        decodeInvoice: vi.fn(),
+      };
+
+      const client = createL402Client({ node: backend });
+      const result = await client.fetch('https://api.example.com/joke');
+
+      expect(backend.payInvoice).toHaveBeenCalledWith(INVOICE, undefined);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result.paid).toBe(true);
+      expect(result.preimage).toBe(PREIMAGE_HEX);
+    });
+
+    it('passes the payment options and reports the fee paid', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValueOnce(make402Response()).mockResolvedValueOnce(make200Response())
+      );
+      const backend = {
+        createInvoice: vi.fn(),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn().mockResolvedValue({ preimage: PREIMAGE_HEX, feeSats: 2 }),
+        decodeInvoice: vi.fn(),
+      };
+      const payment = { feeLimitSats: 5, timeoutSeconds: 30 };
+
+      const result = await createL402Client({ node: backend, payment }).fetch(
+        'https://api.example.com/joke'
+      );
+
+      expect(backend.payInvoice).toHaveBeenCalledWith(INVOICE, payment);
+      expect(result).toMatchObject({ paid: true, price: 100, feeSats: 2 });
+    });
+  });
+
+  describe('spending budget', () => {
+    function makeBackend() {
+      return {
+        createInvoice: vi.fn(),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn().mockResolvedValue({ preimage: PREIMAGE_HEX, feeSats: 1 }),
+        decodeInvoice: vi.fn(),
+      };
+    }
+
+    // Each path is its own service, so every path needs its own token
+    function stubPaidFetch() {
+      const fetchMock = vi.fn(async (url: string, init?: RequestInit) =>
+        (init?.headers as Record<string, string>)?.Authorization
+          ? make200Response()
+          : make402Response(await makeMacaroon(`services=${new URL(url).pathname}:0`))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('tracks spending including fees', async () => {
+      stubPaidFetch();
+      const client = createL402Client({ node: makeBackend() });
+
+      await client.fetch('https://api.example.com/a');
+      await client.fetch('https://other.example.com/b');
+
+      expect(client.spent()).toEqual({
+        totalSats: 202,
+        lastHourSats: 202,
+        lastDaySats: 202,
+        byHost: { 'api.example.com': 101, 'other.example.com': 101 },
+      });
+      expect(client.budgetRemaining()).toBe(Infinity);
+    });
+
+    it('throws BudgetExceededError once a cap is reached, without paying', async () => {
+      stubPaidFetch();
+      const backend = makeBackend();
+      const client = createL402Client({ node: backend, budget: { perHost: 150 } });
+
+      await client.fetch('https://api.example.com/a');
+      const err = await client.fetch('https://api.example.com/b').catch((e) => e);
+
+      expect(err).toBeInstanceOf(BudgetExceededError);
+      expect(err).toMatchObject({ limit: 'perHost', amountSats: 100, remainingSats: 49 });
+      expect(backend.payInvoice).toHaveBeenCalledTimes(1);
+      expect(client.budgetRemaining('api.example.com')).toBe(49);
+      expect(client.budgetRemaining('other.example.com')).toBe(150);
+    });
+
+    it('does not let concurrent payments overshoot a cap', async () => {
+      stubPaidFetch();
+      const backend = makeBackend();
+      const client = createL402Client({ node: backend, budget: { total: 150 } });
+
+      const results = await Promise.allSettled([
+        client.fetch('https://api.example.com/a'),
+        client.fetch('https://api.example.com/b'),
+      ]);
+
+      expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(backend.payInvoice).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives the amount back when the payment fails', async () => {
+      stubPaidFetch();
+      const backend = makeBackend();
+      backend.payInvoice.mockRejectedValueOnce(new Error('no route'));
+      const client = createL402Client({ node: backend, budget: { total: 100 } });
+
+      await expect(client.fetch('https://api.example.com/a')).rejects.toThrow(/no route/);
+      expect(client.budgetRemaining()).toBe(100);
+
+      await expect(client.fetch('https://api.example.com/a')).resolves.toMatchObject({ paid: true });
+    });
+
+    it('refuses denied hosts', async () => {
+      const fetchMock = stubPaidFetch();
+      const backend = makeBackend();
+      const client = createL402Client({ node: backend, budget: { denyHosts: ['*.example.com'] } });
+
+      await expect(client.fetch('https://api.example.com/a')).rejects.toBeInstanceOf(
+        PaymentDeniedError
+      );
+      expect(backend.payInvoice).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks approve before paying and respects a refusal', async () => {
+      stubPaidFetch();
+      const backend = makeBackend();
+      const approve = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      const client = createL402Client({ node: backend, budget: { total: 1000, approve } });
+
+      await client.fetch('https://api.example.com/a');
+      await expect(client.fetch('https://api.example.com/b')).rejects.toThrow(/not approved/);
+
+      expect(approve).toHaveBeenCalledTimes(2);
+      expect(approve.mock.calls[0][0]).toMatchObject({ invoice: INVOICE, price: 100 });
+      expect(approve.mock.calls[1][1]).toMatchObject({
+        url: 'https://api.example.com/b',
+        host: 'api.example.com',
+        amountSats: 100,
+        paymentHash: PAYMENT_HASH,
+        remainingSats: 899,
+        spent: { totalSats: 101 },
+      });
+      expect(backend.payInvoice).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('token scopes', () => {
+    function authOf(call: any[]) {
+      return call[1].headers.Authorization;
+    }
+
+    it('reuses a path token across query strings', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response())
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response())
+        .mockResolvedValueOnce(make200Response({ second: true }));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = createL402Client({ node });
+
+      await client.fetch('https://api.example.com/api/test?x=1');
+      const result = await client.fetch('https://api.example.com/api/test?x=2');
+
+      expect(result).toEqual({ data: { second: true }, paid: false });
+      expect(authOf(fetchMock.mock.calls[3])).toBe(`L402 ${MACAROON_B64}:${PREIMAGE_HEX}`);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('covers sibling paths when the server sends a scope hint', async () => {
+      const tokenStore = createMemoryTokenStore();
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({
+          status: 402,
+          headers: new Headers({
+            'WWW-Authenticate': `L402 macaroon="${MACAROON_B64}", invoice="${INVOICE}", scope="/api/"`,
+          }),
+          json: () => Promise.reject(new SyntaxError('Unexpected end of JSON input')),
+        })
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response())
+        .mockResolvedValueOnce(make200Response());
+      vi.stubGlobal('fetch', fetchMock);
+      const client = createL402Client({ node, tokenStore });
+
+      await client.fetch('https://api.example.com/api/test');
+      await client.fetch('https://api.example.com/api/other/page');
+
+      expect(await tokenStore.get('https://api.example.com/api/')).toBeDefined();
+      expect(authOf(fetchMock.mock.calls[3])).toMatch(/^L402 /);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('ignores a scope hint that does not cover the request', async () => {
+      const tokenStore = createMemoryTokenStore();
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockResolvedValueOnce({
+            status: 402,
+            json: () =>
+              Promise.resolve({
+                macaroon: MACAROON_B64,
+                invoice: INVOICE,
+                scope: 'https://evil.example.com/',
+              }),
+          })
+          .mockResolvedValueOnce(makeLndPaymentResponse())
+          .mockResolvedValueOnce(make200Response())
+      );
+
+      await createL402Client({ node, tokenStore }).fetch('https://api.example.com/api/test');
+
+      expect(await tokenStore.get('https://api.example.com/api/test')).toBeDefined();
+      expect(await tokenStore.size()).toBe(1);
+    });
+
+    it('tries a token held for the same service before paying again', async () => {
+      const reports = await makeMacaroon('services=reports:0');
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response(reports))
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response())
+        // Another route of the service: challenged, then the held token works
+        .mockResolvedValueOnce(make402Response(reports))
+        .mockResolvedValueOnce(make200Response({ report: 2 }))
+        // From then on the route gets the token straight away
+        .mockResolvedValueOnce(make200Response({ report: 2 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = createL402Client({ node });
+
+      await client.fetch('https://api.example.com/reports/1');
+      const second = await client.fetch('https://api.example.com/reports/2');
+      await client.fetch('https://api.example.com/reports/2');
+
+      expect(second).toEqual({ data: { report: 2 }, paid: false });
+      expect(authOf(fetchMock.mock.calls[3])).toBeUndefined();
+      expect(authOf(fetchMock.mock.calls[4])).toBe(`L402 ${reports}:${PREIMAGE_HEX}`);
+      expect(authOf(fetchMock.mock.calls[5])).toBe(`L402 ${reports}:${PREIMAGE_HEX}`);
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+    });
+
+    it('cancels the body of a rejected held token before paying again', async () => {
+      const reports = await makeMacaroon('services=reports:0');
+      const rejection = new Response('{"error":"Invalid"}', { status: 401 });
+      const cancel = vi.spyOn(rejection.body!, 'cancel');
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response(reports))
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response())
+        .mockResolvedValueOnce(make402Response(reports))
+        .mockResolvedValueOnce(rejection)
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response({ report: 2 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = createL402Client({ node });
+
+      await client.fetch('https://api.example.com/reports/1');
+      const second = await client.fetch('https://api.example.com/reports/2');
+
+      expect(second).toMatchObject({ data: { report: 2 }, paid: true });
+      expect(cancel).toHaveBeenCalledOnce();
+    });
+
+    it('sends the most specific stored token', async () => {
+      const tokenStore = createMemoryTokenStore();
+      const token = {
+        scheme: 'L402' as const,
+        preimage: PREIMAGE_HEX,
+        price: 100,
+        issuedAt: Date.now(),
+      };
+      await tokenStore.set({ ...token, scope: 'https://api.example.com/', macaroon: 'origin' });
+      await tokenStore.set({ ...token, scope: 'https://api.example.com/api/', macaroon: 'prefix' });
+      const fetchMock = vi.fn().mockResolvedValue(make200Response());
+      vi.stubGlobal('fetch', fetchMock);
+      const client = createL402Client({ node, tokenStore });
+
+      await client.fetch('https://api.example.com/api/joke');
+      await client.fetch('https://api.example.com/status');
+      await client.fetch('https://other.example.com/api/joke');
+
+      expect(authOf(fetchMock.mock.calls[0])).toBe(`L402 prefix:${PREIMAGE_HEX}`);
+      expect(authOf(fetchMock.mock.calls[1])).toBe(`L402 origin:${PREIMAGE_HEX}`);
+      expect(authOf(fetchMock.mock.calls[2])).toBeUndefined();
+    });
+
+    it('drops a token answered with 402 and pays the new challenge', async () => {
+      const tokenStore = createMemoryTokenStore();
+      await tokenStore.set({
+        scope: 'https://api.example.com/api/test',
+        scheme: 'L402',
+        macaroon: 'revoked',
+        preimage: PREIMAGE_HEX,
+        price: 100,
+        issuedAt: Date.now(),
+      });
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response())
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response({ fresh: true }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node, tokenStore }).fetch(
+        'https://api.example.com/api/test'
+      );
+
+      expect(result).toMatchObject({ paid: true, data: { fresh: true } });
+      expect(authOf(fetchMock.mock.calls[0])).toBe(`L402 revoked:${PREIMAGE_HEX}`);
+      expect((await tokenStore.get('https://api.example.com/api/test'))?.macaroon).toBe(
+        MACAROON_B64
+      );
+    });
+
+    it('drops a token answered with 401 and asks for a fresh challenge', async () => {
+      const tokenStore = createMemoryTokenStore();
+      await tokenStore.set({
+        scope: 'https://api.example.com/',
+        scheme: 'L402',
+        macaroon: 'stale',
+        preimage: PREIMAGE_HEX,
+        price: 100,
+        issuedAt: Date.now(),
+      });
+      // A real Response, so the unread body can be cancelled
+      const rejection = new Response('{"error":"Invalid"}', { status: 401 });
+      const cancel = vi.spyOn(rejection.body!, 'cancel');
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(rejection)
+        .mockResolvedValueOnce(make402Response())
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(make200Response({ fresh: true }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node, tokenStore }).fetch(
+        'https://api.example.com/api/test'
+      );
+
+      expect(result).toMatchObject({ paid: true, data: { fresh: true } });
+      expect(authOf(fetchMock.mock.calls[1])).toBeUndefined();
+      expect(await tokenStore.get('https://api.example.com/')).toBeUndefined();
+      expect(await tokenStore.size()).toBe(1);
+      expect(cancel).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('concurrent requests', () => {
+    // A paywalled server: every unauthenticated request gets a fresh
+    // challenge, and tokens it issued are let through
+    function stubServer({ singleUse = false } = {}) {
+      const preimages = new Map<string, string>();
+      const issued = new Set<string>();
+      const spent = new Set<string>();
+
+      const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+        const auth = (init?.headers as Record<string, string>)?.Authorization;
+        const macaroon = auth?.slice('L402 '.length).split(':')[0];
+        if (macaroon && issued.has(macaroon) && !spent.has(macaroon)) {
+          if (singleUse) spent.add(macaroon);
+          return make200Response({ ok: true });
+        }
+
+        const preimage = crypto.randomBytes(32);
+        const paymentHash = crypto.createHash('sha256').update(preimage).digest('hex');
+        const invoice = signInvoice({ paymentHash, amountSats: 100 });
+        const challengeMacaroon = serializeMacaroon(
+          await addFirstPartyCaveat(
+            await mintMacaroon({ rootKey: 'server-secret', identifier: newIdentifier(paymentHash) }),
+            'services=/api/test:0'
+          )
+        );
+        preimages.set(invoice, preimage.toString('hex'));
+        issued.add(challengeMacaroon);
+        return make402Response(challengeMacaroon, invoice);
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      // Payments take a moment, so the other requests pile up behind the first
+      const payInvoice = vi.fn(async (invoice: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { preimage: preimages.get(invoice)!, feeSats: 0 };
+      });
+      const backend = {
+        createInvoice: vi.fn(),
+        lookupInvoice: vi.fn(),
+        payInvoice,
+        decodeInvoice: vi.fn(),
+      };
+      return { fetchMock, backend };
+    }
+
+    it('pays once for many parallel requests to the same endpoint', async () => {
+      const { backend } = stubServer();
+      const client = createL402Client({ node: backend });
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => client.fetch(`https://api.example.com/api/test?i=${i}`))
+      );
+
+      expect(backend.payInvoice).toHaveBeenCalledTimes(1);
+      expect(results.every((r) => r.data.ok)).toBe(true);
+      expect(results.filter((r) => r.paid)).toHaveLength(1);
+      expect(client.spent().totalSats).toBe(100);
+      expect(await client.cacheSize()).toBe(1);
+    });
+
+    it('gives every waiting request the payment failure', async () => {
+      const { backend } = stubServer();
+      backend.payInvoice.mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        throw new Error('no route');
+      });
+      const client = createL402Client({ node: backend });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () => client.fetch('https://api.example.com/api/test'))
+      );
+
+      expect(backend.payInvoice).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.status)).toEqual(Array(5).fill('rejected'));
+      for (const r of results) {
+        expect((r as PromiseRejectedResult).reason.message).toBe('no route');
+      }
+
+      // The failed payment isn't remembered; the next request pays again
+      await expect(client.fetch('https://api.example.com/api/test')).resolves.toMatchObject({
+        paid: true,
+      });
+      expect(backend.payInvoice).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps separate endpoints apart', async () => {
+      const { backend } = stubServer();
+      const client = createL402Client({ node: backend });
+
+      await Promise.all([
+        client.fetch('https://api.example.com/api/test'),
+        client.fetch('https://other.example.com/api/test'),
+      ]);
+
+      expect(backend.payInvoice).toHaveBeenCalledTimes(2);
+    });
+
+    it('pays again for waiters when the shared token only works once', async () => {
+      const { backend } = stubServer({ singleUse: true });
+      const client = createL402Client({ node: backend });
+
+      const results = await Promise.all(
+        Array.from({ length: 3 }, () => client.fetch('https://api.example.com/api/test'))
+      );
+
+      expect(results.every((r) => r.data.ok)).toBe(true);
+      expect(backend.payInvoice).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('raw responses', () => {
+    it('returns an empty response without reading it', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(null, { status: 204 })));
+
+      const result = await createL402Client({ node }).fetchRaw('https://api.example.com/ping');
+
+      expect(result.paid).toBe(false);
+      expect(result.response.status).toBe(204);
+    });
+
+    it('streams the body of the paid retry with the payment details', async () => {
+      const encoder = new TextEncoder();
+      let pull = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (pull < 3) controller.enqueue(encoder.encode(`data: ${pull++}\n\n`));
+          else controller.close();
+        },
+      });
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response())
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(
+          new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } })
+        );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createL402Client({ node }).fetchRaw('https://api.example.com/api/test');
+
+      expect(result).toMatchObject({
+        paid: true,
+        price: 100,
+        preimage: PREIMAGE_HEX,
+        paymentHash: PAYMENT_HASH,
+        feeSats: 0,
+      });
+      expect(fetchMock.mock.calls[2][1].headers.Authorization).toMatch(/^L402 /);
+      // Nothing has been read yet
+      expect(result.response.bodyUsed).toBe(false);
+      expect(pull).toBeLessThan(3);
+      expect(await result.response.text()).toBe('data: 0\n\ndata: 1\n\ndata: 2\n\n');
+    });
+
+    it('reuses the token for binary downloads', async () => {
+      const audio = Uint8Array.from([0x49, 0x44, 0x33, 0x04]);
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(make402Response())
+        .mockResolvedValueOnce(makeLndPaymentResponse())
+        .mockResolvedValueOnce(new Response(audio))
+        .mockResolvedValueOnce(new Response(audio));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = createL402Client({ node });
+
+      await client.fetchRaw('https://api.example.com/api/test');
+      const result = await client.fetchRaw('https://api.example.com/api/test');
+
+      expect(result.paid).toBe(false);
+      expect(result.paymentHash).toBeUndefined();
+      expect(new Uint8Array(await result.response.arrayBuffer())).toEqual(audio);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('payment recovery', () => {
+    function makeBackend() {
+      return {
+        createInvoice: vi.fn(),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn().mockRejectedValue(new Error('socket hang up')),
+        decodeInvoice: vi.fn(),
+        lookupPayment: vi.fn(),
+      };
+    }
+
+    function stubServer() {
+      const fetchMock = vi.fn(async (_url: string, init?: RequestInit) =>
+        (init?.headers as Record<string, string>)?.Authorization
+          ? make200Response({ ok: true })
+          : make402Response()
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('resumes with the preimage when the payment went through anyway', async () => {
+      stubServer();
+      const backend = makeBackend();
+      backend.lookupPayment.mockResolvedValue({
+        paymentHash: PAYMENT_HASH,
+        state: 'SUCCEEDED',
+        preimage: PREIMAGE_HEX,
+        feeSats: 2,
+      });
+      const client = createL402Client({ node: backend });
+
+      const result = await client.fetch('https://api.example.com/api/test');
+
+      expect(backend.lookupPayment).toHaveBeenCalledWith(PAYMENT_HASH);
+      expect(result).toMatchObject({ paid: true, data: { ok: true }, preimage: PREIMAGE_HEX, feeSats: 2 });
+      expect(client.spent().totalSats).toBe(102);
+    });
+
+    it('throws PaymentInFlightError and never pays twice while the outcome is unknown', async () => {
+      stubServer();
+      const backend = makeBackend();
+      backend.lookupPayment.mockResolvedValue({ paymentHash: PAYMENT_HASH, state: 'PENDING' });
+      const client = createL402Client({ node: backend, budget: { total: 150 } });
+
+      const err = await client.fetch('https://api.example.com/api/test').catch((e) => e);
+      expect(err).toBeInstanceOf(PaymentInFlightError);
+      expect(err).toMatchObject({ code: 'IN_FLIGHT', paymentHash: PAYMENT_HASH });
+      // The amount stays held while it may still go out
+      expect(client.budgetRemaining()).toBe(50);
+
+      await expect(client.fetch('https://api.example.com/api/test')).rejects.toBeInstanceOf(
+        PaymentInFlightError
+      );
+
+      backend.lookupPayment.mockResolvedValue({
+        paymentHash: PAYMENT_HASH,
+        state: 'SUCCEEDED',
+        preimage: PREIMAGE_HEX,
+        feeSats: 1,
+      });
+      const result = await client.fetch('https://api.example.com/api/test');
+
+      expect(result.data).toEqual({ ok: true });
+      expect(backend.payInvoice).toHaveBeenCalledTimes(1);
+      expect(client.spent().totalSats).toBe(101);
+      expect(await client.cacheSize()).toBe(1);
+    });
+
+    it('pays a fresh invoice once the earlier payment failed', async () => {
+      stubServer();
+      const backend = makeBackend();
+      backend.lookupPayment.mockResolvedValue({ paymentHash: PAYMENT_HASH, state: 'PENDING' });
+      const client = createL402Client({ node: backend });
+
+      await expect(client.fetch('https://api.example.com/api/test')).rejects.toBeInstanceOf(
+        PaymentInFlightError
+      );
+
+      backend.lookupPayment.mockResolvedValue({ paymentHash: PAYMENT_HASH, state: 'FAILED' });
+      backend.payInvoice.mockResolvedValueOnce({ preimage: PREIMAGE_HEX, feeSats: 0 });
+      const result = await client.fetch('https://api.example.com/api/test');
+
+      expect(result).toMatchObject({ paid: true });
+      expect(backend.payInvoice).toHaveBeenCalledTimes(2);
+      expect(client.spent().totalSats).toBe(100);
+    });
+
+    it('rethrows the error when the node never made the payment', async () => {
+      stubServer();
+      const backend = makeBackend();
+      backend.lookupPayment.mockResolvedValue(undefined);
+      const client = createL402Client({ node: backend });
+
+      await expect(client.fetch('https://api.example.com/api/test')).rejects.toThrow(
+        'socket hang up'
+      );
+      expect(client.spent().totalSats).toBe(0);
+    });
+
+    it('trusts a definite failure when the lookup fails too', async () => {
+      stubServer();
+      const backend = makeBackend();
+      backend.payInvoice.mockRejectedValue(new InsufficientBalanceError('not enough'));
+      backend.lookupPayment.mockRejectedValue(new Error('node offline'));
+      const client = createL402Client({ node: backend });
+
+      await expect(client.fetch('https://api.example.com/api/test')).rejects.toBeInstanceOf(
+        InsufficientBalanceError
+      );
+      expect(client.budgetRemaining()).toBe(Infinity);
+    });
+
+    it('treats an ambiguous failure as in flight when the lookup fails', async () => {
+      stubServer();
+      const backend = makeBackend();
+      backend.lookupPayment.mockRejectedValue(new Error('node offline'));
+
+      await expect(
+        createL402Client({ node: backend }).fetch('https://api.example.com/api/test')
+      ).rejects.toBeInstanceOf(PaymentInFlightError);
+    });
+  });
+
+  describe('escrow', () => {
+    // An escrow route: the payment stays in flight until the server
+    // settles it (handler answered 2xx) or fails it back
+    function stubEscrowServer(status = 200) {
+      let settle!: (result: { preimage: string; feeSats: number }) => void;
+      let fail!: (err: Error) => void;
+      const payment = new Promise((resolve, reject) => {
+        settle = resolve;
+        fail = reject;
+      });
+      const backend = {
+        createInvoice: vi.fn(),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn(() => payment),
+        decodeInvoice: vi.fn(),
+      };
+      const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+        if (!(init?.headers as Record<string, string>)?.Authorization) {
+          return new Response('Payment Required', {
+            status: 402,
+            headers: {
+              'WWW-Authenticate': `L402 macaroon="${MACAROON_B64}", invoice="${INVOICE}", escrow="true"`,
+            },
+          });
+        }
+        if (status < 300) {
+          settle({ preimage: PREIMAGE_HEX, feeSats: 1 });
+          return new Response(JSON.stringify({ done: true }), {
+            status,
+            headers: { 'L402-Preimage': PREIMAGE_HEX },
+          });
+        }
+        fail(new Error('Lightning payment failed: INCORRECT_PAYMENT_DETAILS'));
+        return new Response(JSON.stringify({ error: 'job failed' }), { status });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      return { backend, fetchMock, payment };
+    }
+
+    it('sends the macaroon alone while paying and keeps the payment on success', async () => {
+      const { backend, fetchMock } = stubEscrowServer();
+      const client = createL402Client({ node: backend });
+
+      const result = await client.fetch('https://api.example.com/api/test');
+
+      expect(result).toEqual({ data: { done: true }, paid: true, price: 100, preimage: PREIMAGE_HEX, feeSats: 1 });
+      expect(fetchMock.mock.calls[1][1]!.headers).toEqual({ Authorization: `L402 ${MACAROON_B64}` });
+      expect(client.spent().totalSats).toBe(101);
+      // Each escrow payment buys one run, so there is no token to keep
+      expect(await client.cacheSize()).toBe(0);
+    });
+
+    it('is not charged when the handler fails', async () => {
+      const { backend } = stubEscrowServer(500);
+      const client = createL402Client({ node: backend, budget: { total: 150 } });
+
+      const result = await client.fetchRaw('https://api.example.com/api/test');
+
+      expect(result.paid).toBe(false);
+      expect(result.response.status).toBe(500);
+      expect(client.spent().totalSats).toBe(0);
+      expect(client.budgetRemaining()).toBe(150);
+    });
+
+    it('takes the preimage from the response if the payment result is lost', async () => {
+      const { backend } = stubEscrowServer();
+      backend.payInvoice.mockRejectedValueOnce(new Error('socket hang up'));
+      const client = createL402Client({ node: backend });
+
+      const result = await client.fetch('https://api.example.com/api/test');
+
+      expect(result).toMatchObject({ paid: true, preimage: PREIMAGE_HEX });
+      expect(client.spent().totalSats).toBe(100);
+    });
+
+    it('pays for every escrow request', async () => {
+      const { backend } = stubEscrowServer();
+      const client = createL402Client({ node: backend });
+
+      await client.fetch('https://api.example.com/api/test');
+      await client.fetch('https://api.example.com/api/test');
+
+      expect(backend.payInvoice).toHaveBeenCalledTimes(2);
+    });
+
+    it('checks the limits before paying', async () => {
+      const { backend } = stubEscrowServer();
+      const client = createL402Client({ node: backend, maxAutoPaySats: 50 });
+
+      await expect(client.fetch('https://api.example.com/api/test')).rejects.toThrow(/maxAutoPaySats/);
+      expect(backend.payInvoice).not.toHaveBeenCalled();
+    });
+  });
+
   describe('request forwarding', () => {
     it('forwards custom headers and options', async () => {
       vi.stubGlobal(
@@ -342,22 +1515,5 @@ describe('createL402Client', () => {
 
       expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
     });
-
-    it('restores NODE_TLS_REJECT_UNAUTHORIZED after LND payment call', async () => {
-      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
-
-      const fetchMock = vi
-        .fn()
-        .mockResolvedValueOnce(make402Response())
-        .mockResolvedValueOnce(makeLndPaymentResponse())
-        .mockResolvedValueOnce(make200Response());
-
-      vi.stubGlobal('fetch', fetchMock);
-
-      const client = createL402Client({ node: { ...node, skipTlsVerify: true } });
-      await client.fetch('https://api.example.com/test');
-
-      expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
-    });
   });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createL402Core } from '../src/core';
+import { PAYMENT_HASH, PREIMAGE_HEX, paidAuthorization, rootKey, stubNode } from './helpers/paywall';
+
+// --- Test fixtures ---
+
+const request = (headers: Record<string, string> = {}) => ({
+  method: 'GET',
+  path: '/api/test',
+  headers,
+  ip: '1.2.3.4',
+});
+
+// --- Tests ---
+
+describe('createL402Core', () => {
+  it('answers an unpaid request with a 402 challenge', async () => {
+    const core = createL402Core({ node: stubNode(), rootKey, price: 100 });
+
+    const outcome = await core.handle(request());
+
+    expect(outcome).toMatchObject({
+      type: 'challenge',
+      status: 402,
+      headers: { 'WWW-Authenticate': expect.stringMatching(/^L402 macaroon="[^"]+", invoice="lnbc100n1stub"$/) },
+      body: { code: 402, invoice: 'lnbc100n1stub', price: 100, description: 'L402 access: GET /api/test' },
+    });
+  });
+
+  it('authorizes a paid request with proof of payment', async () => {
+    const core = createL402Core({ node: stubNode(), rootKey, price: 100 });
+    const challenge = await core.handle(request());
+    if (challenge.type !== 'challenge') throw new Error('expected a challenge');
+
+    const outcome = await core.handle(request({ authorization: paidAuthorization(challenge.body as any) }));
+
+    expect(outcome).toEqual({
+      type: 'authorized',
+      proof: { paid: true, preimage: PREIMAGE_HEX, paymentHash: PAYMENT_HASH, service: '/api/test' },
+    });
+  });
+
+  it('answers a bad token with a 401', async () => {
+    const core = createL402Core({ node: stubNode(), rootKey, price: 100 });
+
+    const outcome = await core.handle(request({ authorization: 'L402 garbage:00' }));
+
+    expect(outcome).toEqual({
+      type: 'challenge',
+      status: 401,
+      headers: {},
+      body: { error: 'Invalid L402 token' },
+    });
+  });
+
+  it('issues and verifies tokens without Buffer', async () => {
+    const core = createL402Core({ node: stubNode(), rootKey, price: 100 });
+    vi.stubGlobal('Buffer', undefined);
+    try {
+      const challenge = await core.handle(request());
+      if (challenge.type !== 'challenge') throw new Error('expected a challenge');
+
+      const outcome = await core.handle(request({ authorization: paidAuthorization(challenge.body as any) }));
+
+      expect(outcome.type).toBe('authorized');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('calls priceFn and caveats with the context, defaulting to the request', async () => {
+    const priceFn = vi.fn(() => 250);
+    const caveats = vi.fn(() => []);
+    const core = createL402Core<{ user: string }>({ node: stubNode(), rootKey, price: 100, priceFn, caveats });
+
+    const outcome = await core.handle(request(), { user: 'alice' });
+    const plain = createL402Core({ node: stubNode(), rootKey, price: 100, priceFn: (req) => req.path.length });
+    const fromRequest = await plain.handle(request());
+
+    expect(priceFn).toHaveBeenCalledWith({ user: 'alice' });
+    expect(caveats).toHaveBeenCalledWith({ user: 'alice' });
+    expect(outcome).toMatchObject({ body: { price: 250 } });
+    expect(fromRequest).toMatchObject({ body: { price: '/api/test'.length } });
+  });
+
+  it('still caps outstanding invoices for requests without a client key', async () => {
+    const core = createL402Core({ node: stubNode(), rootKey, price: 100, issuance: { maxOutstanding: 1 } });
+    const anonymous = { method: 'GET', path: '/api/test', headers: {} };
+
+    const first = await core.handle(anonymous);
+    const second = await core.handle(anonymous);
+
+    expect(first).toMatchObject({ status: 402 });
+    expect(second).toMatchObject({ status: 429 });
+  });
+
+  it('hands escrow requests a hold that settles or cancels once', async () => {
+    const node = stubNode();
+    const core = createL402Core({ node, rootKey, price: 100, escrow: true });
+    const challenge = await core.handle(request());
+    if (challenge.type !== 'challenge') throw new Error('expected a challenge');
+    const { macaroon } = challenge.body as { macaroon: string };
+    node.hold(macaroon);
+
+    const outcome = await core.handle(request({ authorization: `L402 ${macaroon}` }));
+    if (outcome.type !== 'authorized' || !outcome.escrow) throw new Error('expected an escrow hold');
+
+    expect(outcome.escrow.headers).toEqual({ 'L402-Preimage': outcome.proof.preimage });
+    await outcome.escrow.finish(201);
+    await outcome.escrow.finish(500);
+    expect(node.settleInvoice).toHaveBeenCalledWith(outcome.proof.preimage);
+    expect(node.cancelInvoice).not.toHaveBeenCalled();
+  });
+});
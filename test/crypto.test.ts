@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  bytesToHex,
+  bytesToUtf8,
+  concatBytes,
+  hexToBytes,
+  hmacSha256,
+  randomBytes,
+  sha256,
+  timingSafeEqual,
+  utf8ToBytes,
+} from '../src/crypto';
+
+// --- Test fixtures ---
+
+// Bytes that cover every base64 alphabet edge, including + and /
+const BYTES = new Uint8Array([0, 1, 0x7f, 0x80, 0xfb, 0xff, 0xfe]);
+
+// --- Tests ---
+
+describe('crypto', () => {
+  describe('encodings', () => {
+    it('round-trips hex in either case', () => {
+      expect(bytesToHex(BYTES)).toBe('00017f80fbfffe');
+      expect(hexToBytes('00017F80fbfffe')).toEqual(BYTES);
+    });
+
+    it('rejects malformed hex', () => {
+      expect(() => hexToBytes('abc')).toThrow(/hex/);
+      expect(() => hexToBytes('zz')).toThrow(/hex/);
+    });
+
+    it('matches Buffer base64, standard and URL-safe', () => {
+      expect(bytesToBase64(BYTES)).toBe(Buffer.from(BYTES).toString('base64'));
+      expect(bytesToBase64Url(BYTES)).toBe(Buffer.from(BYTES).toString('base64url'));
+    });
+
+    it('decodes standard and URL-safe base64, padded or not', () => {
+      for (const encoded of ['AAF/gPv//g==', 'AAF_gPv__g']) {
+        expect(base64ToBytes(encoded)).toEqual(BYTES);
+      }
+    });
+
+    it('round-trips UTF-8', () => {
+      expect(bytesToUtf8(utf8ToBytes('⚡ 100 sats'))).toBe('⚡ 100 sats');
+    });
+
+    it('joins byte arrays', () => {
+      expect(concatBytes(new Uint8Array([1]), new Uint8Array(), new Uint8Array([2, 3]))).toEqual(
+        new Uint8Array([1, 2, 3])
+      );
+    });
+  });
+
+  describe('hashing', () => {
+    it('computes SHA-256', async () => {
+      expect(bytesToHex(await sha256('abc'))).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    it('computes HMAC-SHA256 (RFC 4231 test case 2)', async () => {
+      expect(bytesToHex(await hmacSha256('Jefe', 'what do ya want for nothing?'))).toBe(
+        '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+      );
+    });
+  });
+
+  it('generates random bytes', () => {
+    const a = randomBytes(32);
+
+    expect(a).toHaveLength(32);
+    expect(bytesToHex(a)).not.toBe(bytesToHex(randomBytes(32)));
+  });
+
+  it('compares bytes', () => {
+    expect(timingSafeEqual(hexToBytes('abcd'), hexToBytes('abcd'))).toBe(true);
+    expect(timingSafeEqual(hexToBytes('abcd'), hexToBytes('abce'))).toBe(false);
+    expect(timingSafeEqual(hexToBytes('abcd'), hexToBytes('ab'))).toBe(false);
+  });
+});
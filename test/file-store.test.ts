@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFileTokenStore } from '../src/file-store';
+import type { StoredToken } from '../src/types';
+
+// --- Test fixtures ---
+
+const KEY = 'correct horse battery staple';
+const PREIMAGE = 'ab'.repeat(32);
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-tokens-'));
+  file = path.join(dir, 'tokens.json');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function makeToken(overrides: Partial<StoredToken> = {}): StoredToken {
+  return {
+    scope: 'https://api.example.com/data',
+    scheme: 'L402',
+    macaroon: 'AgEEbHNhdA==',
+    preimage: PREIMAGE,
+    price: 100,
+    issuedAt: 1760000000000,
+    ...overrides,
+  };
+}
+
+// --- Tests ---
+
+describe('createFileTokenStore', () => {
+  it('keeps tokens across store instances', async () => {
+    const token = makeToken({ expiresAt: Date.now() + 60_000 });
+    await createFileTokenStore({ path: file, encryptionKey: KEY }).set(token);
+
+    const reopened = createFileTokenStore({ path: file, encryptionKey: KEY });
+
+    expect(await reopened.get(token.scope)).toEqual(token);
+    expect(await reopened.size()).toBe(1);
+  });
+
+  it('encrypts tokens at rest', async () => {
+    await createFileTokenStore({ path: file, encryptionKey: KEY }).set(makeToken());
+
+    const raw = await fs.readFile(file, 'utf8');
+
+    expect(raw).not.toContain(PREIMAGE);
+    expect(raw).not.toContain('api.example.com');
+    expect(JSON.parse(raw)).toMatchObject({ version: 1 });
+  });
+
+  it('refuses to open the file with the wrong key', async () => {
+    await createFileTokenStore({ path: file, encryptionKey: KEY }).set(makeToken());
+
+    const wrong = createFileTokenStore({ path: file, encryptionKey: 'not the key' });
+
+    await expect(wrong.get('x')).rejects.toThrow(/wrong encryptionKey or corrupted file/);
+  });
+
+  it('prunes expired tokens when loading', async () => {
+    const store = createFileTokenStore({ path: file, encryptionKey: KEY });
+    await store.set(makeToken({ scope: 'live', expiresAt: Date.now() + 60_000 }));
+    await store.set(makeToken({ scope: 'dying', expiresAt: Date.now() + 50 }));
+    await new Promise((r) => setTimeout(r, 60));
+
+    const reopened = createFileTokenStore({ path: file, encryptionKey: KEY });
+
+    expect(await reopened.size()).toBe(1);
+    expect(await reopened.get('dying')).toBeUndefined();
+  });
+
+  it('writes atomically, leaving no temp files behind', async () => {
+    const store = createFileTokenStore({ path: file, encryptionKey: KEY });
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => store.set(makeToken({ scope: `s${i}` })))
+    );
+
+    expect(await fs.readdir(dir)).toEqual(['tokens.json']);
+    expect(await createFileTokenStore({ path: file, encryptionKey: KEY }).size()).toBe(10);
+  });
+
+  it('deletes and clears', async () => {
+    const store = createFileTokenStore({ path: file, encryptionKey: KEY });
+    await store.set(makeToken({ scope: 'a' }));
+    await store.set(makeToken({ scope: 'b' }));
+
+    await store.delete('a');
+    expect(await createFileTokenStore({ path: file, encryptionKey: KEY }).size()).toBe(1);
+
+    await store.clear();
+    expect(await createFileTokenStore({ path: file, encryptionKey: KEY }).size()).toBe(0);
+  });
+
+  it('requires an encryption key', () => {
+    expect(() => createFileTokenStore({ path: file, encryptionKey: '' })).toThrow(/encryptionKey/);
+  });
+});
@@ -0,0 +1,59 @@
+// A stand-in Lightning node for the core and framework adapter tests.
+// Plain invoices all share one payment hash, so tests can pay them
+// with PREIMAGE_HEX; hold invoices are marked paid with `hold`.
+
+import crypto from 'crypto';
+import { vi } from 'vitest';
+import { decodeIdentifier, deserializeMacaroon } from '../../src/macaroon';
+import type { InvoiceState } from '../../src/types';
+
+export const rootKey = 'test-root-key-0123456789abcdef';
+
+export const PREIMAGE_HEX = 'aabbccdd00112233aabbccdd00112233aabbccdd00112233aabbccdd00112233';
+
+export function sha256(hex: string): string {
+  return crypto.createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex');
+}
+
+export const PAYMENT_HASH = sha256(PREIMAGE_HEX);
+
+/** The payment hash a challenge's macaroon is bound to. */
+export function macaroonHash(macaroon: string): string {
+  return decodeIdentifier(deserializeMacaroon(macaroon).identifier).paymentHash;
+}
+
+/** Authorization for a challenge paid with PREIMAGE_HEX. */
+export function paidAuthorization(challenge: { macaroon: string }): string {
+  return `L402 ${challenge.macaroon}:${PREIMAGE_HEX}`;
+}
+
+export function stubNode() {
+  const invoices = new Map<string, InvoiceState>();
+  return {
+    invoices,
+    /** The payer's HTLC arrives for an escrow challenge */
+    hold: (macaroon: string) => invoices.set(macaroonHash(macaroon), 'ACCEPTED'),
+    createInvoice: vi.fn(async () => {
+      invoices.set(PAYMENT_HASH, 'OPEN');
+      return { paymentRequest: 'lnbc100n1stub', paymentHash: PAYMENT_HASH };
+    }),
+    createHoldInvoice: vi.fn(async ({ paymentHash }: { paymentHash: string }) => {
+      invoices.set(paymentHash, 'OPEN');
+      return { paymentRequest: 'lnbc100n1hold', paymentHash };
+    }),
+    lookupInvoice: vi.fn(async (paymentHash: string) => ({
+      paymentHash,
+      state: invoices.get(paymentHash) ?? 'CANCELED',
+      valueSats: 100,
+      amountPaidSats: 0,
+    })),
+    settleInvoice: vi.fn(async (preimage: string) => {
+      invoices.set(sha256(preimage), 'SETTLED');
+    }),
+    cancelInvoice: vi.fn(async (paymentHash: string) => {
+      invoices.set(paymentHash, 'CANCELED');
+    }),
+    payInvoice: vi.fn(),
+    decodeInvoice: vi.fn(),
+  };
+}
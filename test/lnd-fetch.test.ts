@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import https from 'https';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { createLndFetch } from '../src/lnd-fetch';
+import { createLndBackend } from '../src/backends/lnd';
+import '../src/node-tls';
+import { LND_TLS, OTHER_TLS } from './helpers/tls';
+
+// --- Test fixtures ---
+
+const servers: https.Server[] = [];
+
+/**
+ * An HTTPS server on 127.0.0.1 that echoes each request back as JSON,
+ * or answers with `body`. `before` runs first and can hold the reply.
+ */
+async function serve(
+  tls: { cert: string; key: string },
+  { body, before }: { body?: unknown; before?: () => Promise<void> } = {}
+): Promise<string> {
+  const server = https.createServer(tls, async (req, res) => {
+    let received = '';
+    for await (const chunk of req) received += chunk;
+    await before?.();
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body ?? { method: req.method, path: req.url, macaroon: req.headers['x-macaroon'], received }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  servers.push(server);
+  return `https://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+// --- Tests ---
+
+describe('createLndFetch', () => {
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await Promise.all(
+      servers.splice(0).map((server) => {
+        server.closeAllConnections();
+        return new Promise((resolve) => server.close(resolve));
+      })
+    );
+  });
+
+  it('uses the global fetch without TLS options', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createLndFetch()('https://127.0.0.1:8080/v1/getinfo', { method: 'GET' });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://127.0.0.1:8080/v1/getinfo', { method: 'GET' });
+  });
+
+  it('trusts a node pinned by its PEM certificate', async () => {
+    const url = await serve(LND_TLS);
+
+    const res = await createLndFetch({ tlsCert: LND_TLS.cert })(`${url}/v1/invoices`, {
+      method: 'POST',
+      headers: { 'X-Macaroon': 'deadbeef' },
+      body: '{"value":"100"}',
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(await res.json()).toEqual({
+      method: 'POST',
+      path: '/v1/invoices',
+      macaroon: 'deadbeef',
+      received: '{"value":"100"}',
+    });
+  });
+
+  it('reads the certificate from a path', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'l402-tls-'));
+    const certPath = path.join(dir, 'tls.cert');
+    await fs.writeFile(certPath, LND_TLS.cert);
+    const url = await serve(LND_TLS);
+
+    try {
+      const res = await createLndFetch({ tlsCert: certPath })(url, {});
+
+      expect(res.ok).toBe(true);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses a node whose certificate is not the pinned one', async () => {
+    const url = await serve(OTHER_TLS);
+
+    await expect(createLndFetch({ tlsCert: LND_TLS.cert })(url, {})).rejects.toThrow(/self[- ]signed/);
+  });
+
+  it('keeps skipTlsVerify to node calls while one is in flight', async () => {
+    let arrived!: () => void;
+    let release!: () => void;
+    const nodeCallArrived = new Promise<void>((resolve) => (arrived = resolve));
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const node = await serve(LND_TLS, {
+      before: () => {
+        arrived();
+        return held;
+      },
+    });
+    const processor = await serve(OTHER_TLS);
+
+    const nodeCall = createLndFetch({ skipTlsVerify: true })(node, {});
+    await nodeCallArrived;
+
+    // Other HTTPS calls made meanwhile still verify certificates
+    await expect(fetch(processor)).rejects.toThrow();
+    expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+
+    release();
+    expect((await nodeCall).ok).toBe(true);
+  });
+
+  it('gives each backend its own agent', async () => {
+    const url = await serve(LND_TLS, {
+      body: { r_hash: Buffer.from('ab'.repeat(32), 'hex').toString('base64'), payment_request: 'lnbc100n1pinned' },
+    });
+    const pinned = createLndBackend({ restHost: url, macaroon: 'deadbeef', tlsCert: LND_TLS.cert });
+    const unpinned = createLndBackend({ restHost: url, macaroon: 'deadbeef' });
+
+    expect(await pinned.createInvoice({ amountSats: 100, memo: 'test' })).toEqual({
+      paymentRequest: 'lnbc100n1pinned',
+      paymentHash: 'ab'.repeat(32),
+    });
+    await expect(unpinned.createInvoice({ amountSats: 100, memo: 'test' })).rejects.toThrow();
+  });
+
+  it('throws when tlsCert and skipTlsVerify are combined', () => {
+    expect(() =>
+      createLndBackend({ restHost: 'https://127.0.0.1:8080', macaroon: 'deadbeef', tlsCert: LND_TLS.cert, skipTlsVerify: true })
+    ).toThrow(/cannot be combined/);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  addFirstPartyCaveat,
+  decodeIdentifier,
+  decodeMacaroon,
+  deserializeMacaroon,
+  encodeIdentifier,
+  encodeMacaroon,
+  getCaveats,
+  mintMacaroon,
+  newIdentifier,
+  serializeMacaroon,
+  verifyMacaroon,
+} from '../src/macaroon';
+
+// --- Test fixtures ---
+
+// Reference vector from the libmacaroons README
+const ROOT_KEY = 'this is our super secret key; only we should know it';
+const IDENTIFIER = Buffer.from('we used our secret key');
+const LOCATION = 'http://mybank/';
+
+const PAYMENT_HASH = crypto.createHash('sha256').update('preimage').digest('hex');
+
+function hex(bytes: Uint8Array | undefined): string {
+  return Buffer.from(bytes!).toString('hex');
+}
+
+// --- Tests ---
+
+describe('macaroon', () => {
+  describe('signatures', () => {
+    it('matches the libmacaroons reference signature', async () => {
+      const mac = await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER, location: LOCATION });
+
+      expect(hex(mac.signature)).toBe(
+        'e3d9e02908526c4c0039ae15114115d97fdd68bf2ba379b342aaf0f617d0552f'
+      );
+    });
+
+    it('chains first-party caveats into the signature', async () => {
+      const mac = await addFirstPartyCaveat(
+        await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER, location: LOCATION }),
+        'account = 3735928559'
+      );
+
+      expect(hex(mac.signature)).toBe(
+        '1efe4763f290dbce0c1d08477367e11f4eee456a64933cf662d79772dbb82128'
+      );
+    });
+
+    it('does not modify the macaroon it attenuates', async () => {
+      const mac = await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER });
+      await addFirstPartyCaveat(mac, 'a=b');
+
+      expect(mac.caveats).toHaveLength(0);
+    });
+  });
+
+  describe('verifyMacaroon', () => {
+    it('accepts a macaroon with the right root key', async () => {
+      const mac = await addFirstPartyCaveat(
+        await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER }),
+        'services=api:0'
+      );
+
+      expect(await verifyMacaroon(mac, ROOT_KEY)).toBe(true);
+    });
+
+    it('rejects the wrong root key', async () => {
+      const mac = await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER });
+
+      expect(await verifyMacaroon(mac, 'some other key')).toBe(false);
+    });
+
+    it('rejects a macaroon with a caveat removed', async () => {
+      const mac = await addFirstPartyCaveat(
+        await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER }),
+        'services=api:0'
+      );
+
+      expect(await verifyMacaroon({ ...mac, caveats: [] }, ROOT_KEY)).toBe(false);
+    });
+
+    it('rejects a macaroon with a rewritten caveat', async () => {
+      const mac = await addFirstPartyCaveat(
+        await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER }),
+        'services=api:0'
+      );
+      const tampered = { ...mac, caveats: [{ identifier: Buffer.from('services=api:9') }] };
+
+      expect(await verifyMacaroon(tampered, ROOT_KEY)).toBe(false);
+    });
+
+    it('rejects third-party caveats', async () => {
+      const mac = await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER });
+      const withThirdParty = {
+        ...mac,
+        caveats: [{ identifier: Buffer.from('tp'), verificationId: Buffer.alloc(32) }],
+      };
+
+      expect(await verifyMacaroon(withThirdParty, ROOT_KEY)).toBe(false);
+    });
+  });
+
+  describe('v2 serialization', () => {
+    it('round-trips location, identifier, caveats and signature', async () => {
+      const mac = await addFirstPartyCaveat(
+        await addFirstPartyCaveat(
+          await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER, location: LOCATION }),
+          'account = 3735928559'
+        ),
+        'time < 2030-01-01'
+      );
+
+      const parsed = deserializeMacaroon(serializeMacaroon(mac));
+
+      expect(parsed.location).toBe(LOCATION);
+      expect(hex(parsed.identifier)).toBe(hex(IDENTIFIER));
+      expect(getCaveats(parsed)).toEqual(['account = 3735928559', 'time < 2030-01-01']);
+      expect(hex(parsed.signature)).toBe(hex(mac.signature));
+      expect(await verifyMacaroon(parsed, ROOT_KEY)).toBe(true);
+    });
+
+    it('starts with the v2 version byte', async () => {
+      const bytes = encodeMacaroon(await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER }));
+
+      expect(bytes[0]).toBe(2);
+    });
+
+    it('round-trips third-party caveat fields', async () => {
+      const mac = await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER });
+      const withThirdParty = {
+        ...mac,
+        caveats: [
+          { identifier: Buffer.from('tp'), verificationId: Buffer.alloc(48, 7), location: 'https://auth/' },
+        ],
+      };
+
+      const parsed = decodeMacaroon(encodeMacaroon(withThirdParty));
+
+      expect(parsed.caveats[0].location).toBe('https://auth/');
+      expect(hex(parsed.caveats[0].verificationId)).toBe('07'.repeat(48));
+    });
+
+    it('accepts URL-safe base64', async () => {
+      const mac = await mintMacaroon({ rootKey: ROOT_KEY, identifier: newIdentifier(PAYMENT_HASH) });
+      const urlSafe = serializeMacaroon(mac)
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+      expect(await verifyMacaroon(deserializeMacaroon(urlSafe), ROOT_KEY)).toBe(true);
+    });
+
+    it('rejects non-base64 input', () => {
+      expect(() => deserializeMacaroon('not base64!')).toThrow(/base64/);
+    });
+
+    it('rejects v1 and unknown versions', () => {
+      expect(() => decodeMacaroon(Buffer.from([1, 2, 3]))).toThrow(/version/);
+    });
+
+    it('rejects truncated macaroons', async () => {
+      const bytes = encodeMacaroon(await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER }));
+
+      expect(() => decodeMacaroon(bytes.subarray(0, bytes.length - 5))).toThrow();
+    });
+
+    it('rejects trailing data', async () => {
+      const bytes = encodeMacaroon(await mintMacaroon({ rootKey: ROOT_KEY, identifier: IDENTIFIER }));
+
+      expect(() => decodeMacaroon(Buffer.concat([bytes, Buffer.from([0])]))).toThrow(/Trailing/);
+    });
+  });
+
+  describe('L402 identifier', () => {
+    it('encodes version, payment hash and token id in 66 bytes', () => {
+      const tokenId = 'ab'.repeat(32);
+      const id = encodeIdentifier({ version: 0, paymentHash: PAYMENT_HASH, tokenId });
+
+      expect(id).toHaveLength(66);
+      expect([id[0], id[1]]).toEqual([0, 0]);
+      expect(decodeIdentifier(id)).toEqual({ version: 0, paymentHash: PAYMENT_HASH, tokenId });
+    });
+
+    it('generates a random token id for each new identifier', () => {
+      const a = decodeIdentifier(newIdentifier(PAYMENT_HASH));
+      const b = decodeIdentifier(newIdentifier(PAYMENT_HASH));
+
+      expect(a.paymentHash).toBe(PAYMENT_HASH);
+      expect(a.tokenId).not.toBe(b.tokenId);
+    });
+
+    it('rejects identifiers of the wrong length', () => {
+      expect(() => decodeIdentifier(IDENTIFIER)).toThrow(/length/);
+    });
+
+    it('rejects unknown identifier versions', () => {
+      const id = newIdentifier(PAYMENT_HASH);
+      id[1] = 1;
+
+      expect(() => decodeIdentifier(id)).toThrow(/version/);
+    });
+  });
+});
@@ -1,7 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import crypto from 'crypto';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import express from 'express';
 import { l402 } from '../src/middleware';
-import type { LndConfig } from '../src/types';
+import '../src/node-tls';
+import type { InvoiceState, LndConfig } from '../src/types';
+import {
+  addFirstPartyCaveat,
+  decodeIdentifier,
+  deserializeMacaroon,
+  getCaveats,
+  mintMacaroon,
+  newIdentifier,
+  serializeMacaroon,
+  verifyMacaroon,
+} from '../src/macaroon';
 
 // --- Test fixtures ---
 
@@ -18,10 +32,20 @@ const node: LndConfig = {
   macaroon: 'deadbeef',
 };
 
-function makeMacaroon(paymentHash: string, service = '/api/test') {
-  return Buffer.from(
-    JSON.stringify({ version: 1, paymentHash, service, issuedAt: Date.now() })
-  ).toString('base64');
+const rootKey = 'test-root-key-0123456789abcdef';
+
+async function makeMacaroon(
+  paymentHash: string,
+  service = '/api/test',
+  key = { id: '0', key: rootKey }
+) {
+  let macaroon = await mintMacaroon({
+    rootKey: key.key,
+    identifier: newIdentifier(paymentHash),
+    location: 'l402',
+  });
+  macaroon = await addFirstPartyCaveat(macaroon, `key_id=${key.id}`);
+  return serializeMacaroon(await addFirstPartyCaveat(macaroon, `services=${service}:0`));
 }
 
 // --- Express req/res mocks ---
@@ -90,7 +114,7 @@ describe('l402 middleware', () => {
         })
       );
 
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const req = mockReq();
       const res = mockRes();
       const next = vi.fn();
@@ -126,7 +150,7 @@ describe('l402 middleware', () => {
         })
       );
 
-      const middleware = l402({ node, price: 50, description: 'Buy a joke' });
+      const middleware = l402({ node, rootKey, price: 50, description: 'Buy a joke' });
       const req = mockReq();
       const res = mockRes();
 
@@ -152,6 +176,7 @@ describe('l402 middleware', () => {
 
       const middleware = l402({
         node,
+        rootKey,
         price: 10,
         priceFn: () => 200,
       });
@@ -179,6 +204,7 @@ describe('l402 middleware', () => {
 
       const middleware = l402({
         node,
+        rootKey,
         price: 10,
         priceFn: async () => 300,
       });
@@ -193,10 +219,10 @@ describe('l402 middleware', () => {
 
   describe('L402 verification (valid auth)', () => {
     it('calls next() with valid preimage', async () => {
-      const macaroon = makeMacaroon(PAYMENT_HASH);
+      const macaroon = await makeMacaroon(PAYMENT_HASH);
       const authHeader = `L402 ${macaroon}:${PREIMAGE_HEX}`;
 
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const req = mockReq({ headers: { authorization: authHeader } });
       const res = mockRes();
       const next = vi.fn();
@@ -213,10 +239,10 @@ describe('l402 middleware', () => {
     });
 
     it('is case-insensitive for the L402 prefix', async () => {
-      const macaroon = makeMacaroon(PAYMENT_HASH);
+      const macaroon = await makeMacaroon(PAYMENT_HASH);
       const authHeader = `l402 ${macaroon}:${PREIMAGE_HEX}`;
 
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const req = mockReq({ headers: { authorization: authHeader } });
       const next = vi.fn();
 
@@ -228,11 +254,11 @@ describe('l402 middleware', () => {
 
   describe('L402 rejection (invalid auth)', () => {
     it('returns 401 for wrong preimage', async () => {
-      const macaroon = makeMacaroon(PAYMENT_HASH);
+      const macaroon = await makeMacaroon(PAYMENT_HASH);
       const wrongPreimage = '0000000000000000000000000000000000000000000000000000000000000000';
       const authHeader = `L402 ${macaroon}:${wrongPreimage}`;
 
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const req = mockReq({ headers: { authorization: authHeader } });
       const res = mockRes();
       const next = vi.fn();
@@ -247,7 +273,7 @@ describe('l402 middleware', () => {
     it('returns 401 for malformed macaroon', async () => {
       const authHeader = `L402 not-valid-base64:${PREIMAGE_HEX}`;
 
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const req = mockReq({ headers: { authorization: authHeader } });
       const res = mockRes();
       const next = vi.fn();
@@ -261,7 +287,7 @@ describe('l402 middleware', () => {
     it('returns 401 when token has no colon separator', async () => {
       const authHeader = `L402 sometokenwithoutcolon`;
 
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const req = mockReq({ headers: { authorization: authHeader } });
       const res = mockRes();
       const next = vi.fn();
@@ -273,57 +299,244 @@ describe('l402 middleware', () => {
     });
   });
 
-  describe('error handling', () => {
-    it('returns 500 when LND is unreachable', async () => {
-      vi.stubGlobal(
-        'fetch',
-        vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+  describe('macaroon signing', () => {
+    it('rejects an unsigned JSON token forged around a known preimage', async () => {
+      const forged = Buffer.from(
+        JSON.stringify({ version: 1, paymentHash: PAYMENT_HASH, service: '/api/test', issuedAt: Date.now() })
+      ).toString('base64');
+
+      const middleware = l402({ node, rootKey, price: 100 });
+      const res = mockRes();
+      const next = vi.fn();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${forged}:${PREIMAGE_HEX}` } }),
+        res,
+        next
       );
 
-      const middleware = l402({ node, price: 100 });
-      const req = mockReq();
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('rejects a macaroon signed with a different key', async () => {
+      const macaroon = await makeMacaroon(PAYMENT_HASH, '/api/test', 'attacker-key');
+
+      const middleware = l402({ node, rootKey, price: 100 });
       const res = mockRes();
+      const next = vi.fn();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${macaroon}:${PREIMAGE_HEX}` } }),
+        res,
+        next
+      );
 
-      await middleware(req, res, vi.fn());
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+    });
 
-      expect(res.statusCode).toBe(500);
-      expect(res.body.error).toBe('Payment gateway error');
+    it('rejects a macaroon whose fields were tampered with', async () => {
+      const macaroon = deserializeMacaroon(await makeMacaroon(PAYMENT_HASH));
+      macaroon.caveats[0] = { identifier: Buffer.from('services=/api/other:0') };
+      const tampered = serializeMacaroon(macaroon);
+
+      const middleware = l402({ node, rootKey, price: 100 });
+      const res = mockRes();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${tampered}:${PREIMAGE_HEX}` } }),
+        res,
+        vi.fn()
+      );
+
+      expect(res.statusCode).toBe(401);
     });
 
-    it('returns 500 when LND returns an error status', async () => {
+    it('keeps accepting tokens from a rotated key during its grace window', async () => {
+      const oldKey = { id: 'k1', key: 'old-secret', expiresAt: Date.now() + 60_000 };
+      const newKey = { id: 'k2', key: 'new-secret' };
+      const macaroon = await makeMacaroon(PAYMENT_HASH, '/api/test', oldKey);
+
+      const middleware = l402({ node, rootKey: [newKey, oldKey], price: 100 });
+      const next = vi.fn();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${macaroon}:${PREIMAGE_HEX}` } }),
+        mockRes(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('rejects tokens from a rotated key after its grace window', async () => {
+      const oldKey = { id: 'k1', key: 'old-secret', expiresAt: Date.now() - 1 };
+      const newKey = { id: 'k2', key: 'new-secret' };
+      const macaroon = await makeMacaroon(PAYMENT_HASH, '/api/test', oldKey);
+
+      const middleware = l402({ node, rootKey: [newKey, oldKey], price: 100 });
+      const res = mockRes();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${macaroon}:${PREIMAGE_HEX}` } }),
+        res,
+        vi.fn()
+      );
+
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('signs new macaroons with the first key in the keyring', async () => {
       vi.stubGlobal(
         'fetch',
         vi.fn().mockResolvedValue({
-          ok: false,
-          status: 503,
-          statusText: 'Service Unavailable',
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              r_hash: PAYMENT_HASH_B64,
+              payment_request: 'lnbc100n1test',
+              add_index: '1',
+            }),
         })
       );
 
-      const middleware = l402({ node, price: 100 });
-      const req = mockReq();
+      const middleware = l402({
+        node,
+        rootKey: [{ id: 'k2', key: 'new-secret' }, { id: 'k1', key: 'old-secret' }],
+        price: 100,
+      });
       const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
 
-      await middleware(req, res, vi.fn());
+      const macaroon = deserializeMacaroon(res.body.macaroon);
+      expect(await verifyMacaroon(macaroon, 'new-secret')).toBe(true);
+      expect(await verifyMacaroon(macaroon, 'old-secret')).toBe(false);
+      expect(getCaveats(macaroon)[0]).toBe('key_id=k2');
+    });
 
-      expect(res.statusCode).toBe(500);
-      expect(res.body.error).toBe('Payment gateway error');
+    it('rejects tokens naming a key that is not in the keyring', async () => {
+      const macaroon = await makeMacaroon(PAYMENT_HASH, '/api/test', { id: 'k0', key: 'new-secret' });
+
+      const middleware = l402({ node, rootKey: [{ id: 'k2', key: 'new-secret' }], price: 100 });
+      const res = mockRes();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${macaroon}:${PREIMAGE_HEX}` } }),
+        res,
+        vi.fn()
+      );
+
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('throws at construction when key ids are missing or repeated', () => {
+      expect(() => l402({ node, rootKey: [{ id: '', key: 'secret' }], price: 100 })).toThrow(/id/);
+      expect(() =>
+        l402({ node, rootKey: [{ id: 'k1', key: 'a' }, { id: 'k1', key: 'b' }], price: 100 })
+      ).toThrow(/id/);
+    });
+
+    it('throws at construction when no root key is given', () => {
+      expect(() => l402({ node, rootKey: '', price: 100 })).toThrow(/rootKey/);
     });
   });
 
-  describe('TLS scoping', () => {
-    it('does not set NODE_TLS_REJECT_UNAUTHORIZED globally on construction', () => {
-      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+  describe('caveats', () => {
+    async function makeMacaroonWithCaveats(caveats: string[]) {
+      let macaroon = await mintMacaroon({
+        rootKey,
+        identifier: newIdentifier(PAYMENT_HASH),
+        location: 'l402',
+      });
+      for (const caveat of ['key_id=0', ...caveats]) {
+        macaroon = await addFirstPartyCaveat(macaroon, caveat);
+      }
+      return serializeMacaroon(macaroon);
+    }
+
+    async function authorize(
+      macaroon: string,
+      config: Partial<Parameters<typeof l402>[0]> = {},
+      reqOverrides: Record<string, any> = {}
+    ) {
+      const middleware = l402({ node, rootKey, price: 100, ...config });
+      const req = mockReq({
+        headers: { authorization: `L402 ${macaroon}:${PREIMAGE_HEX}` },
+        ...reqOverrides,
+      });
+      const res = mockRes();
+      const next = vi.fn();
+      await middleware(req, res, next);
+      return { req, res, next };
+    }
 
-      l402({ node: { ...node, skipTlsVerify: true }, price: 100 });
+    it('rejects a token bought for another route', async () => {
+      const macaroon = await makeMacaroon(PAYMENT_HASH, '/api/echo');
 
-      // The env var should NOT have been set at construction time
-      expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+      const { res, next } = await authorize(macaroon, {}, { path: '/api/wisdom' });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({
+        error: 'L402 caveat not satisfied',
+        caveat: 'services=/api/echo:0',
+      });
     });
 
-    it('restores NODE_TLS_REJECT_UNAUTHORIZED after LND call with skipTlsVerify', async () => {
-      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+    it('accepts a service token on every route of that service', async () => {
+      const macaroon = await makeMacaroonWithCaveats(['services=reports:0']);
+
+      const { req, next } = await authorize(macaroon, { service: 'reports' }, { path: '/api/reports/7' });
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(req.l402.service).toBe('reports');
+    });
+
+    it('rejects a token missing a required capability', async () => {
+      const macaroon = await makeMacaroonWithCaveats([
+        'services=reports:0',
+        'reports_capabilities=read',
+      ]);
+
+      const { res } = await authorize(macaroon, { service: 'reports', capabilities: ['write'] });
+
+      expect(res.statusCode).toBe(401);
+      expect(res.body.caveat).toBe('reports_capabilities=read');
+    });
+
+    it('checks service constraints', async () => {
+      const macaroon = await makeMacaroonWithCaveats([
+        'services=reports:0',
+        'reports_constraints=method:GET',
+      ]);
+      const constraints = { method: (value: string, ctx: any) => value === ctx.method };
+
+      const get = await authorize(macaroon, { service: 'reports', constraints });
+      const post = await authorize(macaroon, { service: 'reports', constraints }, { method: 'POST' });
+
+      expect(get.next).toHaveBeenCalledOnce();
+      expect(post.res.statusCode).toBe(401);
+    });
+
+    it('runs custom satisfiers', async () => {
+      const macaroon = await makeMacaroonWithCaveats(['services=/api/test:0', 'ip=10.0.0.1']);
+      const satisfiers = [
+        { condition: 'ip', satisfyFinal: (c: any, ctx: any) => c.value === ctx.ip },
+      ];
+
+      const allowed = await authorize(macaroon, { satisfiers }, { ip: '10.0.0.1' });
+      const denied = await authorize(macaroon, { satisfiers }, { ip: '10.0.0.2' });
 
+      expect(allowed.next).toHaveBeenCalledOnce();
+      expect(denied.res.statusCode).toBe(401);
+      expect(denied.res.body.caveat).toBe('ip=10.0.0.1');
+    });
+
+    it('rejects caveats added by the client that nobody can satisfy', async () => {
+      const macaroon = await makeMacaroonWithCaveats(['services=/api/test:0', 'user_tier=gold']);
+
+      const { res } = await authorize(macaroon);
+
+      expect(res.statusCode).toBe(401);
+      expect(res.body.caveat).toBe('user_tier=gold');
+    });
+
+    it('writes service, capability and custom caveats into issued macaroons', async () => {
       vi.stubGlobal(
         'fetch',
         vi.fn().mockResolvedValue({
@@ -337,16 +550,72 @@ describe('l402 middleware', () => {
         })
       );
 
-      const middleware = l402({ node: { ...node, skipTlsVerify: true }, price: 100 });
-      await middleware(mockReq(), mockRes(), vi.fn());
-
-      // After the call completes, the env var should be cleaned up
-      expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+      const middleware = l402({
+        node,
+        rootKey,
+        price: 100,
+        service: 'reports',
+        tier: 1,
+        capabilities: ['read', 'list'],
+        caveats: (req: any) => [`ip=${req.ip}`],
+      });
+      const res = mockRes();
+      await middleware(mockReq({ ip: '10.0.0.1' }), res, vi.fn());
+
+      expect(getCaveats(deserializeMacaroon(res.body.macaroon))).toEqual([
+        'key_id=0',
+        'services=reports:1',
+        'reports_capabilities=read,list',
+        'ip=10.0.0.1',
+      ]);
     });
 
-    it('does not touch NODE_TLS_REJECT_UNAUTHORIZED when skipTlsVerify is false', async () => {
-      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+    describe('paths with caveat separators', () => {
+      beforeEach(() => {
+        vi.stubGlobal(
+          'fetch',
+          vi.fn().mockResolvedValue({
+            ok: true,
+            json: () =>
+              Promise.resolve({ r_hash: PAYMENT_HASH_B64, payment_request: 'lnbc10n1files', add_index: '1' }),
+          })
+        );
+      });
+
+      // A token bought for `path` on a route that charges `price`
+      async function buy(path: string, config: Partial<Parameters<typeof l402>[0]> = {}) {
+        const res = mockRes();
+        await l402({ node, rootKey, price: 1, ...config })(mockReq({ path }), res, vi.fn());
+        return `L402 ${res.body.macaroon}:${PREIMAGE_HEX}`;
+      }
+
+      it('does not let a comma in the path grant other services', async () => {
+        const authorization = await buy('/files/x,/api/wisdom');
+
+        const res = mockRes();
+        const next = vi.fn();
+        await l402({ node, rootKey, price: 50 })(mockReq({ path: '/api/wisdom', headers: { authorization } }), res, next);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(401);
+      });
 
+      it('issues working tokens for paths with = and :', async () => {
+        const path = '/files/a=b:c,d';
+        const authorization = await buy(path, { validFor: 600, capabilities: ['read'] });
+
+        const req = mockReq({ path, headers: { authorization } });
+        const next = vi.fn();
+        await l402({ node, rootKey, price: 1, validFor: 600, capabilities: ['read'] })(req, mockRes(), next);
+
+        expect(next).toHaveBeenCalledOnce();
+        expect(req.l402.service).toBe(path);
+      });
+    });
+  });
+
+  describe('token expiry', () => {
+    function stubInvoice() {
       vi.stubGlobal(
         'fetch',
         vi.fn().mockResolvedValue({
@@ -354,59 +623,228 @@ describe('l402 middleware', () => {
           json: () =>
             Promise.resolve({
               r_hash: PAYMENT_HASH_B64,
-              payment_request: 'lnbc100n1test',
-              add_index: '1',
+              payment_request: 'lnbc100n1renewal',
+              add_index: '2',
             }),
         })
       );
+    }
 
-      const middleware = l402({ node, price: 100 });
-      await middleware(mockReq(), mockRes(), vi.fn());
-
-      expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+    afterEach(() => {
+      vi.useRealTimers();
     });
-  });
 
-  describe('price validation', () => {
-    it('returns 500 for price of 0', async () => {
-      const middleware = l402({ node, price: 0 });
+    it('writes a valid_until caveat into issued macaroons', async () => {
+      stubInvoice();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+
+      const middleware = l402({ node, rootKey, price: 100, validFor: 86400 });
       const res = mockRes();
       await middleware(mockReq(), res, vi.fn());
 
-      expect(res.statusCode).toBe(500);
-      expect(res.body.error).toBe('Payment gateway error');
+      const expiresAt = Date.parse('2026-10-20T00:00:00Z') / 1000;
+      expect(getCaveats(deserializeMacaroon(res.body.macaroon))).toContain(
+        `/api/test_valid_until=${expiresAt}`
+      );
     });
 
-    it('returns 500 for negative price', async () => {
-      const middleware = l402({ node, price: -10 });
+    it('accepts a pass until it expires', async () => {
+      stubInvoice();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+
+      const middleware = l402({ node, rootKey, price: 100, validFor: 3600 });
+      const challengeRes = mockRes();
+      await middleware(mockReq(), challengeRes, vi.fn());
+      const authorization = `L402 ${challengeRes.body.macaroon}:${PREIMAGE_HEX}`;
+
+      vi.setSystemTime(new Date('2026-10-19T00:59:59Z'));
+      const next = vi.fn();
+      await middleware(mockReq({ headers: { authorization } }), mockRes(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('answers an expired pass with a fresh 402 challenge', async () => {
+      stubInvoice();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+
+      const middleware = l402({ node, rootKey, price: 100, validFor: 3600 });
+      const challengeRes = mockRes();
+      await middleware(mockReq(), challengeRes, vi.fn());
+      const authorization = `L402 ${challengeRes.body.macaroon}:${PREIMAGE_HEX}`;
+
+      vi.setSystemTime(new Date('2026-10-19T01:00:00Z'));
       const res = mockRes();
-      await middleware(mockReq(), res, vi.fn());
+      const next = vi.fn();
+      await middleware(mockReq({ headers: { authorization } }), res, next);
 
-      expect(res.statusCode).toBe(500);
-      expect(res.body.error).toBe('Payment gateway error');
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(402);
+      expect(res.body.invoice).toBe('lnbc100n1renewal');
+      expect(res.headers['WWW-Authenticate']).toContain('L402');
     });
 
-    it('returns 500 for NaN price from priceFn', async () => {
-      const middleware = l402({ node, price: 100, priceFn: () => NaN });
+    it('still answers other caveat failures with 401', async () => {
+      const validUntil = `/api/test_valid_until=${Math.floor(Date.now() / 1000) + 60}`;
+      let macaroon = await mintMacaroon({ rootKey, identifier: newIdentifier(PAYMENT_HASH), location: 'l402' });
+      macaroon = await addFirstPartyCaveat(macaroon, 'key_id=0');
+      macaroon = await addFirstPartyCaveat(macaroon, 'services=/api/other:0');
+      macaroon = await addFirstPartyCaveat(macaroon, validUntil);
+
+      const middleware = l402({ node, rootKey, price: 100, validFor: 60 });
       const res = mockRes();
-      await middleware(mockReq(), res, vi.fn());
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${serializeMacaroon(macaroon)}:${PREIMAGE_HEX}` } }),
+        res,
+        vi.fn()
+      );
+
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('throws at construction for a non-positive validFor', () => {
+      expect(() => l402({ node, rootKey, price: 100, validFor: 0 })).toThrow(/validFor/);
+    });
+  });
+
+  describe('metered usage', () => {
+    function stubInvoice() {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              r_hash: PAYMENT_HASH_B64,
+              payment_request: 'lnbc100n1topup',
+              add_index: '3',
+            }),
+        })
+      );
+    }
+
+    it('reports remaining uses on req.l402', async () => {
+      const authorization = `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}`;
+      const middleware = l402({ node, rootKey, price: 100, maxUses: 3 });
+
+      const remaining: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const req = mockReq({ headers: { authorization } });
+        await middleware(req, mockRes(), vi.fn());
+        remaining.push(req.l402.remainingUses);
+      }
+
+      expect(remaining).toEqual([2, 1, 0]);
+    });
 
+    it('issues a new 402 once the quota is used up', async () => {
+      stubInvoice();
+      const authorization = `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}`;
+      const middleware = l402({ node, rootKey, price: 100, maxUses: 2 });
+
+      await middleware(mockReq({ headers: { authorization } }), mockRes(), vi.fn());
+      await middleware(mockReq({ headers: { authorization } }), mockRes(), vi.fn());
+
+      const res = mockRes();
+      const next = vi.fn();
+      await middleware(mockReq({ headers: { authorization } }), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(402);
+      expect(res.body.invoice).toBe('lnbc100n1topup');
+    });
+
+    it('counts each payment separately', async () => {
+      const otherPreimage = '11'.repeat(32);
+      const otherHash = crypto.createHash('sha256').update(Buffer.from(otherPreimage, 'hex')).digest('hex');
+      const middleware = l402({ node, rootKey, price: 100, maxUses: 1 });
+
+      const first = vi.fn();
+      const second = vi.fn();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } }),
+        mockRes(),
+        first
+      );
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${await makeMacaroon(otherHash)}:${otherPreimage}` } }),
+        mockRes(),
+        second
+      );
+
+      expect(first).toHaveBeenCalledOnce();
+      expect(second).toHaveBeenCalledOnce();
+    });
+
+    it('counts through a custom usage store keyed by payment hash', async () => {
+      const usageStore = {
+        get: vi.fn().mockResolvedValue(0),
+        increment: vi.fn().mockResolvedValue(10),
+        reset: vi.fn(),
+      };
+      const middleware = l402({ node, rootKey, price: 100, maxUses: 50, usageStore });
+      const req = mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } });
+
+      await middleware(req, mockRes(), vi.fn());
+
+      expect(usageStore.increment).toHaveBeenCalledWith(PAYMENT_HASH, expect.any(Number));
+      expect(req.l402.remainingUses).toBe(40);
+    });
+
+    it('returns 500 when the usage store fails', async () => {
+      const usageStore = {
+        get: vi.fn(),
+        increment: vi.fn().mockRejectedValue(new Error('redis down')),
+        reset: vi.fn(),
+      };
+      const middleware = l402({ node, rootKey, price: 100, maxUses: 5, usageStore });
+      const res = mockRes();
+      const next = vi.fn();
+
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } }),
+        res,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
       expect(res.statusCode).toBe(500);
-      expect(res.body.error).toBe('Payment gateway error');
     });
 
-    it('returns 500 for Infinity price from priceFn', async () => {
-      const middleware = l402({ node, price: 100, priceFn: () => Infinity });
+    it('issues metered tokens that expire after spentTokenTtl without validFor', async () => {
+      stubInvoice();
+      const middleware = l402({ node, rootKey, price: 100, maxUses: 5, spentTokenTtl: 3600 });
       const res = mockRes();
+
+      const before = Math.floor(Date.now() / 1000);
       await middleware(mockReq(), res, vi.fn());
 
-      expect(res.statusCode).toBe(500);
-      expect(res.body.error).toBe('Payment gateway error');
+      const validUntil = getCaveats(deserializeMacaroon(res.body.macaroon))
+        .find((c) => c.startsWith('/api/test_valid_until='))!;
+      const expiry = Number(validUntil.split('=')[1]);
+      expect(expiry).toBeGreaterThanOrEqual(before + 3600);
+      expect(expiry).toBeLessThanOrEqual(Math.floor(Date.now() / 1000) + 3600);
+    });
+
+    it('does not count when maxUses is not set', async () => {
+      const req = mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } });
+      const middleware = l402({ node, rootKey, price: 100 });
+
+      await middleware(req, mockRes(), vi.fn());
+
+      expect(req.l402.remainingUses).toBeUndefined();
+    });
+
+    it('throws at construction for a non-integer maxUses', () => {
+      expect(() => l402({ node, rootKey, price: 100, maxUses: 1.5 })).toThrow(/maxUses/);
     });
   });
 
-  describe('macaroon round-trip', () => {
-    it('embeds payment hash that matches the invoice', async () => {
+  describe('single-use tokens', () => {
+    function stubInvoice() {
       vi.stubGlobal(
         'fetch',
         vi.fn().mockResolvedValue({
@@ -414,25 +852,1035 @@ describe('l402 middleware', () => {
           json: () =>
             Promise.resolve({
               r_hash: PAYMENT_HASH_B64,
-              payment_request: 'lnbc100n1test',
-              add_index: '1',
+              payment_request: 'lnbc100n1again',
+              add_index: '4',
             }),
         })
       );
+    }
 
-      const middleware = l402({ node, price: 100 });
-      const req = mockReq();
-      const res = mockRes();
+    it('accepts a token once and challenges the replay', async () => {
+      stubInvoice();
+      const authorization = `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}`;
+      const middleware = l402({ node, rootKey, price: 100, singleUse: true });
 
-      await middleware(req, res, vi.fn());
+      const first = vi.fn();
+      await middleware(mockReq({ headers: { authorization } }), mockRes(), first);
 
-      // Decode the macaroon from the response and verify it contains the right hash
-      const macaroonData = JSON.parse(
-        Buffer.from(res.body.macaroon, 'base64').toString()
+      const replayRes = mockRes();
+      const replay = vi.fn();
+      await middleware(mockReq({ headers: { authorization } }), replayRes, replay);
+
+      expect(first).toHaveBeenCalledOnce();
+      expect(replay).not.toHaveBeenCalled();
+      expect(replayRes.statusCode).toBe(402);
+      expect(replayRes.body.invoice).toBe('lnbc100n1again');
+    });
+
+    it('lets exactly one of two concurrent requests through', async () => {
+      stubInvoice();
+      const authorization = `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}`;
+      const middleware = l402({ node, rootKey, price: 100, singleUse: true });
+
+      const next = vi.fn();
+      const responses = [mockRes(), mockRes()];
+      await Promise.all(
+        responses.map((res) => middleware(mockReq({ headers: { authorization } }), res, next))
+      );
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(responses.filter((res) => res.statusCode === 402)).toHaveLength(1);
+    });
+
+    it('remembers spent tokens until the token itself expires', async () => {
+      const spentTokenStore = { markSpent: vi.fn().mockResolvedValue(true) };
+      const validUntil = Math.floor(Date.now() / 1000) + 600;
+      let macaroon = await mintMacaroon({ rootKey, identifier: newIdentifier(PAYMENT_HASH), location: 'l402' });
+      macaroon = await addFirstPartyCaveat(macaroon, 'key_id=0');
+      macaroon = await addFirstPartyCaveat(macaroon, 'services=/api/test:0');
+      macaroon = await addFirstPartyCaveat(macaroon, `/api/test_valid_until=${validUntil}`);
+
+      const middleware = l402({ node, rootKey, price: 100, singleUse: true, spentTokenStore });
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${serializeMacaroon(macaroon)}:${PREIMAGE_HEX}` } }),
+        mockRes(),
+        vi.fn()
+      );
+
+      expect(spentTokenStore.markSpent).toHaveBeenCalledWith(PAYMENT_HASH, validUntil * 1000);
+    });
+
+    it('refuses a replay after spentTokenTtl has passed', async () => {
+      stubInvoice();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const middleware = l402({ node, rootKey, price: 100, singleUse: true, spentTokenTtl: 3600 });
+        const challenge = mockRes();
+        await middleware(mockReq(), challenge, vi.fn());
+        const authorization = `L402 ${challenge.body.macaroon}:${PREIMAGE_HEX}`;
+        const first = vi.fn();
+        await middleware(mockReq({ headers: { authorization } }), mockRes(), first);
+
+        vi.advanceTimersByTime(2 * 3600_000);
+        const replayRes = mockRes();
+        const replay = vi.fn();
+        await middleware(mockReq({ headers: { authorization } }), replayRes, replay);
+
+        expect(first).toHaveBeenCalledOnce();
+        expect(replay).not.toHaveBeenCalled();
+        expect(replayRes.statusCode).toBe(402);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('falls back to spentTokenTtl for tokens without an expiry', async () => {
+      const spentTokenStore = { markSpent: vi.fn().mockResolvedValue(true) };
+      const middleware = l402({
+        node,
+        rootKey,
+        price: 100,
+        singleUse: true,
+        spentTokenStore,
+        spentTokenTtl: 3600,
+      });
+
+      const before = Date.now();
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } }),
+        mockRes(),
+        vi.fn()
       );
-      expect(macaroonData.version).toBe(1);
-      expect(macaroonData.paymentHash).toBe(PAYMENT_HASH);
-      expect(macaroonData.service).toBe('/api/test');
+
+      const expiresAt = spentTokenStore.markSpent.mock.calls[0][1];
+      expect(expiresAt).toBeGreaterThanOrEqual(before + 3600_000);
+      expect(expiresAt).toBeLessThanOrEqual(Date.now() + 3600_000);
+    });
+
+    it('returns 500 when the spent-token store fails', async () => {
+      const spentTokenStore = { markSpent: vi.fn().mockRejectedValue(new Error('db down')) };
+      const middleware = l402({ node, rootKey, price: 100, singleUse: true, spentTokenStore });
+      const res = mockRes();
+      const next = vi.fn();
+
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } }),
+        res,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(500);
+    });
+
+    it('throws at construction when combined with maxUses', () => {
+      expect(() => l402({ node, rootKey, price: 100, singleUse: true, maxUses: 2 })).toThrow(/singleUse/);
+    });
+  });
+
+  describe('custom Lightning backend', () => {
+    it('issues invoices through the backend instead of LND REST', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const backend = {
+        createInvoice: vi.fn().mockResolvedValue({
+          paymentRequest: 'lnbc100n1custom',
+          paymentHash: PAYMENT_HASH,
+        }),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn(),
+        decodeInvoice: vi.fn(),
+      };
+
+      const middleware = l402({ node: backend, rootKey, price: 100, description: 'Custom' });
+      const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(backend.createInvoice).toHaveBeenCalledWith({ amountSats: 100, memo: 'Custom' });
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(402);
+      expect(res.body.invoice).toBe('lnbc100n1custom');
+      expect(decodeIdentifier(deserializeMacaroon(res.body.macaroon).identifier).paymentHash).toBe(
+        PAYMENT_HASH
+      );
+    });
+
+    it('returns 500 when the backend fails', async () => {
+      const backend = {
+        createInvoice: vi.fn().mockRejectedValue(new Error('node offline')),
+        lookupInvoice: vi.fn(),
+        payInvoice: vi.fn(),
+        decodeInvoice: vi.fn(),
+      };
+
+      const middleware = l402({ node: backend, rootKey, price: 100 });
+      const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+    });
+  });
+
+  describe('LSAT compatibility', () => {
+    function stubInvoice() {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              r_hash: PAYMENT_HASH_B64,
+              payment_request: 'lnbc100n1lsat',
+              add_index: '5',
+            }),
+        })
+      );
+    }
+
+    it('treats LSAT tokens as unauthenticated by default', async () => {
+      stubInvoice();
+      const middleware = l402({ node, rootKey, price: 100 });
+      const res = mockRes();
+      const next = vi.fn();
+
+      await middleware(
+        mockReq({ headers: { authorization: `LSAT ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } }),
+        res,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(402);
+      expect(res.headers['WWW-Authenticate']).toMatch(/^L402 /);
+    });
+
+    it('accepts LSAT tokens with acceptLsat', async () => {
+      const middleware = l402({ node, rootKey, price: 100, acceptLsat: true });
+      const req = mockReq({
+        headers: { authorization: `LSAT ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` },
+      });
+      const next = vi.fn();
+
+      await middleware(req, mockRes(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(req.l402.paymentHash).toBe(PAYMENT_HASH);
+    });
+
+    it('still accepts L402 tokens with acceptLsat', async () => {
+      const middleware = l402({ node, rootKey, price: 100, acceptLsat: true });
+      const next = vi.fn();
+
+      await middleware(
+        mockReq({ headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` } }),
+        mockRes(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('sends both challenges with acceptLsat', async () => {
+      stubInvoice();
+      const middleware = l402({ node, rootKey, price: 100, acceptLsat: true });
+      const res = mockRes();
+
+      await middleware(mockReq(), res, vi.fn());
+
+      const [l402Header, lsatHeader] = res.headers['WWW-Authenticate'];
+      expect(l402Header).toBe(`L402 macaroon="${res.body.macaroon}", invoice="lnbc100n1lsat"`);
+      expect(lsatHeader).toBe(`LSAT macaroon="${res.body.macaroon}", invoice="lnbc100n1lsat"`);
+    });
+  });
+
+  describe('scope hint', () => {
+    function stubInvoice() {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              r_hash: PAYMENT_HASH_B64,
+              payment_request: 'lnbc100n1scope',
+              add_index: '6',
+            }),
+        })
+      );
+    }
+
+    it('sends the scope in the challenge header and body', async () => {
+      stubInvoice();
+      const middleware = l402({ node, rootKey, price: 100, service: 'reports', scope: '/api/reports/' });
+      const res = mockRes();
+
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(res.headers['WWW-Authenticate']).toBe(
+        `L402 macaroon="${res.body.macaroon}", invoice="lnbc100n1scope", scope="/api/reports/"`
+      );
+      expect(res.body.scope).toBe('/api/reports/');
+    });
+
+    it('leaves the scope out by default', async () => {
+      stubInvoice();
+      const res = mockRes();
+
+      await l402({ node, rootKey, price: 100 })(mockReq(), res, vi.fn());
+
+      expect(res.headers['WWW-Authenticate']).not.toMatch(/scope=/);
+      expect(res.body).not.toHaveProperty('scope');
+    });
+  });
+
+  describe('verifyWithNode', () => {
+    const auth = async () => ({
+      headers: { authorization: `L402 ${await makeMacaroon(PAYMENT_HASH)}:${PREIMAGE_HEX}` },
+    });
+
+    function stubLookup(invoice: Record<string, string>) {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            r_hash: PAYMENT_HASH_B64,
+            value: '100',
+            amt_paid_sat: '100',
+            state: 'SETTLED',
+            settle_date: '1760000000',
+            ...invoice,
+          }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('lets a settled invoice through and reports what was paid', async () => {
+      const fetchMock = stubLookup({ amt_paid_sat: '120' });
+      const middleware = l402({ node, rootKey, price: 100, verifyWithNode: true });
+      const req = mockReq(await auth());
+      const next = vi.fn();
+
+      await middleware(req, mockRes(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(fetchMock.mock.calls[0][0]).toBe(`https://localhost:8082/v1/invoice/${PAYMENT_HASH}`);
+      expect(req.l402).toMatchObject({ amountPaidSats: 120, settledAt: 1760000000000 });
+    });
+
+    it('looks each settled invoice up only once', async () => {
+      const fetchMock = stubLookup({});
+      const middleware = l402({ node, rootKey, price: 100, verifyWithNode: true });
+
+      await middleware(mockReq(await auth()), mockRes(), vi.fn());
+      await middleware(mockReq(await auth()), mockRes(), vi.fn());
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects tokens whose invoice has not settled', async () => {
+      const fetchMock = stubLookup({ state: 'OPEN', amt_paid_sat: '0', settle_date: '0' });
+      const middleware = l402({ node, rootKey, price: 100, verifyWithNode: true });
+      const res = mockRes();
+      const next = vi.fn();
+
+      await middleware(mockReq(await auth()), res, next);
+      await middleware(mockReq(await auth()), mockRes(), vi.fn());
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ error: 'L402 invoice not settled' });
+      // Unsettled results aren't cached
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects invoices paid for less than the price', async () => {
+      stubLookup({ value: '50', amt_paid_sat: '50' });
+      const res = mockRes();
+      const next = vi.fn();
+
+      await l402({ node, rootKey, price: 100, verifyWithNode: true })(mockReq(await auth()), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+    });
+
+    it('checks dynamic prices against the invoice amount', async () => {
+      stubLookup({ value: '50', amt_paid_sat: '50' });
+      const next = vi.fn();
+      const middleware = l402({ node, rootKey, price: 100, priceFn: () => 500, verifyWithNode: true });
+
+      await middleware(mockReq(await auth()), mockRes(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('returns 500 when the node cannot be reached', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')));
+      const res = mockRes();
+
+      await l402({ node, rootKey, price: 100, verifyWithNode: true })(mockReq(await auth()), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+    });
+
+    it('rejects tokens whose invoice the node has no record of', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+      const res = mockRes();
+      const next = vi.fn();
+
+      await l402({ node, rootKey, price: 100, verifyWithNode: true })(mockReq(await auth()), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ error: 'L402 invoice not settled' });
+    });
+
+    it('returns 500 when the node fails the lookup', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Unavailable' }));
+      const res = mockRes();
+
+      await l402({ node, rootKey, price: 100, verifyWithNode: true })(mockReq(await auth()), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ error: 'Payment gateway error' });
+    });
+
+    it('does not ask the node by default', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const next = vi.fn();
+
+      await l402({ node, rootKey, price: 100 })(mockReq(await auth()), mockRes(), next);
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('challenge issuance', () => {
+    // A backend that mints a fresh payment hash per invoice. Invoices
+    // stay open until added to `paid`.
+    function stubBackend() {
+      let n = 0;
+      const paid = new Set<string>();
+      return {
+        paid,
+        createInvoice: vi.fn(async () => {
+          n += 1;
+          return { paymentRequest: `lnbc100n1invoice${n}`, paymentHash: n.toString(16).padStart(64, '0') };
+        }),
+        lookupInvoice: vi.fn(async (paymentHash: string) => ({
+          paymentHash,
+          state: paid.has(paymentHash) ? ('SETTLED' as const) : ('OPEN' as const),
+          valueSats: 100,
+          amountPaidSats: paid.has(paymentHash) ? 100 : 0,
+        })),
+        payInvoice: vi.fn(),
+        decodeInvoice: vi.fn(),
+      };
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('sends a client the same unpaid challenge within the reuse window', async () => {
+      const backend = stubBackend();
+      const middleware = l402({ node: backend, rootKey, price: 100, issuance: {} });
+
+      const first = mockRes();
+      const second = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4' }), first, vi.fn());
+      await middleware(mockReq({ ip: '1.2.3.4' }), second, vi.fn());
+
+      expect(backend.createInvoice).toHaveBeenCalledTimes(1);
+      expect(second.statusCode).toBe(402);
+      expect(second.body).toEqual(first.body);
+      expect(second.headers['WWW-Authenticate']).toBe(first.headers['WWW-Authenticate']);
+    });
+
+    it('gives other clients, routes and prices their own invoices', async () => {
+      const backend = stubBackend();
+      let price = 100;
+      const middleware = l402({ node: backend, rootKey, price, priceFn: () => price, issuance: {} });
+
+      await middleware(mockReq({ ip: '1.2.3.4' }), mockRes(), vi.fn());
+      await middleware(mockReq({ ip: '5.6.7.8' }), mockRes(), vi.fn());
+      await middleware(mockReq({ ip: '1.2.3.4', path: '/api/other' }), mockRes(), vi.fn());
+      price = 200;
+      await middleware(mockReq({ ip: '1.2.3.4' }), mockRes(), vi.fn());
+
+      expect(backend.createInvoice).toHaveBeenCalledTimes(4);
+    });
+
+    it('only reuses a challenge for requests that get the same caveats', async () => {
+      const backend = stubBackend();
+      const middleware = l402({
+        node: backend,
+        rootKey,
+        price: 100,
+        caveats: (req) => [`user=${req.headers['x-user']}`],
+        issuance: {},
+      });
+
+      const alice = mockRes();
+      const bob = mockRes();
+      const aliceAgain = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4', headers: { 'x-user': 'alice' } }), alice, vi.fn());
+      await middleware(mockReq({ ip: '1.2.3.4', headers: { 'x-user': 'bob' } }), bob, vi.fn());
+      await middleware(mockReq({ ip: '1.2.3.4', headers: { 'x-user': 'alice' } }), aliceAgain, vi.fn());
+
+      expect(backend.createInvoice).toHaveBeenCalledTimes(2);
+      expect(getCaveats(deserializeMacaroon(bob.body.macaroon))).toContain('user=bob');
+      expect(aliceAgain.body).toEqual(alice.body);
+    });
+
+    it('issues a new invoice once the reuse window has passed', async () => {
+      vi.useFakeTimers();
+      const backend = stubBackend();
+      const middleware = l402({ node: backend, rootKey, price: 100, issuance: { reuseSeconds: 10 } });
+
+      await middleware(mockReq({ ip: '1.2.3.4' }), mockRes(), vi.fn());
+      vi.advanceTimersByTime(11_000);
+      await middleware(mockReq({ ip: '1.2.3.4' }), mockRes(), vi.fn());
+
+      expect(backend.createInvoice).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not hand out an invoice that has been paid', async () => {
+      const backend = stubBackend();
+      const preimage = 'ab'.repeat(32);
+      const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+      backend.createInvoice.mockResolvedValueOnce({ paymentRequest: 'lnbc100n1paid', paymentHash });
+      const middleware = l402({
+        node: backend,
+        rootKey,
+        price: 100,
+        singleUse: true,
+        issuance: {},
+      });
+
+      const challenge = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4' }), challenge, vi.fn());
+      const auth = { authorization: `L402 ${challenge.body.macaroon}:${preimage}` };
+      const next = vi.fn();
+      await middleware(mockReq({ ip: '1.2.3.4', headers: auth }), mockRes(), next);
+      const replay = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4', headers: auth }), replay, vi.fn());
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(replay.statusCode).toBe(402);
+      expect(replay.body.invoice).not.toBe('lnbc100n1paid');
+    });
+
+    it('does not reuse an invoice another client with the same key has paid', async () => {
+      const backend = stubBackend();
+      const middleware = l402({ node: backend, rootKey, price: 100, issuance: {} });
+
+      const first = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4' }), first, vi.fn());
+      // Someone else behind the same IP pays it
+      backend.paid.add('1'.padStart(64, '0'));
+      const second = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4' }), second, vi.fn());
+
+      expect(backend.createInvoice).toHaveBeenCalledTimes(2);
+      expect(second.statusCode).toBe(402);
+      expect(second.body.invoice).not.toBe(first.body.invoice);
+    });
+
+    it('rate-limits new challenges per client with a 429', async () => {
+      vi.useFakeTimers();
+      const backend = stubBackend();
+      const middleware = l402({
+        node: backend,
+        rootKey,
+        price: 100,
+        issuance: { maxPerWindow: 2, windowSeconds: 30, reuseSeconds: 0 },
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await middleware(mockReq({ ip: '1.2.3.4' }), mockRes(), vi.fn());
+      }
+      vi.advanceTimersByTime(10_000);
+      const limited = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4' }), limited, vi.fn());
+      const other = mockRes();
+      await middleware(mockReq({ ip: '5.6.7.8' }), other, vi.fn());
+
+      expect(limited.statusCode).toBe(429);
+      expect(limited.headers['Retry-After']).toBe('20');
+      expect(limited.body).toEqual({ error: 'Too many L402 challenges', retryAfter: 20 });
+      expect(other.statusCode).toBe(402);
+      expect(backend.createInvoice).toHaveBeenCalledTimes(3);
+
+      vi.advanceTimersByTime(20_000);
+      const later = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4' }), later, vi.fn());
+      expect(later.statusCode).toBe(402);
+    });
+
+    it('does not count reused challenges against the rate limit', async () => {
+      const backend = stubBackend();
+      const middleware = l402({ node: backend, rootKey, price: 100, issuance: { maxPerWindow: 1 } });
+
+      const responses = [mockRes(), mockRes(), mockRes()];
+      for (const res of responses) {
+        await middleware(mockReq({ ip: '1.2.3.4' }), res, vi.fn());
+      }
+
+      expect(responses.map((r) => r.statusCode)).toEqual([402, 402, 402]);
+    });
+
+    it('counts challenges against a custom client key', async () => {
+      const backend = stubBackend();
+      const middleware = l402({
+        node: backend,
+        rootKey,
+        price: 100,
+        issuance: {
+          clientKey: (req) => String(req.headers['x-api-key']),
+          maxPerWindow: 1,
+          reuseSeconds: 0,
+        },
+      });
+
+      const first = mockRes();
+      const second = mockRes();
+      await middleware(mockReq({ ip: '1.2.3.4', headers: { 'x-api-key': 'k1' } }), first, vi.fn());
+      await middleware(mockReq({ ip: '5.6.7.8', headers: { 'x-api-key': 'k1' } }), second, vi.fn());
+
+      expect(first.statusCode).toBe(402);
+      expect(second.statusCode).toBe(429);
+    });
+
+    it('caps outstanding invoices and frees a slot when one is paid', async () => {
+      const backend = stubBackend();
+      const preimage = 'ab'.repeat(32);
+      const paymentHash = crypto.createHash('sha256').update(Buffer.from(preimage, 'hex')).digest('hex');
+      backend.createInvoice.mockResolvedValueOnce({ paymentRequest: 'lnbc100n1paid', paymentHash });
+      const middleware = l402({ node: backend, rootKey, price: 100, issuance: { maxOutstanding: 2 } });
+
+      const paid = mockRes();
+      await middleware(mockReq({ ip: '1.1.1.1' }), paid, vi.fn());
+      await middleware(mockReq({ ip: '2.2.2.2' }), mockRes(), vi.fn());
+      const capped = mockRes();
+      await middleware(mockReq({ ip: '3.3.3.3' }), capped, vi.fn());
+
+      expect(capped.statusCode).toBe(429);
+      expect(capped.headers['Retry-After']).toBe('60');
+      expect(capped.body.error).toBe('Too many unpaid L402 invoices');
+
+      const auth = { authorization: `L402 ${paid.body.macaroon}:${preimage}` };
+      await middleware(mockReq({ ip: '1.1.1.1', headers: auth }), mockRes(), vi.fn());
+      const freed = mockRes();
+      await middleware(mockReq({ ip: '3.3.3.3' }), freed, vi.fn());
+      expect(freed.statusCode).toBe(402);
+    });
+
+    it('uses a custom challenge store', async () => {
+      const store = {
+        hit: vi.fn().mockResolvedValue({ count: 1, resetAt: Date.now() + 60_000 }),
+        get: vi.fn().mockResolvedValue(undefined),
+        add: vi.fn().mockResolvedValue(undefined),
+        settle: vi.fn().mockResolvedValue(undefined),
+        outstanding: vi.fn().mockResolvedValue(0),
+      };
+      const middleware = l402({
+        node: stubBackend(),
+        rootKey,
+        price: 100,
+        issuance: { store, maxOutstanding: 10 },
+      });
+
+      await middleware(mockReq({ ip: '1.2.3.4' }), mockRes(), vi.fn());
+
+      expect(store.get).toHaveBeenCalledWith('1.2.3.4 GET /api/test');
+      expect(store.hit).toHaveBeenCalledWith('1.2.3.4', 60_000);
+      expect(store.add).toHaveBeenCalledWith(
+        '1.2.3.4 GET /api/test',
+        expect.objectContaining({ invoice: 'lnbc100n1invoice1', price: 100 }),
+        expect.any(Number)
+      );
+    });
+
+    it('returns 500 when the store fails', async () => {
+      const store = {
+        hit: vi.fn().mockRejectedValue(new Error('redis down')),
+        get: vi.fn().mockResolvedValue(undefined),
+        add: vi.fn(),
+        settle: vi.fn(),
+        outstanding: vi.fn(),
+      };
+      const backend = stubBackend();
+      const middleware = l402({ node: backend, rootKey, price: 100, issuance: { store } });
+      const res = mockRes();
+
+      await middleware(mockReq({ ip: '1.2.3.4' }), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(backend.createInvoice).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid limits at construction', () => {
+      expect(() => l402({ node, rootKey, price: 100, issuance: { maxPerWindow: 0 } })).toThrow(/maxPerWindow/);
+      expect(() => l402({ node, rootKey, price: 100, issuance: { maxOutstanding: 1.5 } })).toThrow(/maxOutstanding/);
+      expect(() => l402({ node, rootKey, price: 100, issuance: { windowSeconds: 0 } })).toThrow(/windowSeconds/);
+      expect(() => l402({ node, rootKey, price: 100, issuance: { reuseSeconds: -1 } })).toThrow(/reuseSeconds/);
+    });
+  });
+
+  describe('escrow', () => {
+    const sha256 = (hex: string) =>
+      crypto.createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex');
+
+    // A node with hold invoices. `pay` stands in for the payer's HTLC arriving.
+    function stubHoldNode() {
+      const invoices = new Map<string, InvoiceState>();
+      return {
+        invoices,
+        pay: (paymentHash: string) => invoices.set(paymentHash, 'ACCEPTED'),
+        createInvoice: vi.fn(),
+        createHoldInvoice: vi.fn(async ({ paymentHash }: { paymentHash: string }) => {
+          invoices.set(paymentHash, 'OPEN');
+          return { paymentRequest: 'lnbc100n1hold', paymentHash };
+        }),
+        lookupInvoice: vi.fn(async (paymentHash: string) => ({
+          paymentHash,
+          state: invoices.get(paymentHash) ?? 'CANCELED',
+          valueSats: 100,
+          amountPaidSats: 0,
+        })),
+        settleInvoice: vi.fn(async (preimage: string) => {
+          invoices.set(sha256(preimage), 'SETTLED');
+        }),
+        cancelInvoice: vi.fn(async (paymentHash: string) => {
+          invoices.set(paymentHash, 'CANCELED');
+        }),
+        payInvoice: vi.fn(),
+        decodeInvoice: vi.fn(),
+      };
+    }
+
+    // A real Express app, since escrow hooks into how Node sends responses
+    async function serve(middleware: ReturnType<typeof l402>, status = 200) {
+      const app = express();
+      app.get('/api/job', middleware, (req, res) => {
+        res.status(status).json({ done: status < 300, paid: (req as any).l402.paymentHash });
+      });
+      const server = app.listen(0, '127.0.0.1');
+      await once(server, 'listening');
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/job`;
+      return { url, close: () => new Promise((resolve) => server.close(resolve)) };
+    }
+
+    async function challenge(url: string) {
+      const res = await fetch(url);
+      const body = await res.json();
+      const { paymentHash } = decodeIdentifier(deserializeMacaroon(body.macaroon).identifier);
+      return { res, body, paymentHash };
+    }
+
+    const withMacaroon = (macaroon: string) => ({ headers: { authorization: `L402 ${macaroon}` } });
+
+    beforeEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('issues a hold invoice and marks the challenge as escrow', async () => {
+      const backend = stubHoldNode();
+      const server = await serve(l402({ node: backend, rootKey, price: 100, escrow: true }));
+      try {
+        const { res, body, paymentHash } = await challenge(server.url);
+
+        expect(res.status).toBe(402);
+        expect(res.headers.get('www-authenticate')).toMatch(/, escrow="true"$/);
+        expect(body).toMatchObject({ invoice: 'lnbc100n1hold', escrow: true });
+        expect(backend.createHoldInvoice).toHaveBeenCalledWith({
+          amountSats: 100,
+          memo: 'L402 access: GET /api/job',
+          paymentHash,
+        });
+        expect(backend.createInvoice).not.toHaveBeenCalled();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('runs the handler once the payment is held, then settles and sends the preimage', async () => {
+      const backend = stubHoldNode();
+      const server = await serve(l402({ node: backend, rootKey, price: 100, escrow: true }));
+      try {
+        const { body, paymentHash } = await challenge(server.url);
+        backend.pay(paymentHash);
+
+        const res = await fetch(server.url, withMacaroon(body.macaroon));
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ done: true, paid: paymentHash });
+        const preimage = res.headers.get('l402-preimage')!;
+        expect(sha256(preimage)).toBe(paymentHash);
+        expect(backend.settleInvoice).toHaveBeenCalledWith(preimage);
+        expect(backend.cancelInvoice).not.toHaveBeenCalled();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('cancels the payment when the handler does not succeed', async () => {
+      const backend = stubHoldNode();
+      const server = await serve(l402({ node: backend, rootKey, price: 100, escrow: true }), 500);
+      try {
+        const { body, paymentHash } = await challenge(server.url);
+        backend.pay(paymentHash);
+
+        const res = await fetch(server.url, withMacaroon(body.macaroon));
+
+        expect(res.status).toBe(500);
+        expect(res.headers.get('l402-preimage')).toBeNull();
+        expect(backend.cancelInvoice).toHaveBeenCalledWith(paymentHash);
+        expect(backend.settleInvoice).not.toHaveBeenCalled();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('waits for the payment to arrive', async () => {
+      const backend = stubHoldNode();
+      const server = await serve(l402({ node: backend, rootKey, price: 100, escrow: true }));
+      try {
+        const { body, paymentHash } = await challenge(server.url);
+        setTimeout(() => backend.pay(paymentHash), 300);
+
+        const res = await fetch(server.url, withMacaroon(body.macaroon));
+
+        expect(res.status).toBe(200);
+        expect(backend.lookupInvoice.mock.calls.length).toBeGreaterThan(1);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('gives up and cancels when the payment never arrives', async () => {
+      const backend = stubHoldNode();
+      const middleware = l402({ node: backend, rootKey, price: 100, escrow: true, escrowWaitSeconds: 0.3 });
+      const server = await serve(middleware);
+      try {
+        const { body, paymentHash } = await challenge(server.url);
+
+        const res = await fetch(server.url, withMacaroon(body.macaroon));
+
+        expect(res.status).toBe(401);
+        expect(await res.json()).toEqual({ error: 'L402 escrow payment not received' });
+        expect(backend.cancelInvoice).toHaveBeenCalledWith(paymentHash);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('cancels and returns 500 when the invoice lookup fails', async () => {
+      const backend = stubHoldNode();
+      const server = await serve(l402({ node: backend, rootKey, price: 100, escrow: true }));
+      try {
+        const { body, paymentHash } = await challenge(server.url);
+        backend.pay(paymentHash);
+        backend.lookupInvoice.mockRejectedValueOnce(new Error('node unreachable'));
+
+        const res = await fetch(server.url, withMacaroon(body.macaroon));
+
+        expect(res.status).toBe(500);
+        expect(backend.cancelInvoice).toHaveBeenCalledWith(paymentHash);
+        expect(backend.settleInvoice).not.toHaveBeenCalled();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('runs the handler only once per payment', async () => {
+      const backend = stubHoldNode();
+      const server = await serve(l402({ node: backend, rootKey, price: 100, escrow: true }));
+      try {
+        const { body, paymentHash } = await challenge(server.url);
+        backend.pay(paymentHash);
+
+        const first = await fetch(server.url, withMacaroon(body.macaroon));
+        const preimage = first.headers.get('l402-preimage');
+        const replay = await fetch(server.url, {
+          headers: { authorization: `L402 ${body.macaroon}:${preimage}` },
+        });
+
+        expect(first.status).toBe(200);
+        expect(replay.status).toBe(402);
+        expect(backend.settleInvoice).toHaveBeenCalledTimes(1);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('rejects macaroons that were not issued for escrow', async () => {
+      const backend = stubHoldNode();
+      const middleware = l402({ node: backend, rootKey, price: 100, escrow: true });
+      const res = mockRes();
+
+      await middleware(mockReq(withMacaroon(await makeMacaroon(PAYMENT_HASH))), res, vi.fn());
+
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ error: 'Invalid L402 token' });
+      expect(backend.lookupInvoice).not.toHaveBeenCalled();
+    });
+
+    it('throws at construction without hold invoices or with usage limits', () => {
+      const { createHoldInvoice: _, ...plain } = stubHoldNode();
+      expect(() => l402({ node: plain, rootKey, price: 100, escrow: true })).toThrow(/hold invoices/);
+      expect(() =>
+        l402({ node: stubHoldNode(), rootKey, price: 100, escrow: true, singleUse: true })
+      ).toThrow(/escrow/);
+      expect(() =>
+        l402({ node: stubHoldNode(), rootKey, price: 100, escrow: true, escrowWaitSeconds: 0 })
+      ).toThrow(/escrowWaitSeconds/);
+    });
+  });
+
+  describe('error handling', () => {
+    it('returns 500 when LND is unreachable', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+      );
+
+      const middleware = l402({ node, rootKey, price: 100 });
+      const req = mockReq();
+      const res = mockRes();
+
+      await middleware(req, res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body.error).toBe('Payment gateway error');
+    });
+
+    it('returns 500 when LND returns an error status', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+        })
+      );
+
+      const middleware = l402({ node, rootKey, price: 100 });
+      const req = mockReq();
+      const res = mockRes();
+
+      await middleware(req, res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body.error).toBe('Payment gateway error');
+    });
+  });
+
+  describe('TLS scoping', () => {
+    it('does not set NODE_TLS_REJECT_UNAUTHORIZED globally on construction', () => {
+      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+
+      l402({ node: { ...node, skipTlsVerify: true }, rootKey, price: 100 });
+
+      // The env var should NOT have been set at construction time
+      expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+    });
+
+    it('does not touch NODE_TLS_REJECT_UNAUTHORIZED when skipTlsVerify is false', async () => {
+      delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              r_hash: PAYMENT_HASH_B64,
+              payment_request: 'lnbc100n1test',
+              add_index: '1',
+            }),
+        })
+      );
+
+      const middleware = l402({ node, rootKey, price: 100 });
+      await middleware(mockReq(), mockRes(), vi.fn());
+
+      expect(process.env.NODE_TLS_REJECT_UNAUTHORIZED).toBeUndefined();
+    });
+  });
+
+  describe('price validation', () => {
+    it('returns 500 for price of 0', async () => {
+      const middleware = l402({ node, rootKey, price: 0 });
+      const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body.error).toBe('Payment gateway error');
+    });
+
+    it('returns 500 for negative price', async () => {
+      const middleware = l402({ node, rootKey, price: -10 });
+      const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body.error).toBe('Payment gateway error');
+    });
+
+    it('returns 500 for NaN price from priceFn', async () => {
+      const middleware = l402({ node, rootKey, price: 100, priceFn: () => NaN });
+      const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body.error).toBe('Payment gateway error');
+    });
+
+    it('returns 500 for Infinity price from priceFn', async () => {
+      const middleware = l402({ node, rootKey, price: 100, priceFn: () => Infinity });
+      const res = mockRes();
+      await middleware(mockReq(), res, vi.fn());
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body.error).toBe('Payment gateway error');
+    });
+  });
+
+  describe('macaroon round-trip', () => {
+    it('embeds payment hash that matches the invoice', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              r_hash: PAYMENT_HASH_B64,
+              payment_request: 'lnbc100n1test',
+              add_index: '1',
+            }),
+        })
+      );
+
+      const middleware = l402({ node, rootKey, price: 100 });
+      const req = mockReq();
+      const res = mockRes();
+
+      await middleware(req, res, vi.fn());
+
+      // Decode the macaroon from the response and verify it contains the right hash
+      const macaroon = deserializeMacaroon(res.body.macaroon);
+      const identifier = decodeIdentifier(macaroon.identifier);
+      expect(identifier.version).toBe(0);
+      expect(identifier.paymentHash).toBe(PAYMENT_HASH);
+      expect(macaroon.location).toBe('l402');
+      expect(getCaveats(macaroon)).toEqual(['key_id=0', 'services=/api/test:0']);
     });
 
     it('produces a macaroon that can be verified with the correct preimage', async () => {
@@ -450,7 +1898,7 @@ describe('l402 middleware', () => {
       );
 
       // Step 1: Get the 402 challenge
-      const middleware = l402({ node, price: 100 });
+      const middleware = l402({ node, rootKey, price: 100 });
       const challengeReq = mockReq();
       const challengeRes = mockRes();
       await middleware(challengeReq, challengeRes, vi.fn());
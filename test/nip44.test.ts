@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { decrypt, encrypt, getConversationKey } from '../src/nip44';
+import { getPublicKey, signEvent, verifyEvent } from '../src/nostr';
+
+// --- Test fixtures ---
+
+// Vector from the NIP-44 spec (v2, valid.encrypt_decrypt[0])
+const SEC1 = '00'.repeat(31) + '01';
+const SEC2 = '00'.repeat(31) + '02';
+const CONVERSATION_KEY = 'c41c775356fd92eadc63ff5a0dc1da211b268cbea22316767095b2871ea1412d';
+const NONCE = Buffer.from('00'.repeat(31) + '01', 'hex');
+const PAYLOAD =
+  'AgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABee0G5VSK0/9YypIObAtDKfYEAjD35uVkHyB0F4DwrcNaCXlCWZKaArsGrY6M9wnuTMxWfp1RTN9Xga8no+kF5Vsb';
+
+// --- Tests ---
+
+describe('nip44', () => {
+  it('derives the spec conversation key from either side', () => {
+    expect(getConversationKey(SEC1, getPublicKey(SEC2)).toString('hex')).toBe(CONVERSATION_KEY);
+    expect(getConversationKey(SEC2, getPublicKey(SEC1)).toString('hex')).toBe(CONVERSATION_KEY);
+  });
+
+  it('matches the spec payload for a fixed nonce', () => {
+    const key = Buffer.from(CONVERSATION_KEY, 'hex');
+
+    expect(encrypt('a', key, NONCE)).toBe(PAYLOAD);
+    expect(decrypt(PAYLOAD, key)).toBe('a');
+  });
+
+  it('round-trips longer messages with a random nonce', () => {
+    const key = Buffer.from(CONVERSATION_KEY, 'hex');
+    const message = JSON.stringify({ method: 'pay_invoice', params: { invoice: 'lnbc'.repeat(100) } });
+
+    const a = encrypt(message, key);
+    const b = encrypt(message, key);
+
+    expect(a).not.toBe(b);
+    expect(decrypt(a, key)).toBe(message);
+  });
+
+  it('rejects a payload with a tampered MAC', () => {
+    const key = Buffer.from(CONVERSATION_KEY, 'hex');
+    const bytes = Buffer.from(PAYLOAD, 'base64');
+    bytes[bytes.length - 1] ^= 1;
+
+    expect(() => decrypt(bytes.toString('base64'), key)).toThrow(/MAC/);
+  });
+
+  it('rejects a payload encrypted under another key', () => {
+    const other = getConversationKey(SEC1, getPublicKey('00'.repeat(31) + '03'));
+
+    expect(() => decrypt(PAYLOAD, other)).toThrow(/MAC/);
+  });
+});
+
+describe('nostr events', () => {
+  it('signs events that verify, and rejects edited ones', () => {
+    const event = signEvent({ kind: 23194, tags: [['p', getPublicKey(SEC2)]], content: 'x' }, SEC1);
+
+    expect(event.pubkey).toBe(getPublicKey(SEC1));
+    expect(verifyEvent(event)).toBe(true);
+    expect(verifyEvent({ ...event, content: 'y' })).toBe(false);
+  });
+});
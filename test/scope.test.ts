@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  caveatServices,
+  scopeCandidates,
+  scopeFromCaveats,
+  scopeFromHint,
+} from '../src/scope';
+
+// --- Test fixtures ---
+
+const TARGET = new URL('https://api.example.com/api/jokes/1?lang=en');
+
+// --- Tests ---
+
+describe('token scopes', () => {
+  describe('scopeCandidates', () => {
+    it('lists the path, then its parents up to the origin', () => {
+      expect(scopeCandidates(TARGET)).toEqual([
+        'https://api.example.com/api/jokes/1',
+        'https://api.example.com/api/jokes/',
+        'https://api.example.com/api/',
+        'https://api.example.com/',
+      ]);
+    });
+
+    it('handles the root and trailing slashes', () => {
+      expect(scopeCandidates(new URL('https://api.example.com'))).toEqual([
+        'https://api.example.com/',
+      ]);
+      expect(scopeCandidates(new URL('https://api.example.com/api/'))).toEqual([
+        'https://api.example.com/api/',
+        'https://api.example.com/',
+      ]);
+    });
+  });
+
+  describe('scopeFromHint', () => {
+    it('accepts paths and same-origin URLs that cover the request', () => {
+      expect(scopeFromHint('/api/', TARGET)).toBe('https://api.example.com/api/');
+      expect(scopeFromHint('/', TARGET)).toBe('https://api.example.com/');
+      expect(scopeFromHint('https://api.example.com/api/jokes/', TARGET)).toBe(
+        'https://api.example.com/api/jokes/'
+      );
+    });
+
+    it('rejects other origins and paths that miss the request', () => {
+      expect(scopeFromHint('https://evil.example.com/', TARGET)).toBeUndefined();
+      expect(scopeFromHint('/other/', TARGET)).toBeUndefined();
+      expect(scopeFromHint('/api', TARGET)).toBeUndefined();
+    });
+  });
+
+  describe('scopeFromCaveats', () => {
+    it('scopes a path-named service to that path', () => {
+      expect(scopeFromCaveats(['services=/api/jokes/1:0'], TARGET)).toBe(
+        'https://api.example.com/api/jokes/1'
+      );
+    });
+
+    it('scopes any other service by name', () => {
+      expect(scopeFromCaveats(['services=jokes:0,memes:1'], TARGET)).toBe(
+        'https://api.example.com#jokes'
+      );
+    });
+
+    it('returns undefined without a services caveat', () => {
+      expect(scopeFromCaveats(['jokes_valid_until=1700000000'], TARGET)).toBeUndefined();
+    });
+
+    it('reads the narrowest services caveat first', () => {
+      expect(caveatServices(['services=a:0,b:1', 'services=b:0'])).toEqual(['b', 'a', 'b']);
+    });
+
+    it('decodes percent-encoded service names', () => {
+      expect(caveatServices(['services=/files/x%2Cy:0'])).toEqual(['/files/x,y']);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createMemoryChallengeStore,
+  createMemorySpentTokenStore,
+  createMemoryTokenStore,
+  createMemoryUsageStore,
+} from '../src/stores';
+import type { IssuedChallenge, StoredToken } from '../src/types';
+
+describe('createMemoryUsageStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('increments and returns the new count', async () => {
+    const store = createMemoryUsageStore();
+    const expiresAt = Date.now() + 60_000;
+
+    expect(await store.increment('abc', expiresAt)).toBe(1);
+    expect(await store.increment('abc', expiresAt)).toBe(2);
+    expect(await store.get('abc')).toBe(2);
+    expect(await store.get('def')).toBe(0);
+  });
+
+  it('resets a key', async () => {
+    const store = createMemoryUsageStore();
+    await store.increment('abc', Date.now() + 60_000);
+
+    await store.reset('abc');
+
+    expect(await store.get('abc')).toBe(0);
+  });
+
+  it('gives concurrent increments distinct counts', async () => {
+    const store = createMemoryUsageStore();
+    const expiresAt = Date.now() + 60_000;
+
+    const counts = await Promise.all(
+      Array.from({ length: 10 }, () => store.increment('abc', expiresAt))
+    );
+
+    expect(counts.sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('forgets counts once they expire', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+    const store = createMemoryUsageStore(1000);
+
+    await store.increment('abc', Date.now() + 5000);
+    vi.setSystemTime(new Date('2026-10-19T00:00:04Z'));
+    expect(await store.increment('abc', Date.now() + 5000)).toBe(2);
+
+    vi.setSystemTime(new Date('2026-10-19T00:00:20Z'));
+    expect(await store.get('abc')).toBe(0);
+    expect(await store.increment('abc', Date.now() + 5000)).toBe(1);
+  });
+});
+
+describe('createMemorySpentTokenStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('spends a key only once', async () => {
+    const store = createMemorySpentTokenStore();
+    const expiresAt = Date.now() + 60_000;
+
+    expect(await store.markSpent('abc', expiresAt)).toBe(true);
+    expect(await store.markSpent('abc', expiresAt)).toBe(false);
+    expect(await store.markSpent('def', expiresAt)).toBe(true);
+  });
+
+  it('lets only one of many concurrent calls spend a key', async () => {
+    const store = createMemorySpentTokenStore();
+    const expiresAt = Date.now() + 60_000;
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => store.markSpent('abc', expiresAt))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('forgets keys once they expire', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+    const store = createMemorySpentTokenStore(1000);
+
+    await store.markSpent('abc', Date.now() + 5000);
+    vi.setSystemTime(new Date('2026-10-19T00:00:04Z'));
+    expect(await store.markSpent('abc', Date.now() + 5000)).toBe(false);
+
+    vi.setSystemTime(new Date('2026-10-19T00:00:20Z'));
+    expect(await store.markSpent('abc', Date.now() + 5000)).toBe(true);
+  });
+});
+
+function makeChallenge(overrides: Partial<IssuedChallenge> = {}): IssuedChallenge {
+  return {
+    paymentHash: 'cd'.repeat(32),
+    invoice: 'lnbc100n1test',
+    macaroon: 'AgEEbHNhdA==',
+    price: 100,
+    description: 'test',
+    expiresAt: Date.now() + 3_600_000,
+    ...overrides,
+  };
+}
+
+describe('createMemoryChallengeStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts hits per key in fixed windows', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+    const store = createMemoryChallengeStore();
+    const resetAt = Date.now() + 10_000;
+
+    expect(await store.hit('a', 10_000)).toEqual({ count: 1, resetAt });
+    vi.setSystemTime(new Date('2026-10-19T00:00:05Z'));
+    expect(await store.hit('a', 10_000)).toEqual({ count: 2, resetAt });
+    expect((await store.hit('b', 10_000)).count).toBe(1);
+
+    vi.setSystemTime(new Date('2026-10-19T00:00:10Z'));
+    expect(await store.hit('a', 10_000)).toEqual({ count: 1, resetAt: Date.now() + 10_000 });
+  });
+
+  it('hands a challenge out until its reuse time, payment or expiry', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryChallengeStore();
+    const challenge = makeChallenge();
+
+    await store.add('a', challenge, Date.now() + 10_000);
+    expect(await store.get('a')).toEqual(challenge);
+    vi.advanceTimersByTime(10_000);
+    expect(await store.get('a')).toBeUndefined();
+
+    await store.add('a', challenge, Date.now() + 10_000);
+    await store.settle(challenge.paymentHash);
+    expect(await store.get('a')).toBeUndefined();
+
+    const expiring = makeChallenge({ paymentHash: 'ef'.repeat(32), expiresAt: Date.now() + 1000 });
+    await store.add('b', expiring, Date.now() + 10_000);
+    vi.advanceTimersByTime(1000);
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('counts invoices that are neither paid nor expired', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryChallengeStore();
+
+    await store.add('a', makeChallenge({ paymentHash: '01' }), Date.now());
+    await store.add('b', makeChallenge({ paymentHash: '02' }), Date.now());
+    await store.add('c', makeChallenge({ paymentHash: '03', expiresAt: Date.now() + 1000 }), Date.now());
+    expect(await store.outstanding()).toBe(3);
+
+    await store.settle('01');
+    vi.advanceTimersByTime(1000);
+    expect(await store.outstanding()).toBe(1);
+  });
+});
+
+function makeToken(overrides: Partial<StoredToken> = {}): StoredToken {
+  return {
+    scope: 'https://api.example.com/data',
+    scheme: 'L402',
+    macaroon: 'AgEEbHNhdA==',
+    preimage: 'ab'.repeat(32),
+    price: 100,
+    issuedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('createMemoryTokenStore', () => {
+  it('stores tokens by scope', async () => {
+    const store = createMemoryTokenStore();
+    const token = makeToken();
+
+    await store.set(token);
+    await store.set(makeToken({ scope: 'https://other.example.com/', price: 5 }));
+
+    expect(await store.get(token.scope)).toEqual(token);
+    expect(await store.size()).toBe(2);
+
+    await store.delete(token.scope);
+    expect(await store.get(token.scope)).toBeUndefined();
+
+    await store.clear();
+    expect(await store.size()).toBe(0);
+  });
+
+  it('drops expired tokens', async () => {
+    const store = createMemoryTokenStore();
+    await store.set(makeToken({ scope: 'a', expiresAt: Date.now() - 1 }));
+    await store.set(makeToken({ scope: 'b', expiresAt: Date.now() + 60_000 }));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBeDefined();
+    expect(await store.size()).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, existsSync } from 'fs';
+import { builtinModules } from 'module';
+import path from 'path';
+import ts from 'typescript';
+import * as web from '../src/web';
+
+// --- Test fixtures ---
+
+const SRC = path.resolve(__dirname, '../src');
+
+// The options `npm run build` compiles with
+const { options: buildOptions } = ts.parseJsonConfigFileContent(
+  ts.readConfigFile(path.resolve(__dirname, '../tsconfig.json'), ts.sys.readFile).config,
+  ts.sys,
+  path.resolve(__dirname, '..')
+);
+
+/**
+ * What a source file's built output requires. The build drops
+ * type-only imports and turns dynamic `import()` calls into
+ * `require()`, which bundlers resolve like any other.
+ */
+function runtimeImports(file: string): string[] {
+  const { outputText } = ts.transpileModule(readFileSync(file, 'utf8'), { compilerOptions: buildOptions });
+  return [...outputText.matchAll(/\brequire\((["'])([^"']+)\1\)/g)].map((m) => m[2]);
+}
+
+/** Every source file an entry point loads, and the packages they import. */
+function importGraph(entry: string) {
+  const files = new Set<string>();
+  const packages = new Set<string>();
+  const visit = (file: string) => {
+    if (files.has(file)) return;
+    files.add(file);
+    for (const specifier of runtimeImports(file)) {
+      if (!specifier.startsWith('.')) {
+        packages.add(specifier);
+        continue;
+      }
+      const base = path.resolve(path.dirname(file), specifier);
+      visit(existsSync(`${base}.ts`) ? `${base}.ts` : path.join(base, 'index.ts'));
+    }
+  };
+  visit(path.join(SRC, entry));
+  return { files: [...files].map((f) => path.relative(SRC, f)), packages: [...packages] };
+}
+
+const isNodeBuiltin = (specifier: string) =>
+  specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0]);
+
+// --- Tests ---
+
+describe('l402-js/web', () => {
+  it('builds with no Node built-ins', () => {
+    const { files, packages } = importGraph('web.ts');
+
+    expect(files).toContain('core.ts');
+    expect(files).toContain('lnd-fetch.ts');
+    expect(files).not.toContain('node-tls.ts');
+    expect(packages.filter(isNodeBuiltin)).toEqual([]);
+  });
+
+  it('needs no Express types', () => {
+    // Type-only imports count here: web.d.ts carries them
+    const program = ts.createProgram([path.join(SRC, 'web.ts')], buildOptions);
+    const loaded = program.getSourceFiles().map((file) => path.relative(SRC, file.fileName));
+
+    expect(loaded).toContain('types.ts');
+    expect(loaded.filter((file) => file.includes('express'))).toEqual([]);
+    expect(loaded).not.toContain('middleware.ts');
+  });
+
+  it('keeps NWC and the Node-only modules out of the core', () => {
+    const { files, packages } = importGraph('core.ts');
+
+    expect(packages.filter(isNodeBuiltin)).toEqual([]);
+    for (const nodeOnly of ['backends/nwc.ts', 'nip44.ts', 'nostr.ts', 'client.ts', 'file-store.ts']) {
+      expect(files).not.toContain(nodeOnly);
+    }
+  });
+
+  it('exports the server and its web adapters', () => {
+    expect(web.createL402Core).toBeTypeOf('function');
+    expect(web.l402Handler).toBeTypeOf('function');
+    expect(web.l402Hono).toBeTypeOf('function');
+    expect(web.l402Next).toBeTypeOf('function');
+    expect('createL402Client' in web).toBe(false);
+  });
+});